@@ -6,6 +6,8 @@
  * - Cursor and selection sharing
  * - Participant presence
  * - Conflict resolution using Operational Transforms
+ * - Checksum verification and resync when the local copy diverges
+ * - Undo/redo of local edits
  */
 
 import { io, Socket } from 'socket.io-client';
@@ -16,13 +18,15 @@ import {
 	composeTextOperations,
 	createOperationFromDiff,
 	transformCursorPosition,
+	applyOperationToText,
 } from './operational-transform';
+import { UndoManager } from './undo-manager';
 import {
 	generateClientId,
 	generateParticipantColor,
 	throttle,
-	debounce,
 	retryWithBackoff,
+	contentChecksum,
 	logger,
 } from './utils';
 
@@ -67,6 +71,7 @@ export interface CursorPosition {
 
 export interface CursorData {
 	participantId: string;
+	documentId?: string;
 	position: CursorPosition;
 	selection?: {
 		start: CursorPosition;
@@ -81,9 +86,19 @@ export interface CollaborationOperation {
 	type: 'text-edit' | 'cursor-move' | 'selection-change';
 	documentId: string;
 	participantId: string;
+	clientId?: string;
 	operation: TextOperation[];
 	timestamp: string;
 	version: number;
+	// Checksum of the server's content at `version`
+	checksum?: string;
+}
+
+export interface DivergenceReport {
+	documentId: string;
+	revision: number;
+	expectedChecksum: string;
+	actualChecksum: string;
 }
 
 export interface CollaborationEvents {
@@ -96,12 +111,15 @@ export interface CollaborationEvents {
 	// Room events
 	'room-joined': (room: Room) => void;
 	'room-left': () => void;
+	'room-updated': (room: Room) => void;
 	'participant-joined': (participant: Participant) => void;
 	'participant-left': (participant: Participant) => void;
 	'participant-updated': (participant: Participant) => void;
 
 	// Document events
 	'document-updated': (document: DocumentState) => void;
+	'document-opened': (documentId: string, participantId: string) => void;
+	'document-closed': (documentId: string, participantId: string) => void;
 	'operation-applied': (operation: CollaborationOperation) => void;
 	'cursor-updated': (cursor: CursorData) => void;
 	'selection-updated': (selection: CursorData) => void;
@@ -110,6 +128,7 @@ export interface CollaborationEvents {
 	'sync-started': () => void;
 	'sync-completed': () => void;
 	'conflict-resolved': (operation: CollaborationOperation) => void;
+	'divergence-detected': (report: DivergenceReport) => void;
 }
 
 export class CollaborationService extends EventEmitter {
@@ -117,8 +136,22 @@ export class CollaborationService extends EventEmitter {
 	private clientId: string;
 	private currentRoom: Room | null = null;
 	private currentDocument: DocumentState | null = null;
-	private pendingOperations: Map<string, CollaborationOperation> = new Map();
-	private operationQueue: CollaborationOperation[] = [];
+	// Sent operation awaiting acknowledgement; only one is in flight at a time
+	private outstandingOperation: CollaborationOperation | null = null;
+	// Local edits made while an operation is in flight, composed into one
+	private bufferedOperation: TextOperation[] | null = null;
+	private clientSequence = 0;
+	// Server revisions that arrived ahead of their predecessors
+	private revisionQueue: Map<number, () => void> = new Map();
+	// Set while catching up after a reconnect; revisions are held back meanwhile
+	private resuming = false;
+	// The server's content at the current version, without local edits
+	private confirmedContent = '';
+	// Set once the server's content no longer matches a revision's checksum, until resynced
+	private divergence: DivergenceReport | null = null;
+	// Set while fetching the server's copy after a divergence; revisions are held back meanwhile
+	private resyncing = false;
+	private undoManager = new UndoManager();
 	private isConnected = false;
 	private isReconnecting = false;
 	private reconnectAttempts = 0;
@@ -128,7 +161,6 @@ export class CollaborationService extends EventEmitter {
 
 	// Throttled methods
 	private throttledSendCursor: (cursor: CursorData) => void;
-	private debouncedSendOperation: (operation: CollaborationOperation) => void;
 
 	constructor(serverUrl: string = 'http://localhost:3000') {
 		super();
@@ -137,7 +169,6 @@ export class CollaborationService extends EventEmitter {
 
 		// Create throttled methods
 		this.throttledSendCursor = throttle(this.sendCursorUpdate.bind(this), 100);
-		this.debouncedSendOperation = debounce(this.sendOperation.bind(this), 50);
 
 		logger.debug('CollaborationService initialized', { clientId: this.clientId });
 	}
@@ -218,21 +249,21 @@ export class CollaborationService extends EventEmitter {
 			this.handleReconnection();
 		});
 
-		this.socket.on('reconnect', (attemptNumber) => {
-			this.isConnected = true;
+		// Reconnection events come from the underlying manager
+		this.socket.io.on('reconnect', (attemptNumber) => {
 			this.isReconnecting = false;
 			logger.info('Reconnected to server', { attemptNumber });
-			this.emit('connected');
+			this.resumeSession().catch(error => logger.error('Failed to resume session', error as Error));
 		});
 
-		this.socket.on('reconnect_attempt', (attemptNumber) => {
+		this.socket.io.on('reconnect_attempt', (attemptNumber) => {
 			this.isReconnecting = true;
 			this.reconnectAttempts = attemptNumber;
 			logger.debug('Attempting to reconnect', { attemptNumber });
 			this.emit('reconnecting', attemptNumber);
 		});
 
-		this.socket.on('reconnect_failed', () => {
+		this.socket.io.on('reconnect_failed', () => {
 			this.isReconnecting = false;
 			logger.error('Failed to reconnect after maximum attempts');
 			this.emit('error', new Error('Failed to reconnect to server'));
@@ -247,33 +278,64 @@ export class CollaborationService extends EventEmitter {
 
 		this.socket.on('room-left', () => {
 			this.currentRoom = null;
-			this.currentDocument = null;
+			this.resetDocument(null);
 			logger.info('Left room');
 			this.emit('room-left');
 		});
 
+		this.socket.on('room-updated', (data: { room: Room }) => {
+			if (data.room.id !== this.currentRoom?.id) return;
+			this.currentRoom = data.room;
+			this.emit('room-updated', data.room);
+		});
+
 		this.socket.on('participant-joined', (data: { participant: Participant }) => {
 			logger.info('Participant joined', { participantId: data.participant.id });
+			this.storeParticipant(data.participant);
 			this.emit('participant-joined', data.participant);
 		});
 
-		this.socket.on('participant-left', (data: { participant: Participant }) => {
-			logger.info('Participant left', { participantId: data.participant.id });
-			this.emit('participant-left', data.participant);
+		this.socket.on('participant-left', (data: { participantId: string; participant?: Participant }) => {
+			logger.info('Participant left', { participantId: data.participantId });
+			const participant = data.participant
+				|| this.currentRoom?.participants.find(p => p.id === data.participantId);
+			if (this.currentRoom) {
+				this.currentRoom.participants = this.currentRoom.participants.filter(p => p.id !== data.participantId);
+				this.currentRoom.currentParticipants = this.currentRoom.participants.length;
+			}
+			if (participant) {
+				this.emit('participant-left', participant);
+			}
 		});
 
 		this.socket.on('participant-updated', (data: { participant: Participant }) => {
+			this.storeParticipant(data.participant);
 			this.emit('participant-updated', data.participant);
 		});
 
 		// Document events
 		this.socket.on('document-updated', (data: { document: DocumentState }) => {
-			this.currentDocument = data.document;
+			if (data.document.id !== this.currentDocument?.id) return;
+			// Recorded edits no longer apply to a replaced document
+			this.resetDocument(data.document);
 			this.emit('document-updated', data.document);
 		});
 
+		this.socket.on('document-opened', (data: { documentId: string; participantId: string }) => {
+			this.emit('document-opened', data.documentId, data.participantId);
+		});
+
+		this.socket.on('document-closed', (data: { documentId: string; participantId: string }) => {
+			this.emit('document-closed', data.documentId, data.participantId);
+		});
+
 		this.socket.on('operation-received', (data: { operation: CollaborationOperation }) => {
-			this.handleIncomingOperation(data.operation);
+			const operation = data.operation;
+			if (operation.documentId !== this.currentDocument?.id) return;
+			this.queueRevision(operation.version, () => {
+				this.confirmRevision(operation.operation, operation.checksum);
+				this.handleIncomingOperation(operation);
+			});
 		});
 
 		this.socket.on('cursor-updated', (data: { cursor: CursorData }) => {
@@ -289,8 +351,12 @@ export class CollaborationService extends EventEmitter {
 			this.handleSyncRequest();
 		});
 
-		this.socket.on('operation-acknowledged', (data: { operationId: string }) => {
-			this.pendingOperations.delete(data.operationId);
+		// The server's copy, in answer to our own sync-request
+		this.socket.on('sync-response', (data: { document: DocumentState }) => {
+			if (data.document.id !== this.currentDocument?.id) return;
+			this.resetDocument(data.document);
+			this.emit('document-updated', data.document);
+			this.emit('sync-completed');
 		});
 
 		// Error events
@@ -315,16 +381,13 @@ export class CollaborationService extends EventEmitter {
 
 			this.socket!.emit('join-room', {
 				roomId,
-				participant: {
-					id: this.clientId,
-					displayName,
-					color: generateParticipantColor(),
-				},
 			}, (response: { success: boolean; room?: Room; error?: string }) => {
 				clearTimeout(timeout);
 
 				if (response.success && response.room) {
 					this.currentRoom = response.room;
+					logger.info('Joined room', { roomId: response.room.id });
+					this.emit('room-joined', response.room);
 					resolve(response.room);
 				} else {
 					reject(new Error(response.error || 'Failed to join room'));
@@ -344,10 +407,9 @@ export class CollaborationService extends EventEmitter {
 		return new Promise((resolve) => {
 			this.socket!.emit('leave-room', {
 				roomId: this.currentRoom!.id,
-				participantId: this.clientId,
 			}, () => {
 				this.currentRoom = null;
-				this.currentDocument = null;
+				this.resetDocument(null);
 				resolve();
 			});
 		});
@@ -361,16 +423,23 @@ export class CollaborationService extends EventEmitter {
 			throw new Error('Not in a collaboration room');
 		}
 
+		// Only the current document's events are followed
+		if (this.currentDocument && this.currentDocument.filePath !== filePath) {
+			this.socket.emit('document-close', {
+				roomId: this.currentRoom.id,
+				documentId: this.currentDocument.id,
+			});
+		}
+
 		return new Promise((resolve, reject) => {
 			this.socket!.emit('open-document', {
 				roomId: this.currentRoom!.id,
 				filePath,
 				content,
 				language,
-				participantId: this.clientId,
 			}, (response: { success: boolean; document?: DocumentState; error?: string }) => {
 				if (response.success && response.document) {
-					this.currentDocument = response.document;
+					this.resetDocument(response.document);
 					resolve(response.document);
 				} else {
 					reject(new Error(response.error || 'Failed to open document'));
@@ -396,21 +465,10 @@ export class CollaborationService extends EventEmitter {
 
 		try {
 			const operation = createOperationFromDiff(oldText, newText);
-			const collaborationOp: CollaborationOperation = {
-				id: generateClientId(),
-				type: 'text-edit',
-				documentId,
-				participantId: this.clientId,
-				operation,
-				timestamp: new Date().toISOString(),
-				version: this.currentDocument.version + 1,
-			};
-
-			// Add to pending operations
-			this.pendingOperations.set(collaborationOp.id, collaborationOp);
-
-			// Send to server (debounced)
-			this.debouncedSendOperation(collaborationOp);
+			this.undoManager.record(operation, oldText);
+			this.currentDocument.content = newText;
+
+			const collaborationOp = this.submitLocalOperation(operation);
 
 			logger.debug('Applied text edit', { operationId: collaborationOp.id });
 		} catch (error) {
@@ -418,14 +476,85 @@ export class CollaborationService extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Undo the latest local edit, keeping edits made by other participants.
+	 * The returned operation is also emitted as `operation-applied` for the editor to apply.
+	 */
+	undo(): CollaborationOperation | null {
+		if (!this.currentDocument) return null;
+
+		const operation = this.undoManager.undo(this.currentDocument.content);
+		return operation ? this.applyHistoryOperation(operation) : null;
+	}
+
+	/**
+	 * Reapply the latest undone local edit
+	 */
+	redo(): CollaborationOperation | null {
+		if (!this.currentDocument) return null;
+
+		const operation = this.undoManager.redo(this.currentDocument.content);
+		return operation ? this.applyHistoryOperation(operation) : null;
+	}
+
+	canUndo(): boolean {
+		return this.undoManager.canUndo();
+	}
+
+	canRedo(): boolean {
+		return this.undoManager.canRedo();
+	}
+
+	/**
+	 * Apply an undo/redo operation locally and send it to the server
+	 */
+	private applyHistoryOperation(operation: TextOperation[]): CollaborationOperation {
+		this.currentDocument!.content = applyOperationToText(this.currentDocument!.content, operation);
+
+		const collaborationOp = this.submitLocalOperation(operation);
+		this.emit('operation-applied', collaborationOp);
+
+		logger.debug('Applied undo/redo operation', { operationId: collaborationOp.id });
+		return collaborationOp;
+	}
+
+	/**
+	 * Send a local operation to the server, or buffer it while another is in flight
+	 */
+	private submitLocalOperation(operation: TextOperation[]): CollaborationOperation {
+		const collaborationOp: CollaborationOperation = {
+			id: generateClientId(),
+			type: 'text-edit',
+			documentId: this.currentDocument!.id,
+			participantId: this.clientId,
+			clientId: this.clientId,
+			operation,
+			timestamp: new Date().toISOString(),
+			version: this.currentDocument!.version,
+		};
+
+		// Nothing is sent on top of a diverged copy until it is resynced
+		if (this.outstandingOperation || this.resuming || this.divergence) {
+			this.bufferedOperation = this.bufferedOperation
+				? composeTextOperations(this.bufferedOperation, operation)
+				: operation;
+		} else {
+			this.outstandingOperation = collaborationOp;
+			this.sendOperation(collaborationOp);
+		}
+
+		return collaborationOp;
+	}
+
 	/**
 	 * Update cursor position
 	 */
 	updateCursor(line: number, character: number, selection?: { start: CursorPosition; end: CursorPosition }): void {
-		if (!this.currentRoom) return;
+		if (!this.currentRoom || !this.currentDocument) return;
 
 		const cursor: CursorData = {
 			participantId: this.clientId,
+			documentId: this.currentDocument.id,
 			position: { line, character },
 			selection,
 			color: generateParticipantColor(),
@@ -439,55 +568,165 @@ export class CollaborationService extends EventEmitter {
 	 * Send operation to server
 	 */
 	private sendOperation(operation: CollaborationOperation): void {
-		if (!this.socket || !this.isConnected) {
-			this.operationQueue.push(operation);
+		if (!this.socket || !this.isConnected || !this.currentRoom) {
+			// Resent by resumeSession once connected again
 			return;
 		}
 
-		this.socket.emit('operation', { operation });
+		this.socket.emit('operation', {
+			roomId: this.currentRoom.id,
+			documentId: operation.documentId,
+			operationId: operation.id,
+			operation: operation.operation,
+			revision: operation.version,
+			clientId: this.clientId,
+			clientSequence: this.clientSequence,
+		}, (response: { success: boolean; error?: string; code?: string; revision?: number; checksum?: string }) => {
+			if (!response.success) {
+				this.handleRejectedOperation(operation, response.error, response.code);
+				return;
+			}
+			if (operation.documentId !== this.currentDocument?.id) return;
+			// Acknowledgements are applied in revision order, among incoming operations
+			this.queueRevision(response.revision!, () => this.handleAcknowledgement(operation.id, response.checksum));
+		});
 	}
 
 	/**
 	 * Send cursor update to server
 	 */
 	private sendCursorUpdate(cursor: CursorData): void {
-		if (!this.socket || !this.isConnected || !this.currentRoom) {
+		if (!this.socket || !this.isConnected || !this.currentRoom || !cursor.documentId) {
 			return;
 		}
 
 		this.socket.emit('cursor-update', {
 			roomId: this.currentRoom.id,
-			cursor,
+			documentId: cursor.documentId,
+			cursor: {
+				position: cursor.position,
+				selection: cursor.selection,
+			},
 		});
 	}
 
 	/**
-	 * Handle incoming operation from other participants
+	 * Run server revisions in order; acknowledgements and broadcasts can overtake each other
+	 */
+	private queueRevision(revision: number, apply: () => void): void {
+		if (!this.currentDocument || revision <= this.currentDocument.version) {
+			return;
+		}
+
+		this.revisionQueue.set(revision, apply);
+		if (!this.resuming && !this.resyncing) {
+			this.drainRevisionQueue();
+		}
+	}
+
+	private drainRevisionQueue(): void {
+		if (!this.currentDocument) return;
+
+		for (const revision of this.revisionQueue.keys()) {
+			if (revision <= this.currentDocument.version) {
+				this.revisionQueue.delete(revision);
+			}
+		}
+
+		let next = this.revisionQueue.get(this.currentDocument.version + 1);
+		while (next) {
+			this.revisionQueue.delete(this.currentDocument.version + 1);
+			this.currentDocument.version++;
+			next();
+			next = this.currentDocument && !this.resyncing ? this.revisionQueue.get(this.currentDocument.version + 1) : undefined;
+		}
+	}
+
+	/**
+	 * The server applied our outstanding operation; send what was buffered meanwhile
+	 */
+	private handleAcknowledgement(operationId: string, checksum?: string): void {
+		if (!this.outstandingOperation || this.outstandingOperation.id !== operationId) {
+			logger.warn('Unexpected operation acknowledgement', { operationId });
+			return;
+		}
+
+		// Transformed past every revision before it, it is what the server applied
+		this.confirmRevision(this.outstandingOperation.operation, checksum);
+		this.outstandingOperation = null;
+		this.clientSequence++;
+
+		if (this.divergence) {
+			this.resyncDocument().catch(error => logger.error('Failed to resync document', error as Error));
+			return;
+		}
+
+		if (this.bufferedOperation) {
+			const operation = this.bufferedOperation;
+			this.bufferedOperation = null;
+			this.submitLocalOperation(operation);
+		}
+	}
+
+	/**
+	 * Drop local edits the server refused and fetch its copy of the document
+	 */
+	private handleRejectedOperation(operation: CollaborationOperation, error?: string, code?: string): void {
+		if (this.outstandingOperation?.id !== operation.id) return;
+
+		logger.warn('Operation rejected by server', { operationId: operation.id, error, code });
+		this.outstandingOperation = null;
+		this.bufferedOperation = null;
+		this.clientSequence++;
+
+		if (this.divergence) {
+			this.resyncDocument().catch(error => logger.error('Failed to resync document', error as Error));
+			return;
+		}
+
+		// The server asks for our copy by itself after these
+		if (code === 'DOCUMENT_CHANGED' || code === 'REVISION_UNAVAILABLE') return;
+
+		if (this.socket && this.currentRoom && this.currentDocument) {
+			this.emit('sync-started');
+			this.socket.emit('sync-request', {
+				roomId: this.currentRoom.id,
+				documentId: this.currentDocument.id,
+			});
+		}
+	}
+
+	/**
+	 * Handle incoming operation from other participants. The document version
+	 * already counts it; local operations the server has not seen yet are
+	 * transformed to apply after it.
 	 */
 	private handleIncomingOperation(operation: CollaborationOperation): void {
-		if (!this.currentDocument || operation.participantId === this.clientId) {
+		if (!this.currentDocument) {
 			return;
 		}
 
 		try {
-			// Transform against pending operations
+			// The server sequenced the incoming operation first, so it wins ties
 			let transformedOp = operation.operation;
 
-			for (const pendingOp of this.pendingOperations.values()) {
-				const [transformed] = transformTextOperations(transformedOp, pendingOp.operation);
-				transformedOp = transformed;
+			if (this.outstandingOperation) {
+				const [incoming, outstanding] = transformTextOperations(transformedOp, this.outstandingOperation.operation);
+				transformedOp = incoming;
+				this.outstandingOperation.operation = outstanding;
+			}
+
+			if (this.bufferedOperation) {
+				const [incoming, buffered] = transformTextOperations(transformedOp, this.bufferedOperation);
+				transformedOp = incoming;
+				this.bufferedOperation = buffered;
 			}
 
 			// Apply the transformed operation
 			this.applyOperation(transformedOp);
+			this.undoManager.transform(transformedOp);
 
-			// Update document version
-			this.currentDocument.version = Math.max(
-				this.currentDocument.version,
-				operation.version
-			);
-
-			this.emit('operation-applied', operation);
+			this.emit('operation-applied', { ...operation, operation: transformedOp });
 			logger.debug('Applied incoming operation', { operationId: operation.id });
 		} catch (error) {
 			logger.error('Failed to handle incoming operation', error as Error);
@@ -503,6 +742,7 @@ export class CollaborationService extends EventEmitter {
 		// This would integrate with VS Code's text editor
 		// For now, we just update our internal state
 		// In a real implementation, this would call VS Code's edit API
+		this.currentDocument.content = applyOperationToText(this.currentDocument.content, operations);
 
 		logger.debug('Operation applied to document', {
 			documentId: this.currentDocument.id,
@@ -510,23 +750,168 @@ export class CollaborationService extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Apply a sequenced revision to our copy of the server's content and check it
+	 */
+	private confirmRevision(operation: TextOperation[], checksum?: string): void {
+		if (!this.currentDocument) return;
+
+		try {
+			this.confirmedContent = applyOperationToText(this.confirmedContent, operation);
+		} catch (error) {
+			// The revision does not even fit our copy
+			this.detectDivergence(checksum || '');
+			return;
+		}
+
+		this.verifyChecksum(checksum);
+	}
+
+	/**
+	 * Compare our copy of the server's content with the checksum of the current version
+	 */
+	private verifyChecksum(checksum?: string): void {
+		if (checksum && !this.divergence && contentChecksum(this.confirmedContent) !== checksum) {
+			this.detectDivergence(checksum);
+		}
+	}
+
+	/**
+	 * Start recovering from a divergence, once no operation is in flight
+	 */
+	private detectDivergence(expectedChecksum: string): void {
+		if (!this.currentDocument || this.divergence) return;
+
+		const report: DivergenceReport = {
+			documentId: this.currentDocument.id,
+			revision: this.currentDocument.version,
+			expectedChecksum,
+			actualChecksum: contentChecksum(this.confirmedContent),
+		};
+		this.divergence = report;
+		logger.warn('Document diverged from the server copy', { ...report });
+		this.emit('divergence-detected', report);
+
+		// An operation in flight still gets acknowledged or rejected first
+		if (!this.outstandingOperation) {
+			this.resyncDocument().catch(error => logger.error('Failed to resync document', error as Error));
+		}
+	}
+
+	/**
+	 * Report a divergence and replace our copy with the server's, rebasing
+	 * unsent local edits onto it. Revisions are held back until then.
+	 */
+	private async resyncDocument(): Promise<void> {
+		const document = this.currentDocument;
+		const report = this.divergence;
+		if (!this.socket || !this.currentRoom || !document || !report || this.resyncing) return;
+
+		const roomId = this.currentRoom.id;
+		this.resyncing = true;
+		this.emit('sync-started');
+
+		let snapshot: DocumentState;
+		try {
+			({ document: snapshot } = await this.request<{ document: DocumentState }>('divergence-report', {
+				roomId,
+				documentId: report.documentId,
+				revision: report.revision,
+				clientId: this.clientId,
+				expectedChecksum: report.expectedChecksum,
+				actualChecksum: report.actualChecksum,
+			}));
+		} catch (error) {
+			this.resyncing = false;
+			if (this.currentDocument === document) {
+				logger.warn('Resync failed, reloading document', { documentId: document.id });
+				this.resetDocument(document);
+				this.socket?.emit('sync-request', { roomId, documentId: document.id });
+			}
+			throw error;
+		}
+
+		this.resyncing = false;
+		if (this.currentDocument !== document) {
+			this.drainRevisionQueue();
+			return;
+		}
+
+		// Unsent edits apply to our copy of the server's content; the server's
+		// changes to it come first, as if they were sequenced before them
+		let local = this.bufferedOperation;
+		let content = snapshot.content;
+		if (local) {
+			try {
+				const serverChanges = createOperationFromDiff(this.confirmedContent, snapshot.content);
+				[, local] = transformTextOperations(serverChanges, local);
+				content = applyOperationToText(snapshot.content, local);
+			} catch (error) {
+				logger.warn('Could not rebase local edits onto the server copy, dropping them', { documentId: document.id });
+				local = null;
+			}
+		}
+
+		this.currentDocument = { ...snapshot, content };
+		this.confirmedContent = snapshot.content;
+		this.bufferedOperation = local;
+		this.divergence = null;
+		// Recorded edits do not necessarily fit the repaired copy
+		this.undoManager.clear();
+
+		logger.info('Resynced diverged document', { documentId: document.id, version: snapshot.version });
+		this.emit('document-updated', this.currentDocument);
+		this.emit('sync-completed');
+
+		this.drainRevisionQueue();
+		if (this.bufferedOperation && !this.outstandingOperation) {
+			const operation = this.bufferedOperation;
+			this.bufferedOperation = null;
+			this.submitLocalOperation(operation);
+		}
+	}
+
+	/**
+	 * Replace the current document, discarding unacknowledged local edits
+	 */
+	private resetDocument(document: DocumentState | null): void {
+		this.currentDocument = document;
+		this.confirmedContent = document ? document.content : '';
+		this.divergence = null;
+		this.outstandingOperation = null;
+		this.bufferedOperation = null;
+		this.revisionQueue.clear();
+		this.undoManager.clear();
+	}
+
+	/**
+	 * Add or replace a participant of the current room
+	 */
+	private storeParticipant(participant: Participant): void {
+		if (!this.currentRoom) return;
+
+		const others = this.currentRoom.participants.filter(p => p.id !== participant.id);
+		this.currentRoom.participants = [...others, participant];
+		this.currentRoom.currentParticipants = this.currentRoom.participants.length;
+	}
+
 	/**
 	 * Handle sync request from server
 	 */
 	private handleSyncRequest(): void {
-		if (!this.socket || !this.currentDocument) return;
+		if (!this.socket || !this.currentRoom || !this.currentDocument) return;
 
 		this.emit('sync-started');
 
-		// Send current document state for synchronization
-		this.socket.emit('sync-response', {
+		// The server answers with document-updated when our copy differs from its own
+		this.socket.emit('sync-report', {
+			roomId: this.currentRoom.id,
 			documentId: this.currentDocument.id,
 			content: this.currentDocument.content,
 			version: this.currentDocument.version,
-			pendingOperations: Array.from(this.pendingOperations.values()),
+		}, () => {
+			this.emit('sync-completed');
 		});
-
-		this.emit('sync-completed');
 	}
 
 	/**
@@ -552,17 +937,115 @@ export class CollaborationService extends EventEmitter {
 	}
 
 	/**
-	 * Process queued operations after reconnection
+	 * Rejoin the room after reconnecting and catch up on the current document.
+	 * The server replays the revisions missed since the last one applied here,
+	 * or sends a snapshot when they are gone, and applies our unacknowledged
+	 * operations after transforming them.
 	 */
-	private processQueuedOperations(): void {
-		if (!this.socket || !this.isConnected) return;
+	private async resumeSession(): Promise<void> {
+		if (!this.socket || !this.currentRoom) return;
+
+		const room = await this.request<{ room: Room }>('join-room', { roomId: this.currentRoom.id });
+		this.currentRoom = room.room;
+
+		const document = this.currentDocument;
+		if (!document) return;
 
-		while (this.operationQueue.length > 0) {
-			const operation = this.operationQueue.shift();
-			if (operation) {
-				this.sendOperation(operation);
+		// Sent and buffered operations, each applying after the previous one
+		const pending: { clientSequence: number; operation: TextOperation[] }[] = [];
+		let clientSequence = this.clientSequence;
+		if (this.outstandingOperation) {
+			pending.push({ clientSequence: clientSequence++, operation: this.outstandingOperation.operation });
+		}
+		if (this.bufferedOperation) {
+			pending.push({ clientSequence: clientSequence++, operation: this.bufferedOperation });
+		}
+
+		// The pending operations apply to our copy of the server's content, and so do
+		// the replayed revisions after them
+		const confirmedContent = document.content;
+
+		// Edits made from here on are buffered until the resume completes
+		this.outstandingOperation = null;
+		this.bufferedOperation = null;
+		this.resuming = true;
+
+		let response: {
+			mode: 'replay' | 'snapshot';
+			revision?: number;
+			checksum?: string;
+			operations?: CollaborationOperation[];
+			document?: DocumentState;
+		};
+		try {
+			response = await this.request('resume', {
+				roomId: room.room.id,
+				documentId: document.id,
+				revision: document.version,
+				clientId: this.clientId,
+				pending,
+			});
+		} catch (error) {
+			this.resuming = false;
+			if (this.currentDocument === document) {
+				logger.warn('Resume failed, reloading document', { documentId: document.id });
+				this.resetDocument(document);
+				this.socket.emit('sync-request', { roomId: room.room.id, documentId: document.id });
 			}
+			throw error;
+		}
+
+		this.resuming = false;
+		this.clientSequence = clientSequence;
+		if (this.currentDocument !== document) return;
+
+		if (response.mode === 'snapshot') {
+			logger.warn('Missed too much while disconnected, unacknowledged edits were dropped', { documentId: document.id });
+			this.resetDocument(response.document!);
+			this.emit('document-updated', response.document!);
+			return;
 		}
+
+		// Replayed revisions already account for our pending operations
+		this.confirmedContent = confirmedContent;
+		for (const operation of response.operations!) {
+			this.confirmRevision(operation.operation);
+			this.handleIncomingOperation(operation);
+		}
+		document.version = response.revision!;
+		this.verifyChecksum(response.checksum);
+		this.drainRevisionQueue();
+
+		if (this.bufferedOperation && !this.outstandingOperation) {
+			const operation = this.bufferedOperation;
+			this.bufferedOperation = null;
+			this.submitLocalOperation(operation);
+		}
+
+		logger.info('Resumed document', { documentId: document.id, replayed: response.operations!.length });
+	}
+
+	/**
+	 * Emit an event and wait for its acknowledgement
+	 */
+	private request<T = any>(event: string, payload: unknown, timeoutMs: number = 10000): Promise<T> {
+		return new Promise((resolve, reject) => {
+			if (!this.socket) {
+				reject(new Error('Not connected to collaboration server'));
+				return;
+			}
+
+			const timeout = setTimeout(() => reject(new Error(`${event} timed out`)), timeoutMs);
+
+			this.socket.emit(event, payload, (response: { success: boolean; error?: string } & T) => {
+				clearTimeout(timeout);
+				if (response.success) {
+					resolve(response);
+				} else {
+					reject(new Error(response.error || `${event} failed`));
+				}
+			});
+		});
 	}
 
 	/**
@@ -605,8 +1088,7 @@ export class CollaborationService extends EventEmitter {
 				this.socket = null;
 			}
 
-			this.pendingOperations.clear();
-			this.operationQueue.length = 0;
+			this.resetDocument(null);
 			this.removeAllListeners();
 
 			logger.info('CollaborationService disposed');
@@ -5,7 +5,7 @@
 
 import * as vscode from 'vscode';
 import { collaborationService, Participant, Room } from './collaboration-service';
-import { documentSyncService } from './document-sync';
+import { documentSyncService, ConflictResolution } from './document-sync';
 import { logger } from './utils';
 
 export class CollaborationUI {
@@ -97,7 +97,7 @@ export class CollaborationUI {
 		documentSyncService.on('conflict-detected', (conflict) => {
 			this.showConflictDecoration(conflict);
 			vscode.window.showWarningMessage(
-				`Conflict detected in document. Using server version.`,
+				`Conflict detected in document. ${this.describeConflictResolution(conflict.resolutionStrategy)}.`,
 				'View Details'
 			).then(selection => {
 				if (selection === 'View Details') {
@@ -375,7 +375,7 @@ export class CollaborationUI {
 		const range = new vscode.Range(0, 0, 0, 10); // Placeholder range
 		const decorationOptions: vscode.DecorationOptions = {
 			range,
-			hoverMessage: 'Conflict detected - using server version',
+			hoverMessage: `Conflict detected - ${this.describeConflictResolution(conflict.resolutionStrategy).toLowerCase()}`,
 		};
 
 		editor.setDecorations(this.conflictDecorations, [decorationOptions]);
@@ -598,6 +598,22 @@ export class CollaborationUI {
 		vscode.window.showInformationMessage('Conflict resolution panel shown');
 	}
 
+	/**
+	 * What happens to conflicting edits under a resolution strategy
+	 */
+	private describeConflictResolution(strategy: ConflictResolution['resolutionStrategy']): string {
+		switch (strategy) {
+			case 'client-wins':
+				return 'Keeping your version';
+			case 'merge':
+				return 'Merging both edits';
+			case 'manual':
+				return 'Your edits are held until the conflict is resolved';
+			default:
+				return 'Using server version';
+		}
+	}
+
 	/**
 	 * Show conflict details
 	 */
@@ -0,0 +1,510 @@
+/**
+ * CRDT document store
+ *
+ * Documents in rooms using the `crdt` editing mode are Yjs documents that keep
+ * their text in a single Y.Text. Every update is appended to
+ * `document_crdt_updates` as it arrives. Once enough have accumulated, or the
+ * document has been quiet for a moment, they are merged into one and the text
+ * is written back to `documents.content` as a new version, so the REST
+ * endpoints, search and version history keep working on plain text.
+ *
+ * Updates and awareness changes are relayed to the other server instances
+ * through the pub/sub adapter. Yjs updates commute and can be applied more than
+ * once, so every instance holds, persists and compacts documents on its own,
+ * without a leader.
+ */
+
+import { EventEmitter } from 'events';
+import * as Y from 'yjs';
+import { Awareness, encodeAwarenessUpdate, applyAwarenessUpdate } from 'y-protocols/awareness';
+import { supabase, SupabaseError } from './supabase';
+import { TextOperation, createOperationFromDiff, getBaseLength, validateTextOperation } from './operational-transform';
+import { OperationError } from './ot-server';
+import { createSnapshot } from './document-snapshots';
+import { PubSubAdapter, pubsub } from './pubsub';
+import { logger } from './utils';
+
+// Name of the Y.Text holding a document's content, shared with clients
+export const CRDT_TEXT_NAME = 'content';
+
+// Transaction origin of changes relayed from other instances
+const REMOTE_ORIGIN = 'remote';
+
+const UPDATES_CHANNEL = 'crdt:updates';
+const AWARENESS_CHANNEL = 'crdt:awareness';
+
+interface RelayedUpdate {
+	instanceId: string;
+	documentId: string;
+	// Base64-encoded Yjs or awareness update
+	update: string;
+}
+
+export interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
+
+export interface CrdtDocument {
+	documentId: string;
+	roomId: string;
+	doc: Y.Doc;
+	text: Y.Text;
+	awareness: Awareness;
+	// Open sync connections, which keep the document loaded
+	connections: number;
+	// Updates stored by this instance since the last compaction
+	uncompacted: number;
+	// Persistence work, run strictly in order
+	queue: Promise<unknown>;
+	compactTimer?: NodeJS.Timeout;
+	lastAccess: number;
+}
+
+export class CrdtDocumentStore extends EventEmitter {
+	private documents = new Map<string, CrdtDocument>();
+	private loading = new Map<string, Promise<CrdtDocument>>();
+	// Changes relayed while a document was loading, applied once it is ready
+	private relayedDuringLoad = new Map<string, Uint8Array[]>();
+	private readonly compactAfterUpdates = parseInt(process.env.CRDT_COMPACT_UPDATES || '200');
+	private readonly compactDelay = parseInt(process.env.CRDT_COMPACT_DELAY_MS || '5000');
+	private readonly idleTimeout = 10 * 60 * 1000; // 10 minutes
+	private cleanupTimer?: NodeJS.Timeout;
+
+	constructor(private readonly pubsub: PubSubAdapter) {
+		super();
+
+		pubsub.subscribe(UPDATES_CHANNEL, (message: RelayedUpdate) => this.handleRelayedUpdate(message));
+		pubsub.subscribe(AWARENESS_CHANNEL, (message: RelayedUpdate) => this.handleRelayedAwareness(message));
+
+		this.startIdleCleanup();
+	}
+
+	/**
+	 * Get the loaded Yjs document, loading it from the database if needed
+	 */
+	async getDocument(documentId: string): Promise<CrdtDocument> {
+		const cached = this.documents.get(documentId);
+		if (cached) {
+			cached.lastAccess = Date.now();
+			return cached;
+		}
+
+		const pending = this.loading.get(documentId);
+		if (pending) {
+			return pending;
+		}
+
+		const load = this.loadDocument(documentId);
+		this.loading.set(documentId, load);
+
+		try {
+			return await load;
+		} finally {
+			this.loading.delete(documentId);
+			this.relayedDuringLoad.delete(documentId);
+		}
+	}
+
+	/**
+	 * Keep a loaded document in memory while a connection uses it
+	 */
+	retain(document: CrdtDocument): void {
+		document.connections++;
+		document.lastAccess = Date.now();
+	}
+
+	release(document: CrdtDocument): void {
+		document.connections = Math.max(0, document.connections - 1);
+		document.lastAccess = Date.now();
+	}
+
+	/**
+	 * Current text of a document
+	 */
+	async getContent(documentId: string): Promise<string> {
+		const document = await this.getDocument(documentId);
+		return document.text.toString();
+	}
+
+	/**
+	 * Apply a text operation made against the current text, e.g. an edit sent over REST
+	 */
+	async applyTextOperation(documentId: string, operation: TextOperation[]): Promise<void> {
+		const document = await this.getDocument(documentId);
+
+		// REST clients may leave the end of the text implicit
+		if (!validateTextOperation(operation) || getBaseLength(operation) > document.text.length) {
+			throw new OperationError('Operation does not fit the document', 'INVALID_OPERATION');
+		}
+
+		document.doc.transact(() => {
+			let index = 0;
+			for (const op of operation) {
+				if (op.type === 'retain') {
+					index += op.count || 0;
+				} else if (op.type === 'insert') {
+					document.text.insert(index, op.text || '');
+					index += (op.text || '').length;
+				} else {
+					document.text.delete(index, op.count || 0);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Replace the whole text, keeping the parts that did not change
+	 */
+	async replaceContent(documentId: string, content: string): Promise<void> {
+		const current = await this.getContent(documentId);
+		await this.applyTextOperation(documentId, createOperationFromDiff(current, content));
+	}
+
+	/**
+	 * Merge stored updates and write the text back to the documents row now
+	 */
+	async flush(documentId: string): Promise<void> {
+		const document = this.documents.get(documentId);
+		if (document) {
+			await this.compact(document);
+		}
+	}
+
+	private async loadDocument(documentId: string): Promise<CrdtDocument> {
+		const { data: row, error } = await supabase
+			.from('documents')
+			.select('id, room_id, content')
+			.eq('id', documentId)
+			.maybeSingle();
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document', error.code, error);
+		}
+		if (!row) {
+			throw new OperationError('Document not found', 'DOCUMENT_NOT_FOUND');
+		}
+
+		const { data: updates, error: updatesError } = await supabase
+			.from('document_crdt_updates')
+			.select('id, update')
+			.eq('document_id', documentId)
+			.order('id', { ascending: true });
+
+		if (updatesError) {
+			throw new SupabaseError('Failed to fetch document updates', updatesError.code, updatesError);
+		}
+
+		const doc = new Y.Doc();
+		if (updates && updates.length > 0) {
+			Y.applyUpdate(doc, Y.mergeUpdates(updates.map(update => decodeUpdate(update.update))));
+		} else if (row.content) {
+			// Documents created before the room used CRDT sync, or over REST, start from their text
+			const seed = seedUpdate(row.content);
+			Y.applyUpdate(doc, seed);
+			await this.insertUpdate(documentId, seed);
+		}
+
+		for (const update of this.relayedDuringLoad.get(documentId) || []) {
+			Y.applyUpdate(doc, update, REMOTE_ORIGIN);
+		}
+
+		const awareness = new Awareness(doc);
+		// The server edits but is not a participant
+		awareness.setLocalState(null);
+
+		const document: CrdtDocument = {
+			documentId,
+			roomId: row.room_id,
+			doc,
+			text: doc.getText(CRDT_TEXT_NAME),
+			awareness,
+			connections: 0,
+			uncompacted: 0,
+			queue: Promise.resolve(),
+			lastAccess: Date.now(),
+		};
+
+		doc.on('update', (update: Uint8Array, origin: unknown) => {
+			this.emit('update', document, update, origin);
+			if (origin !== REMOTE_ORIGIN) {
+				this.storeUpdate(document, update);
+			}
+		});
+
+		awareness.on('update', (changes: AwarenessChanges, origin: unknown) => {
+			const clients = changes.added.concat(changes.updated, changes.removed);
+			const update = encodeAwarenessUpdate(awareness, clients);
+			this.emit('awareness', document, update, origin, changes);
+			if (origin !== REMOTE_ORIGIN) {
+				this.relay(AWARENESS_CHANNEL, documentId, update);
+			}
+		});
+
+		this.documents.set(documentId, document);
+		logger.info('CRDT document loaded', { documentId, updates: updates?.length || 0 });
+
+		return document;
+	}
+
+	/**
+	 * Append an update, then pass it on to the other instances. Relaying only
+	 * after the insert means an instance loading the document later finds it.
+	 */
+	private storeUpdate(document: CrdtDocument, update: Uint8Array): void {
+		document.uncompacted++;
+
+		this.enqueue(document, async () => {
+			try {
+				await this.insertUpdate(document.documentId, update);
+			} finally {
+				this.relay(UPDATES_CHANNEL, document.documentId, update);
+			}
+		});
+
+		if (document.uncompacted >= this.compactAfterUpdates) {
+			this.compact(document).catch(() => undefined);
+		} else {
+			this.scheduleCompaction(document);
+		}
+	}
+
+	private async insertUpdate(documentId: string, update: Uint8Array): Promise<void> {
+		const { error } = await supabase
+			.from('document_crdt_updates')
+			.insert({ document_id: documentId, update: encodeUpdate(update) });
+
+		if (error) {
+			throw new SupabaseError('Failed to store document update', error.code, error);
+		}
+	}
+
+	private scheduleCompaction(document: CrdtDocument): void {
+		if (document.compactTimer) {
+			clearTimeout(document.compactTimer);
+		}
+
+		document.compactTimer = setTimeout(() => {
+			document.compactTimer = undefined;
+			this.compact(document).catch(() => undefined);
+		}, this.compactDelay);
+		document.compactTimer.unref();
+	}
+
+	private compact(document: CrdtDocument): Promise<void> {
+		if (document.compactTimer) {
+			clearTimeout(document.compactTimer);
+			document.compactTimer = undefined;
+		}
+		return this.enqueue(document, () => this.compactDocument(document));
+	}
+
+	/**
+	 * Replace the stored updates with a single merged one and materialize the text
+	 */
+	private async compactDocument(document: CrdtDocument): Promise<void> {
+		const { documentId } = document;
+		const compacted = document.uncompacted;
+		if (compacted === 0) {
+			return;
+		}
+
+		const { data: rows, error } = await supabase
+			.from('document_crdt_updates')
+			.select('id, update')
+			.eq('document_id', documentId)
+			.order('id', { ascending: true });
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document updates', error.code, error);
+		}
+
+		// Stored updates may include ones another instance has not relayed to us yet
+		const merged = Y.mergeUpdates([
+			...(rows || []).map(row => decodeUpdate(row.update)),
+			Y.encodeStateAsUpdate(document.doc),
+		]);
+
+		await this.insertUpdate(documentId, merged);
+		if (rows && rows.length > 0) {
+			const { error: deleteError } = await supabase
+				.from('document_crdt_updates')
+				.delete()
+				.eq('document_id', documentId)
+				.lte('id', rows[rows.length - 1]!.id);
+
+			if (deleteError) {
+				throw new SupabaseError('Failed to delete compacted document updates', deleteError.code, deleteError);
+			}
+		}
+
+		const materialized = new Y.Doc();
+		Y.applyUpdate(materialized, merged);
+		const content = materialized.getText(CRDT_TEXT_NAME).toString();
+		materialized.destroy();
+
+		await this.materialize(documentId, content);
+
+		document.uncompacted = Math.max(0, document.uncompacted - compacted);
+		logger.debug('CRDT document compacted', { documentId, updates: rows?.length || 0 });
+	}
+
+	/**
+	 * Write the text to the documents row as a new version
+	 */
+	private async materialize(documentId: string, content: string): Promise<void> {
+		const { data: row, error } = await supabase
+			.from('documents')
+			.select('content, version')
+			.eq('id', documentId)
+			.single();
+
+		if (error || !row) {
+			throw new SupabaseError('Failed to fetch document', error?.code, error);
+		}
+
+		if (row.content === content) {
+			return;
+		}
+
+		const version = row.version + 1;
+		const timestamp = new Date().toISOString();
+		const { data: updated, error: updateError } = await supabase
+			.from('documents')
+			.update({
+				content,
+				version,
+				size_bytes: Buffer.byteLength(content, 'utf8'),
+				line_count: Math.max(1, content.split('\n').length),
+				last_operation_timestamp: timestamp,
+				updated_at: timestamp,
+			})
+			.eq('id', documentId)
+			.eq('version', row.version)
+			.select('id');
+
+		if (updateError) {
+			throw new SupabaseError('Failed to update document', updateError.code, updateError);
+		}
+
+		// Another instance materialized first; whatever it missed is written next time
+		if (!updated || updated.length === 0) {
+			return;
+		}
+
+		// CRDT documents have no operation log, so every version is kept as a snapshot
+		await createSnapshot(documentId, version, content, { source: 'crdt' });
+	}
+
+	private enqueue<T>(document: CrdtDocument, task: () => Promise<T>): Promise<T> {
+		const run = document.queue.then(task);
+		document.queue = run.catch(error =>
+			logger.error('CRDT document persistence failed', error as Error, { documentId: document.documentId })
+		);
+		return run;
+	}
+
+	private relay(channel: string, documentId: string, update: Uint8Array): void {
+		const message: RelayedUpdate = {
+			instanceId: this.pubsub.instanceId,
+			documentId,
+			update: encodeUpdate(update),
+		};
+		this.pubsub.publish(channel, message)
+			.catch(error => logger.error('Failed to relay CRDT update', error as Error, { documentId }));
+	}
+
+	private handleRelayedUpdate(message: RelayedUpdate): void {
+		if (message.instanceId === this.pubsub.instanceId) {
+			return;
+		}
+
+		const update = decodeUpdate(message.update);
+		const document = this.documents.get(message.documentId);
+		if (document) {
+			Y.applyUpdate(document.doc, update, REMOTE_ORIGIN);
+		} else if (this.loading.has(message.documentId)) {
+			const relayed = this.relayedDuringLoad.get(message.documentId) || [];
+			relayed.push(update);
+			this.relayedDuringLoad.set(message.documentId, relayed);
+		}
+	}
+
+	private handleRelayedAwareness(message: RelayedUpdate): void {
+		const document = this.documents.get(message.documentId);
+		if (message.instanceId === this.pubsub.instanceId || !document) {
+			return;
+		}
+		applyAwarenessUpdate(document.awareness, decodeUpdate(message.update), REMOTE_ORIGIN);
+	}
+
+	private unload(document: CrdtDocument): void {
+		if (document.compactTimer) {
+			clearTimeout(document.compactTimer);
+		}
+		document.awareness.destroy();
+		document.doc.destroy();
+		this.documents.delete(document.documentId);
+		logger.debug('Unloaded CRDT document', { documentId: document.documentId });
+	}
+
+	/**
+	 * Periodically compact and drop documents nobody is connected to
+	 */
+	private startIdleCleanup(): void {
+		this.cleanupTimer = setInterval(() => {
+			const cutoff = Date.now() - this.idleTimeout;
+			for (const document of this.documents.values()) {
+				if (document.connections > 0 || document.lastAccess >= cutoff) {
+					continue;
+				}
+
+				this.compact(document)
+					.catch(() => undefined)
+					.then(() => {
+						if (document.connections === 0 && this.documents.get(document.documentId) === document) {
+							this.unload(document);
+						}
+					});
+			}
+		}, this.idleTimeout / 2);
+		this.cleanupTimer.unref();
+	}
+
+	/**
+	 * Cleanup and dispose resources
+	 */
+	dispose(): void {
+		if (this.cleanupTimer) {
+			clearInterval(this.cleanupTimer);
+		}
+		for (const document of this.documents.values()) {
+			this.unload(document);
+		}
+	}
+}
+
+/**
+ * Initial state for existing text. It is written by a fixed client id, so
+ * instances seeding the same text at once produce the same update.
+ */
+function seedUpdate(content: string): Uint8Array {
+	const seed = new Y.Doc();
+	seed.clientID = 0;
+	seed.getText(CRDT_TEXT_NAME).insert(0, content);
+	const update = Y.encodeStateAsUpdate(seed);
+	seed.destroy();
+	return update;
+}
+
+function encodeUpdate(update: Uint8Array): string {
+	return Buffer.from(update).toString('base64');
+}
+
+function decodeUpdate(encoded: string): Uint8Array {
+	return new Uint8Array(Buffer.from(encoded, 'base64'));
+}
+
+// Export singleton instance
+export const crdtDocuments = new CrdtDocumentStore(pubsub);
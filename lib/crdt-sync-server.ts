@@ -0,0 +1,344 @@
+/**
+ * y-websocket compatible sync endpoint
+ *
+ * Documents in CRDT rooms are synced with the y-websocket protocol on the same
+ * HTTP server as the API and Socket.IO, at `/yjs/<documentId>`. A y-websocket
+ * provider connects with
+ * `new WebsocketProvider(`${serverUrl}/yjs`, documentId, doc, { params: { token } })`,
+ * where the token is a Supabase access token or a guest token. Participants
+ * with read-only access receive every change, but their own are dropped.
+ */
+
+import { IncomingMessage, Server, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import * as syncProtocol from 'y-protocols/sync';
+import { applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import { supabase, Participant } from './supabase';
+import { verifyGuestToken } from './guest-tokens';
+import { DocumentAccess, getDocumentAccessById } from './document-permissions';
+import { AwarenessChanges, CrdtDocument, CrdtDocumentStore, crdtDocuments } from './crdt-documents';
+import { isValidUUID, logger } from './utils';
+
+export const CRDT_SYNC_PATH = '/yjs';
+
+// y-websocket message types
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+interface Connection {
+	socket: WebSocket;
+	document: CrdtDocument;
+	participant: Participant;
+	access: DocumentAccess;
+	// Awareness client ids announced over this connection, removed when it closes
+	awarenessClients: Set<number>;
+	alive: boolean;
+}
+
+class UpgradeError extends Error {
+	constructor(
+		message: string,
+		public statusCode: number
+	) {
+		super(message);
+		this.name = 'UpgradeError';
+	}
+}
+
+export class CrdtSyncServer {
+	private readonly wss = new WebSocketServer({ noServer: true });
+	private connections = new Set<Connection>();
+	private readonly pingInterval = 30000;
+	private pingTimer?: NodeJS.Timeout;
+
+	constructor(private readonly store: CrdtDocumentStore) {
+		store.on('update', (document: CrdtDocument, update: Uint8Array, origin: unknown) => {
+			const encoder = encoding.createEncoder();
+			encoding.writeVarUint(encoder, MESSAGE_SYNC);
+			syncProtocol.writeUpdate(encoder, update);
+			this.broadcast(document, encoding.toUint8Array(encoder), origin);
+		});
+
+		store.on('awareness', (document: CrdtDocument, update: Uint8Array, origin: unknown, changes: AwarenessChanges) => {
+			if (this.connections.has(origin as Connection)) {
+				const connection = origin as Connection;
+				changes.added.concat(changes.updated).forEach(clientId => connection.awarenessClients.add(clientId));
+				changes.removed.forEach(clientId => connection.awarenessClients.delete(clientId));
+			}
+			this.broadcast(document, awarenessMessage(update));
+		});
+	}
+
+	/**
+	 * Serve sync connections on an HTTP server, next to whatever else handles upgrades on it
+	 */
+	attach(server: Server): void {
+		server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+			const url = new URL(request.url || '/', 'http://localhost');
+			if (!url.pathname.startsWith(`${CRDT_SYNC_PATH}/`)) {
+				return;
+			}
+
+			this.handleUpgrade(request, socket, head, url).catch(error => {
+				logger.error('CRDT sync upgrade failed', error as Error);
+				socket.destroy();
+			});
+		});
+
+		// Drop connections that stopped answering pings
+		this.pingTimer = setInterval(() => {
+			for (const connection of this.connections) {
+				if (!connection.alive) {
+					connection.socket.terminate();
+					continue;
+				}
+				connection.alive = false;
+				connection.socket.ping();
+			}
+		}, this.pingInterval);
+		this.pingTimer.unref();
+	}
+
+	/**
+	 * Pick up a participant's new role on its open connections
+	 */
+	async updateParticipant(participant: Participant): Promise<void> {
+		for (const connection of this.connections) {
+			if (connection.participant.id !== participant.id) {
+				continue;
+			}
+
+			connection.participant = participant;
+			connection.access = await getDocumentAccessById(participant, connection.document.documentId);
+			if (connection.access === 'none') {
+				connection.socket.close(1008, 'Access revoked');
+			}
+		}
+	}
+
+	/**
+	 * Close the connections of a participant removed from a room
+	 */
+	removeParticipant(roomId: string, participantId: string): void {
+		for (const connection of this.connections) {
+			if (connection.participant.room_id === roomId && connection.participant.id === participantId) {
+				connection.socket.close(1008, 'Removed from room');
+			}
+		}
+	}
+
+	private async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer, url: URL): Promise<void> {
+		const documentId = decodeURIComponent(url.pathname.slice(CRDT_SYNC_PATH.length + 1));
+		const authHeader = request.headers.authorization;
+		const token = url.searchParams.get('token')
+			|| (authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null);
+
+		let participant: Participant;
+		let access: DocumentAccess;
+		let document: CrdtDocument;
+		try {
+			({ participant, access } = await this.authorize(token, documentId));
+			document = await this.store.getDocument(documentId);
+		} catch (error) {
+			const statusCode = error instanceof UpgradeError ? error.statusCode : 500;
+			if (!(error instanceof UpgradeError)) {
+				logger.error('Failed to open CRDT document', error as Error, { documentId });
+			}
+			socket.end(`HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\nConnection: close\r\n\r\n`);
+			return;
+		}
+
+		this.wss.handleUpgrade(request, socket, head, ws => this.setupConnection(ws, document, participant, access));
+	}
+
+	/**
+	 * Resolve the participant behind a token and its access to a document in a CRDT room
+	 */
+	private async authorize(token: string | null, documentId: string): Promise<{ participant: Participant; access: DocumentAccess }> {
+		if (!token) {
+			throw new UpgradeError('Missing authentication token', 401);
+		}
+		if (!isValidUUID(documentId)) {
+			throw new UpgradeError('Document not found', 404);
+		}
+
+		const { data: document, error } = await supabase
+			.from('documents')
+			.select('id, room_id, rooms!inner(editing_mode)')
+			.eq('id', documentId)
+			.maybeSingle();
+
+		if (error) {
+			throw new Error(`Failed to fetch document: ${error.message}`);
+		}
+		if (!document) {
+			throw new UpgradeError('Document not found', 404);
+		}
+		if ((document.rooms as { editing_mode: string }).editing_mode !== 'crdt') {
+			throw new UpgradeError('Document is not in a CRDT room', 409);
+		}
+
+		const query = supabase
+			.from('participants')
+			.select('*')
+			.eq('room_id', document.room_id);
+
+		const guest = verifyGuestToken(token);
+		let participantQuery;
+		if (guest) {
+			if (guest.roomId !== document.room_id) {
+				throw new UpgradeError('Guests can only access the room they joined', 403);
+			}
+			participantQuery = query.eq('id', guest.participantId).is('user_id', null);
+		} else {
+			const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+			if (authError || !user) {
+				throw new UpgradeError('Invalid or expired token', 401);
+			}
+			participantQuery = query.eq('user_id', user.id);
+		}
+
+		const { data: participant } = await participantQuery.maybeSingle();
+		if (!participant) {
+			throw new UpgradeError('Access denied or room not found', 403);
+		}
+
+		// Hidden documents are reported as missing
+		const access = await getDocumentAccessById(participant, documentId);
+		if (access === 'none') {
+			throw new UpgradeError('Document not found', 404);
+		}
+
+		return { participant, access };
+	}
+
+	private setupConnection(socket: WebSocket, document: CrdtDocument, participant: Participant, access: DocumentAccess): void {
+		const connection: Connection = {
+			socket,
+			document,
+			participant,
+			access,
+			awarenessClients: new Set(),
+			alive: true,
+		};
+
+		socket.binaryType = 'arraybuffer';
+		this.connections.add(connection);
+		this.store.retain(document);
+
+		socket.on('message', (data: RawData) => this.handleMessage(connection, toUint8Array(data)));
+		socket.on('pong', () => {
+			connection.alive = true;
+		});
+		socket.on('close', () => this.closeConnection(connection));
+		socket.on('error', error => logger.warn('CRDT sync connection error', { documentId: document.documentId, error: error.message }));
+
+		// Start syncing with the document's state vector and the current awareness states
+		const encoder = encoding.createEncoder();
+		encoding.writeVarUint(encoder, MESSAGE_SYNC);
+		syncProtocol.writeSyncStep1(encoder, document.doc);
+		this.send(connection, encoding.toUint8Array(encoder));
+
+		const states = document.awareness.getStates();
+		if (states.size > 0) {
+			this.send(connection, awarenessMessage(encodeAwarenessUpdate(document.awareness, Array.from(states.keys()))));
+		}
+
+		logger.debug('CRDT sync connection opened', { documentId: document.documentId, participantId: participant.id });
+	}
+
+	private handleMessage(connection: Connection, message: Uint8Array): void {
+		const { doc, awareness } = connection.document;
+
+		try {
+			const decoder = decoding.createDecoder(message);
+			const encoder = encoding.createEncoder();
+
+			switch (decoding.readVarUint(decoder)) {
+				case MESSAGE_SYNC:
+					encoding.writeVarUint(encoder, MESSAGE_SYNC);
+					if (connection.access === 'write') {
+						syncProtocol.readSyncMessage(decoder, encoder, doc, connection);
+					} else if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+						// Read-only participants may fetch the document, but their changes are dropped
+						syncProtocol.readSyncStep1(decoder, encoder, doc);
+					}
+
+					// Only answers to sync step 1 carry more than the message type
+					if (encoding.length(encoder) > 1) {
+						this.send(connection, encoding.toUint8Array(encoder));
+					}
+					break;
+				case MESSAGE_AWARENESS:
+					applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), connection);
+					break;
+			}
+		} catch (error) {
+			logger.warn('Malformed CRDT sync message', { documentId: connection.document.documentId, error: (error as Error).message });
+		}
+	}
+
+	private broadcast(document: CrdtDocument, message: Uint8Array, except?: unknown): void {
+		for (const connection of this.connections) {
+			if (connection.document === document && connection !== except) {
+				this.send(connection, message);
+			}
+		}
+	}
+
+	private send(connection: Connection, message: Uint8Array): void {
+		if (connection.socket.readyState !== WebSocket.OPEN) {
+			return;
+		}
+		connection.socket.send(message, error => {
+			if (error) {
+				connection.socket.terminate();
+			}
+		});
+	}
+
+	private closeConnection(connection: Connection): void {
+		if (!this.connections.delete(connection)) {
+			return;
+		}
+
+		removeAwarenessStates(connection.document.awareness, Array.from(connection.awarenessClients), null);
+		this.store.release(connection.document);
+	}
+
+	/**
+	 * Cleanup and dispose resources
+	 */
+	dispose(): void {
+		if (this.pingTimer) {
+			clearInterval(this.pingTimer);
+		}
+		for (const connection of this.connections) {
+			connection.socket.terminate();
+		}
+		this.wss.close();
+	}
+}
+
+function awarenessMessage(update: Uint8Array): Uint8Array {
+	const encoder = encoding.createEncoder();
+	encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+	encoding.writeVarUint8Array(encoder, update);
+	return encoding.toUint8Array(encoder);
+}
+
+function toUint8Array(data: RawData): Uint8Array {
+	if (data instanceof ArrayBuffer) {
+		return new Uint8Array(data);
+	}
+	if (Array.isArray(data)) {
+		return new Uint8Array(Buffer.concat(data));
+	}
+	return new Uint8Array(data);
+}
+
+// Export singleton instance
+export const crdtSyncServer = new CrdtSyncServer(crdtDocuments);
@@ -5,7 +5,9 @@
 
 import { supabase, supabaseAdmin } from './supabase';
 
-type TableName = 'rooms' | 'participants' | 'documents' | 'operations' | 'cursors' | 'presence';
+type TableName = 'rooms' | 'participants' | 'documents' | 'operations' | 'cursors' | 'presence' |
+	'document_snapshots' | 'document_crdt_updates' | 'document_conflicts' | 'room_invites' | 'join_requests' |
+	'document_permissions' | 'pubsub_attachments';
 
 const REQUIRED_TABLES: TableName[] = [
 	'rooms',
@@ -13,7 +15,14 @@ const REQUIRED_TABLES: TableName[] = [
 	'documents',
 	'operations',
 	'cursors',
-	'presence'
+	'presence',
+	'document_snapshots',
+	'document_crdt_updates',
+	'document_conflicts',
+	'room_invites',
+	'join_requests',
+	'document_permissions',
+	'pubsub_attachments'
 ];
 
 /**
@@ -0,0 +1,338 @@
+/**
+ * Line-level blame for collaborative documents
+ *
+ * Replays the operation log from the oldest snapshot and records, for every
+ * line, the last operation that touched it. Results are cached per document
+ * version and later requests continue the replay from the cached version
+ * instead of starting over.
+ */
+
+import { supabase, Document, SupabaseError } from './supabase';
+import { reconstructDocumentVersion } from './document-snapshots';
+import { operationFromRow } from './operation-log';
+import { TextOperation, applyOperationToText, padTextOperation } from './operational-transform';
+import { diffSequences, splitLines } from './text-diff';
+import { logger } from './utils';
+
+export interface LineAttribution {
+	participantId: string | null; // null for content that predates the operation log
+	version: number;
+	timestamp: string | null;
+}
+
+export interface DocumentBlame {
+	documentId: string;
+	version: number;
+	lines: LineAttribution[];
+	participants: Record<string, { displayName: string | null; color: string | null }>;
+}
+
+interface BlameState extends DocumentBlame {
+	content: string;
+}
+
+const OPERATION_PAGE_SIZE = 1000;
+const MAX_CACHED_DOCUMENTS = 100;
+
+// Blame results keyed by document id, least recently used first
+const blameCache = new Map<string, BlameState>();
+
+/**
+ * Compute blame for the current version of a document.
+ * Returns null when the operation log cannot reproduce the current content.
+ */
+export async function getDocumentBlame(
+	document: Pick<Document, 'id' | 'version' | 'content'>
+): Promise<DocumentBlame | null> {
+	let state = blameCache.get(document.id);
+
+	if (!state || state.version > document.version) {
+		state = await createInitialState(document);
+		if (!state) {
+			return null;
+		}
+	}
+
+	if (state.version < document.version) {
+		const advanced = await advanceState(document, state);
+		if (!advanced) {
+			blameCache.delete(document.id);
+			return null;
+		}
+		state = advanced;
+	}
+
+	if (state.content !== document.content) {
+		logger.warn('Replayed content does not match document, blame unavailable', {
+			documentId: document.id,
+			version: document.version,
+		});
+		blameCache.delete(document.id);
+		return null;
+	}
+
+	cacheState(state);
+
+	return {
+		documentId: state.documentId,
+		version: state.version,
+		lines: state.lines,
+		participants: state.participants,
+	};
+}
+
+/**
+ * Start from the oldest snapshot, attributing its lines to nobody
+ */
+async function createInitialState(document: Pick<Document, 'id' | 'version' | 'content'>): Promise<BlameState | null> {
+	const { data: snapshot, error } = await supabase
+		.from('document_snapshots')
+		.select('version, content, created_at')
+		.eq('document_id', document.id)
+		.order('version', { ascending: true })
+		.limit(1)
+		.maybeSingle();
+
+	if (error) {
+		throw new SupabaseError('Failed to fetch document snapshot', error.code, error);
+	}
+
+	if (!snapshot || snapshot.version > document.version) {
+		return null;
+	}
+
+	const attribution: LineAttribution = {
+		participantId: null,
+		version: snapshot.version,
+		timestamp: snapshot.created_at,
+	};
+
+	return {
+		documentId: document.id,
+		version: snapshot.version,
+		content: snapshot.content,
+		lines: splitLines(snapshot.content).map(() => ({ ...attribution })),
+		participants: {},
+	};
+}
+
+/**
+ * Replay the operations between the cached version and the current one
+ */
+async function advanceState(
+	document: Pick<Document, 'id' | 'version' | 'content'>,
+	cached: BlameState
+): Promise<BlameState | null> {
+	const state: BlameState = {
+		...cached,
+		lines: cached.lines.slice(),
+		participants: { ...cached.participants },
+	};
+
+	for (let from = state.version; from < document.version; from += OPERATION_PAGE_SIZE) {
+		const { data: page, error } = await supabase
+			.from('operations')
+			.select(`
+				base_version,
+				timestamp,
+				participant_id,
+				components,
+				operation_type,
+				position,
+				content,
+				length,
+				participants(
+					id,
+					display_name,
+					color
+				)
+			`)
+			.eq('document_id', document.id)
+			.gte('base_version', from)
+			.lt('base_version', Math.min(from + OPERATION_PAGE_SIZE, document.version))
+			.order('base_version', { ascending: true });
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document operations', error.code, error);
+		}
+
+		for (const row of page || []) {
+			if (row.base_version !== state.version) {
+				// Whole-content replacements are only recorded as snapshots
+				const replaced = await reconstructDocumentVersion(document, row.base_version!);
+				if (!replaced) {
+					return null;
+				}
+				applyReplacement(state, replaced.content, { participantId: null, version: replaced.version, timestamp: null });
+			}
+
+			const attribution: LineAttribution = {
+				participantId: row.participant_id,
+				version: row.base_version! + 1,
+				timestamp: row.timestamp,
+			};
+
+			state.participants[row.participant_id] = {
+				displayName: row.participants?.display_name ?? null,
+				color: row.participants?.color ?? null,
+			};
+
+			applyOperation(state, padTextOperation(operationFromRow(row), state.content.length), attribution);
+		}
+	}
+
+	if (state.version !== document.version) {
+		const replaced = await reconstructDocumentVersion(document, document.version);
+		if (!replaced) {
+			return null;
+		}
+		applyReplacement(state, replaced.content, { participantId: null, version: replaced.version, timestamp: null });
+	}
+
+	return state;
+}
+
+/**
+ * Carry attributions through an operation, attributing every line it touched
+ */
+function applyOperation(state: BlameState, operation: TextOperation[], attribution: LineAttribution): void {
+	const oldContent = state.content;
+	const newContent = applyOperationToText(oldContent, operation);
+
+	// origin[i] is the old index of new character i, or -1 when it was inserted
+	const origin = new Int32Array(newContent.length).fill(-1);
+	const deletionPoints: number[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+
+	for (const op of operation) {
+		if (op.type === 'retain') {
+			const count = Math.min(op.count || 0, oldContent.length - oldIndex);
+			for (let i = 0; i < count; i++) {
+				origin[newIndex++] = oldIndex++;
+			}
+		} else if (op.type === 'insert') {
+			newIndex += op.text?.length || 0;
+		} else if (op.type === 'delete') {
+			const count = Math.min(op.count || 0, oldContent.length - oldIndex);
+			if (count > 0) {
+				// Removing whole lines does not touch the line that follows them
+				const atLineStart = newIndex === 0 || newContent[newIndex - 1] === '\n';
+				const removesWholeLines = oldContent[oldIndex + count - 1] === '\n';
+				if (!(atLineStart && removesWholeLines)) {
+					deletionPoints.push(newIndex);
+				}
+				oldIndex += count;
+			}
+		}
+	}
+
+	// Text after the last component is retained implicitly
+	while (oldIndex < oldContent.length) {
+		origin[newIndex++] = oldIndex++;
+	}
+
+	const oldLineStarts = getLineStarts(oldContent);
+	const lines: LineAttribution[] = [];
+	let lineStart = 0;
+	let deletionIndex = 0;
+
+	while (lineStart < newContent.length) {
+		const newline = newContent.indexOf('\n', lineStart);
+		const lineEnd = newline === -1 ? newContent.length : newline + 1;
+		const isLastLine = lineEnd === newContent.length;
+
+		let touched = false;
+		for (let i = lineStart; i < lineEnd && !touched; i++) {
+			touched = origin[i] === -1;
+		}
+
+		while (deletionIndex < deletionPoints.length && deletionPoints[deletionIndex]! < lineStart) {
+			deletionIndex++;
+		}
+		const deletion = deletionPoints[deletionIndex];
+		if (deletion !== undefined && (deletion < lineEnd || (isLastLine && deletion === lineEnd))) {
+			touched = true;
+		}
+
+		if (touched) {
+			lines.push({ ...attribution });
+		} else {
+			const oldLine = findLine(oldLineStarts, origin[lineStart]!);
+			lines.push(state.lines[oldLine] || { ...attribution });
+		}
+
+		lineStart = lineEnd;
+	}
+
+	state.content = newContent;
+	state.lines = lines;
+	state.version = attribution.version;
+}
+
+/**
+ * Switch to replaced content, keeping attributions of lines that did not change
+ */
+function applyReplacement(state: BlameState, content: string, attribution: LineAttribution): void {
+	const oldLines = splitLines(state.content);
+	const newLines = splitLines(content);
+	const runs = diffSequences(oldLines, newLines)!;
+	const lines: LineAttribution[] = [];
+	let oldLine = 0;
+
+	for (const run of runs) {
+		if (run.type === 'equal') {
+			for (let i = 0; i < run.count; i++) {
+				lines.push(state.lines[oldLine++] || { ...attribution });
+			}
+		} else if (run.type === 'delete') {
+			oldLine += run.count;
+		} else {
+			for (let i = 0; i < run.count; i++) {
+				lines.push({ ...attribution });
+			}
+		}
+	}
+
+	state.content = content;
+	state.lines = lines;
+	state.version = attribution.version;
+}
+
+function getLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') {
+			starts.push(i + 1);
+		}
+	}
+	return starts;
+}
+
+function findLine(lineStarts: number[], index: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+
+	while (low < high) {
+		const mid = (low + high + 1) >> 1;
+		if (lineStarts[mid]! <= index) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	return low;
+}
+
+function cacheState(state: BlameState): void {
+	blameCache.delete(state.documentId);
+	blameCache.set(state.documentId, state);
+
+	if (blameCache.size > MAX_CACHED_DOCUMENTS) {
+		const oldest = blameCache.keys().next().value;
+		if (oldest) {
+			blameCache.delete(oldest);
+		}
+	}
+}
@@ -0,0 +1,71 @@
+import './testing/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { useOTServer, clientOperation, documentId, participantId } from './testing/ot-fixtures';
+import { TextOperationBuilder, createOperationFromDiff } from './operational-transform';
+import { listConflicts, loadConflictSides, recordConflict } from './document-conflicts';
+import { DocumentConflict } from './supabase';
+
+describe('conflict resolution', () => {
+	const fixture = useOTServer();
+
+	/**
+	 * Apply a side of a conflict the way the resolve endpoint does
+	 */
+	async function resolve(conflict: DocumentConflict, side: 'serverContent' | 'clientContent'): Promise<string> {
+		const document = fixture.database.table('documents')[0]!;
+		const sides = await loadConflictSides({ id: document.id, version: document.version, content: document.content }, conflict);
+		assert.ok(sides);
+
+		await fixture.server.submitOperation(clientOperation({
+			clientId: conflict.id,
+			baseRevision: conflict.applied_version,
+			operation: createOperationFromDiff(sides.currentContent, sides[side]!),
+		}));
+		return fixture.database.table('documents')[0]!.content;
+	}
+
+	it('replaces merged text with one side after the document was reloaded', async () => {
+		await fixture.server.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().delete(5).insert('howdy').build(),
+		}));
+		await fixture.server.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().retain(1).delete(4).insert('i').build(),
+		}));
+		await fixture.server.submitOperation(clientOperation({
+			baseRevision: 3,
+			operation: new TextOperationBuilder().retain(6).insert('!').build(),
+		}));
+
+		// The edits since the conflict are only in the operation log now
+		fixture.server.unloadDocument(documentId);
+
+		const [conflict] = await listConflicts(documentId);
+		assert.equal(await resolve(conflict!, 'clientContent'), 'hi!');
+	});
+
+	it('applies a held-back client side against the version the server side produced', async () => {
+		await fixture.server.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().delete(5).insert('howdy').build(),
+		}));
+		const conflict = await recordConflict({
+			documentId,
+			baseVersion: 1,
+			serverOperation: new TextOperationBuilder().delete(5).insert('howdy').build(),
+			serverParticipantId: participantId,
+			clientOperation: new TextOperationBuilder().retain(1).delete(4).insert('i').build(),
+			clientParticipantId: participantId,
+			clientId: randomUUID(),
+		});
+		await fixture.server.submitOperation(clientOperation({
+			baseRevision: 2,
+			operation: new TextOperationBuilder().insert('> ').retain(5).build(),
+		}));
+
+		fixture.server.unloadDocument(documentId);
+
+		assert.equal(conflict.applied_version, 2);
+		assert.equal(await resolve(conflict, 'clientContent'), '> hi');
+	});
+});
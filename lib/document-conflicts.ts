@@ -0,0 +1,255 @@
+/**
+ * Conflict store
+ *
+ * Concurrent edits of the same text are stored here with both sides, as
+ * operations on the document at `base_version`. The OT engine records the
+ * ones it merged, at the version holding the merged text. When a sync is set
+ * to resolve conflicts manually, the sequenced (server) operation stays in the
+ * document and the local (client) operation is held back instead. Either way
+ * a participant can pick a side or supply merged text, which is applied as an
+ * edit of the document at `applied_version`.
+ */
+
+import { supabase, Document, DocumentConflict, Json, SupabaseError } from './supabase';
+import { TextOperation, applyOperationToText, validateTextOperation } from './operational-transform';
+import { textOperationListSchema } from './operation-log';
+import { reconstructDocumentVersion } from './document-snapshots';
+
+export type ConflictStatus = DocumentConflict['status'];
+export type ConflictResolutionChoice = NonNullable<DocumentConflict['resolution']>;
+
+export interface ConflictRecordInput {
+	documentId: string;
+	baseVersion: number;
+	// Version holding the outcome; the one the server side produced unless given
+	appliedVersion?: number;
+	serverOperation: TextOperation[];
+	serverParticipantId: string | null;
+	clientOperation: TextOperation[];
+	clientParticipantId: string | null;
+	clientId: string;
+	metadata?: Record<string, Json>;
+}
+
+export interface ConflictSides {
+	baseContent: string;
+	// The base with only the server side applied
+	serverContent: string;
+	// The base with only the client side applied; null when it does not fit the base
+	clientContent: string | null;
+	// The document at applied_version, which resolutions edit
+	currentContent: string;
+}
+
+export interface ConflictPayload {
+	id: string;
+	documentId: string;
+	baseVersion: number;
+	appliedVersion: number;
+	serverOperation: TextOperation[];
+	serverParticipantId: string | null;
+	clientOperation: TextOperation[];
+	clientParticipantId: string | null;
+	clientId: string;
+	status: ConflictStatus;
+	resolution: DocumentConflict['resolution'];
+	resolvedBy: string | null;
+	resolvedVersion: number | null;
+	resolvedAt: string | null;
+	createdAt: string;
+	sides?: ConflictSides;
+}
+
+/**
+ * Store a conflict with both sides
+ */
+export async function recordConflict(input: ConflictRecordInput): Promise<DocumentConflict> {
+	const { data, error } = await supabase
+		.from('document_conflicts')
+		.insert({
+			document_id: input.documentId,
+			base_version: input.baseVersion,
+			applied_version: input.appliedVersion ?? input.baseVersion + 1,
+			server_operation: input.serverOperation as unknown as Json,
+			server_participant_id: input.serverParticipantId,
+			client_operation: input.clientOperation as unknown as Json,
+			client_participant_id: input.clientParticipantId,
+			client_id: input.clientId,
+			metadata: input.metadata || {},
+		})
+		.select()
+		.single();
+
+	if (error || !data) {
+		throw new SupabaseError('Failed to record conflict', error?.code, error);
+	}
+
+	return data;
+}
+
+/**
+ * Conflicts of a document, oldest first
+ */
+export async function listConflicts(documentId: string, status?: ConflictStatus): Promise<DocumentConflict[]> {
+	let query = supabase
+		.from('document_conflicts')
+		.select('*')
+		.eq('document_id', documentId)
+		.order('created_at', { ascending: true });
+
+	if (status) {
+		query = query.eq('status', status);
+	}
+
+	const { data, error } = await query;
+
+	if (error) {
+		throw new SupabaseError('Failed to fetch conflicts', error.code, error);
+	}
+
+	return data || [];
+}
+
+export async function fetchConflict(documentId: string, conflictId: string): Promise<DocumentConflict | null> {
+	const { data, error } = await supabase
+		.from('document_conflicts')
+		.select('*')
+		.eq('id', conflictId)
+		.eq('document_id', documentId)
+		.maybeSingle();
+
+	if (error) {
+		throw new SupabaseError('Failed to fetch conflict', error.code, error);
+	}
+
+	return data;
+}
+
+/**
+ * Rebuild the text both sides apply to, what each of them makes of it and the
+ * text a resolution starts from. Returns null when the document history no
+ * longer reaches the conflict.
+ */
+export async function loadConflictSides(
+	document: Pick<Document, 'id' | 'version' | 'content'>,
+	conflict: DocumentConflict
+): Promise<ConflictSides | null> {
+	const base = await reconstructDocumentVersion(document, conflict.base_version);
+	if (!base) {
+		return null;
+	}
+
+	const serverOperation = conflictOperation(conflict.server_operation);
+	const clientOperation = conflictOperation(conflict.client_operation);
+
+	if (!serverOperation || !validateTextOperation(serverOperation, base.content.length)) {
+		return null;
+	}
+
+	const serverContent = applyOperationToText(base.content, serverOperation);
+
+	// Held-back conflicts are resolved against the version the server side produced
+	let currentContent = serverContent;
+	if (conflict.applied_version !== conflict.base_version + 1) {
+		const applied = await reconstructDocumentVersion(document, conflict.applied_version);
+		if (!applied) {
+			return null;
+		}
+		currentContent = applied.content;
+	}
+
+	return {
+		baseContent: base.content,
+		serverContent,
+		clientContent: clientOperation && validateTextOperation(clientOperation, base.content.length)
+			? applyOperationToText(base.content, clientOperation)
+			: null,
+		currentContent,
+	};
+}
+
+/**
+ * Mark an open conflict as resolved. Returns null when someone else resolved it first.
+ */
+export async function claimConflict(
+	conflictId: string,
+	resolution: ConflictResolutionChoice,
+	resolvedBy: string
+): Promise<DocumentConflict | null> {
+	const { data, error } = await supabase
+		.from('document_conflicts')
+		.update({
+			status: 'resolved',
+			resolution,
+			resolved_by: resolvedBy,
+			resolved_at: new Date().toISOString(),
+		})
+		.eq('id', conflictId)
+		.eq('status', 'open')
+		.select()
+		.maybeSingle();
+
+	if (error) {
+		throw new SupabaseError('Failed to resolve conflict', error.code, error);
+	}
+
+	return data;
+}
+
+/**
+ * Record the version that applied a claimed resolution
+ */
+export async function completeConflict(conflictId: string, resolvedVersion: number): Promise<DocumentConflict> {
+	const { data, error } = await supabase
+		.from('document_conflicts')
+		.update({ resolved_version: resolvedVersion })
+		.eq('id', conflictId)
+		.select()
+		.single();
+
+	if (error || !data) {
+		throw new SupabaseError('Failed to update conflict', error?.code, error);
+	}
+
+	return data;
+}
+
+/**
+ * Open a claimed conflict again after its resolution could not be applied
+ */
+export async function reopenConflict(conflictId: string): Promise<void> {
+	const { error } = await supabase
+		.from('document_conflicts')
+		.update({ status: 'open', resolution: null, resolved_by: null, resolved_at: null })
+		.eq('id', conflictId);
+
+	if (error) {
+		throw new SupabaseError('Failed to reopen conflict', error.code, error);
+	}
+}
+
+export function toConflictPayload(conflict: DocumentConflict, sides?: ConflictSides | null): ConflictPayload {
+	return {
+		id: conflict.id,
+		documentId: conflict.document_id,
+		baseVersion: conflict.base_version,
+		appliedVersion: conflict.applied_version,
+		serverOperation: conflictOperation(conflict.server_operation) || [],
+		serverParticipantId: conflict.server_participant_id,
+		clientOperation: conflictOperation(conflict.client_operation) || [],
+		clientParticipantId: conflict.client_participant_id,
+		clientId: conflict.client_id,
+		status: conflict.status,
+		resolution: conflict.resolution,
+		resolvedBy: conflict.resolved_by,
+		resolvedVersion: conflict.resolved_version,
+		resolvedAt: conflict.resolved_at,
+		createdAt: conflict.created_at,
+		sides: sides || undefined,
+	};
+}
+
+function conflictOperation(value: Json): TextOperation[] | null {
+	const parsed = textOperationListSchema.safeParse(value);
+	return parsed.success ? parsed.data as TextOperation[] : null;
+}
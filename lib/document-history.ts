@@ -0,0 +1,201 @@
+/**
+ * Document history timeline
+ *
+ * Groups the operation log into edit sessions: maximal runs of consecutive
+ * versions authored by the same participant without a long pause. Each
+ * session carries its time range, inserted/deleted character counts and a
+ * unified diff of the document before and after the session.
+ */
+
+import { supabase, Document, SupabaseError } from './supabase';
+import { reconstructDocumentVersion } from './document-snapshots';
+import { operationFromRow } from './operation-log';
+import { TextOperation, applyOperationToText, padTextOperation } from './operational-transform';
+import { createUnifiedDiff } from './text-diff';
+
+export interface HistoryParticipant {
+	id: string;
+	displayName: string | null;
+	color: string | null;
+}
+
+export interface EditSession {
+	participant: HistoryParticipant;
+	startedAt: string;
+	endedAt: string;
+	fromVersion: number;
+	toVersion: number;
+	operationCount: number;
+	insertedCharacters: number;
+	deletedCharacters: number;
+	diff?: string;
+}
+
+export interface DocumentHistory {
+	documentId: string;
+	fromVersion: number;
+	toVersion: number;
+	sessions: EditSession[];
+}
+
+export interface HistoryOptions {
+	fromVersion: number;
+	toVersion: number;
+	sessionGapMs?: number;
+	includeDiff?: boolean;
+}
+
+interface OpenSession extends EditSession {
+	startContent: string;
+}
+
+const DEFAULT_SESSION_GAP_MS = 5 * 60 * 1000; // 5 minutes
+const OPERATION_PAGE_SIZE = 1000;
+
+/**
+ * Build the edit sessions between two versions of a document.
+ * Returns null when the history needed for that range is not available.
+ */
+export async function buildDocumentHistory(
+	document: Pick<Document, 'id' | 'version' | 'content' | 'file_path'>,
+	options: HistoryOptions
+): Promise<DocumentHistory | null> {
+	const sessionGapMs = options.sessionGapMs ?? DEFAULT_SESSION_GAP_MS;
+	const includeDiff = options.includeDiff ?? true;
+
+	const start = await reconstructDocumentVersion(document, options.fromVersion);
+	if (!start) {
+		return null;
+	}
+
+	const operations = await fetchOperations(document.id, options.fromVersion, options.toVersion);
+	const sessions: EditSession[] = [];
+	let content = start.content;
+	let version = options.fromVersion;
+	let current: OpenSession | null = null;
+
+	const closeSession = () => {
+		if (!current) {
+			return;
+		}
+
+		const { startContent, ...session } = current;
+		if (includeDiff) {
+			session.diff = createUnifiedDiff(startContent, content, {
+				oldLabel: `a/${document.file_path} (version ${session.fromVersion})`,
+				newLabel: `b/${document.file_path} (version ${session.toVersion})`,
+			});
+		}
+		sessions.push(session);
+		current = null;
+	};
+
+	for (const row of operations) {
+		if (row.base_version !== version) {
+			// Whole-content replacements leave gaps in the log but are checkpointed as snapshots
+			closeSession();
+			const resumed = await reconstructDocumentVersion(document, row.base_version!);
+			if (!resumed) {
+				return null;
+			}
+			content = resumed.content;
+			version = row.base_version!;
+		}
+
+		const operation = padTextOperation(operationFromRow(row), content.length);
+		const participant: HistoryParticipant = {
+			id: row.participant_id,
+			displayName: row.participants?.display_name ?? null,
+			color: row.participants?.color ?? null,
+		};
+
+		const continuesSession = current !== null &&
+			current.participant.id === participant.id &&
+			new Date(row.timestamp).getTime() - new Date(current.endedAt).getTime() <= sessionGapMs;
+
+		if (!continuesSession) {
+			closeSession();
+			current = {
+				participant,
+				startedAt: row.timestamp,
+				endedAt: row.timestamp,
+				fromVersion: version,
+				toVersion: version,
+				operationCount: 0,
+				insertedCharacters: 0,
+				deletedCharacters: 0,
+				startContent: content,
+			};
+		}
+
+		const counts = countChanges(operation);
+		content = applyOperationToText(content, operation);
+		version++;
+
+		current!.endedAt = row.timestamp;
+		current!.toVersion = version;
+		current!.operationCount++;
+		current!.insertedCharacters += counts.inserted;
+		current!.deletedCharacters += counts.deleted;
+	}
+
+	closeSession();
+
+	return {
+		documentId: document.id,
+		fromVersion: options.fromVersion,
+		toVersion: version,
+		sessions,
+	};
+}
+
+async function fetchOperations(documentId: string, fromVersion: number, toVersion: number) {
+	const operations = [];
+
+	for (let from = fromVersion; from < toVersion; from += OPERATION_PAGE_SIZE) {
+		const { data: page, error } = await supabase
+			.from('operations')
+			.select(`
+				base_version,
+				timestamp,
+				participant_id,
+				components,
+				operation_type,
+				position,
+				content,
+				length,
+				participants(
+					id,
+					display_name,
+					color
+				)
+			`)
+			.eq('document_id', documentId)
+			.gte('base_version', from)
+			.lt('base_version', Math.min(from + OPERATION_PAGE_SIZE, toVersion))
+			.order('base_version', { ascending: true });
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document operations', error.code, error);
+		}
+
+		operations.push(...(page || []));
+	}
+
+	return operations;
+}
+
+function countChanges(operation: TextOperation[]): { inserted: number; deleted: number } {
+	let inserted = 0;
+	let deleted = 0;
+
+	for (const op of operation) {
+		if (op.type === 'insert') {
+			inserted += op.text?.length || 0;
+		} else if (op.type === 'delete') {
+			deleted += op.count || 0;
+		}
+	}
+
+	return { inserted, deleted };
+}
@@ -0,0 +1,116 @@
+import './testing/env';
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeDatabase } from './testing/fake-supabase';
+import { getRoomPermissionRules, globToRegExp, resolveDocumentAccess } from './document-permissions';
+import { pubsub } from './pubsub';
+import { DocumentPermission } from './supabase';
+
+function rule(overrides: Partial<DocumentPermission>): DocumentPermission {
+	return {
+		id: 'rule',
+		room_id: 'room',
+		created_by: null,
+		document_id: null,
+		path_pattern: null,
+		participant_id: null,
+		role: null,
+		access: 'none',
+		created_at: new Date().toISOString(),
+		metadata: {},
+		...overrides,
+	};
+}
+
+const editor = { id: 'editor', role: 'editor' as const };
+const viewer = { id: 'viewer', role: 'viewer' as const };
+const owner = { id: 'owner', role: 'owner' as const };
+
+function document(filePath: string, id: string | null = null) {
+	return { id, file_path: filePath };
+}
+
+describe('globToRegExp', () => {
+	it('keeps * and ? within one path segment', () => {
+		assert.equal(globToRegExp('src/*.ts').test('src/index.ts'), true);
+		assert.equal(globToRegExp('src/*.ts').test('src/lib/index.ts'), false);
+		assert.equal(globToRegExp('src/?.ts').test('src/a.ts'), true);
+		assert.equal(globToRegExp('src/?.ts').test('src//.ts'), false);
+	});
+
+	it('lets ** match across directories, including none', () => {
+		assert.equal(globToRegExp('secrets/**').test('secrets/a/b/c.env'), true);
+		assert.equal(globToRegExp('**/*.env').test('.env'), true);
+		assert.equal(globToRegExp('**/*.env').test('config/prod.env.bak'), false);
+		assert.equal(globToRegExp('**/*.env').test('prod.env'), true);
+		assert.equal(globToRegExp('**/*.env').test('config/prod/db.env'), true);
+		assert.equal(globToRegExp('src/**/test.ts').test('src/test.ts'), true);
+	});
+
+	it('matches other characters literally', () => {
+		assert.equal(globToRegExp('a.b+(c)').test('a.b+(c)'), true);
+		assert.equal(globToRegExp('a.b').test('axb'), false);
+	});
+});
+
+describe('resolveDocumentAccess', () => {
+	it('normalizes path separators on both sides', () => {
+		const rules = [rule({ path_pattern: './secrets\\**', access: 'none' })];
+		assert.equal(resolveDocumentAccess(editor, document('secrets\\keys\\prod.env'), rules), 'none');
+		assert.equal(resolveDocumentAccess(editor, document('./secrets/prod.env'), rules), 'none');
+		assert.equal(resolveDocumentAccess(editor, document('src/secrets.ts'), rules), 'write');
+	});
+
+	it('prefers participant rules over role rules over rules for everyone', () => {
+		const rules = [
+			rule({ path_pattern: 'docs/**', access: 'none' }),
+			rule({ path_pattern: 'docs/**', role: 'editor', access: 'read' }),
+			rule({ document_id: 'readme', participant_id: 'editor', access: 'write' }),
+		];
+
+		assert.equal(resolveDocumentAccess(editor, document('docs/readme.md', 'readme'), rules), 'write');
+		assert.equal(resolveDocumentAccess(editor, document('docs/guide.md', 'guide'), rules), 'read');
+		assert.equal(resolveDocumentAccess(viewer, document('docs/guide.md', 'guide'), rules), 'none');
+	});
+
+	it('applies the most restrictive of rules for the same subject', () => {
+		const rules = [
+			rule({ path_pattern: '**', role: 'editor', access: 'write' }),
+			rule({ path_pattern: '*.md', role: 'editor', access: 'read' }),
+		];
+		assert.equal(resolveDocumentAccess(editor, document('notes.md'), rules), 'read');
+		assert.equal(resolveDocumentAccess(editor, document('main.ts'), rules), 'write');
+	});
+
+	it('never grants more than the room role', () => {
+		const rules = [rule({ path_pattern: '**', access: 'write' }), rule({ path_pattern: '**', access: 'none' })];
+		assert.equal(resolveDocumentAccess(viewer, document('a.ts'), [rules[0]!]), 'read');
+		assert.equal(resolveDocumentAccess(owner, document('a.ts'), rules), 'write');
+	});
+});
+
+describe('getRoomPermissionRules', () => {
+	let database: FakeDatabase;
+
+	beforeEach(() => {
+		database = new FakeDatabase();
+		database.install();
+	});
+
+	afterEach(() => {
+		database.uninstall();
+	});
+
+	it('reloads cached rules when an instance publishes an invalidation', async () => {
+		database.seed('document_permissions', [rule({ room_id: 'cached', path_pattern: '**' })]);
+		assert.equal((await getRoomPermissionRules('cached')).length, 1);
+
+		// Changed through another instance
+		database.table('document_permissions').length = 0;
+		assert.equal((await getRoomPermissionRules('cached')).length, 1);
+
+		await pubsub.publish('permissions:invalidated', { roomId: 'cached' });
+		await new Promise(resolve => setImmediate(resolve));
+		assert.equal((await getRoomPermissionRules('cached')).length, 0);
+	});
+});
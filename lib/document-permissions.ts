@@ -0,0 +1,196 @@
+/**
+ * Per-document access control
+ *
+ * Rules narrow what a room role allows for individual documents, either by
+ * document id or by a path glob such as `secrets/**`. A rule applies to one
+ * participant, to every participant with a role, or to everyone in the room.
+ * The most specific subject wins (participant, then role, then everyone);
+ * among rules for the same subject the most restrictive one applies. Rules
+ * never grant more than the room role: viewers stay read-only and owners
+ * always have full access.
+ */
+
+import { supabase, Document, DocumentPermission, Participant, SupabaseError } from './supabase';
+import { pubsub } from './pubsub';
+import { logger } from './utils';
+
+export type DocumentAccess = 'none' | 'read' | 'write';
+
+type DocumentTarget = Pick<Document, 'file_path'> & { id: string | null };
+
+const ACCESS_LEVELS: Record<DocumentAccess, number> = { none: 0, read: 1, write: 2 };
+
+// Rules are read on every socket operation, so keep them around briefly
+const RULE_CACHE_TTL_MS = 30 * 1000;
+const ruleCache = new Map<string, { rules: DocumentPermission[]; loadedAt: number }>();
+const documentPathCache = new Map<string, Pick<Document, 'id' | 'room_id' | 'file_path'>>();
+const INVALIDATION_CHANNEL = 'permissions:invalidated';
+
+// Rules may change through any instance
+pubsub.subscribe(INVALIDATION_CHANNEL, ({ roomId }: { roomId: string }) => {
+	ruleCache.delete(roomId);
+});
+
+/**
+ * Convert a path glob to a regular expression.
+ * `**` matches across directories, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]!;
+
+		if (char === '*' && pattern[i + 1] === '*') {
+			// `**/` also matches no directory at all
+			if (pattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve the access a participant has to a document under a room's rules
+ */
+export function resolveDocumentAccess(
+	participant: Pick<Participant, 'id' | 'role'>,
+	document: DocumentTarget,
+	rules: DocumentPermission[]
+): DocumentAccess {
+	if (participant.role === 'owner') {
+		return 'write';
+	}
+
+	const roleAccess: DocumentAccess = participant.role === 'viewer' ? 'read' : 'write';
+	const filePath = normalizePath(document.file_path);
+
+	const matching = rules.filter(rule => {
+		const targetMatches = rule.document_id
+			? rule.document_id === document.id
+			: !!rule.path_pattern && globToRegExp(normalizePath(rule.path_pattern)).test(filePath);
+		return targetMatches && (!rule.role || rule.role === participant.role) &&
+			(!rule.participant_id || rule.participant_id === participant.id);
+	});
+
+	const forParticipant = matching.filter(rule => rule.participant_id);
+	const forRole = matching.filter(rule => rule.role);
+	const applicable = forParticipant.length > 0 ? forParticipant : forRole.length > 0 ? forRole : matching;
+
+	if (applicable.length === 0) {
+		return roleAccess;
+	}
+
+	const ruleAccess = applicable
+		.map(rule => rule.access)
+		.reduce((lowest, access) => ACCESS_LEVELS[access] < ACCESS_LEVELS[lowest] ? access : lowest);
+
+	return ACCESS_LEVELS[ruleAccess] < ACCESS_LEVELS[roleAccess] ? ruleAccess : roleAccess;
+}
+
+/**
+ * Check whether an access level allows at least the required one
+ */
+export function hasDocumentAccess(access: DocumentAccess, required: DocumentAccess): boolean {
+	return ACCESS_LEVELS[access] >= ACCESS_LEVELS[required];
+}
+
+/**
+ * Load the permission rules of a room, using a short-lived cache
+ */
+export async function getRoomPermissionRules(roomId: string): Promise<DocumentPermission[]> {
+	const cached = ruleCache.get(roomId);
+	if (cached && Date.now() - cached.loadedAt < RULE_CACHE_TTL_MS) {
+		return cached.rules;
+	}
+
+	const { data: rules, error } = await supabase
+		.from('document_permissions')
+		.select('*')
+		.eq('room_id', roomId);
+
+	if (error) {
+		throw new SupabaseError('Failed to fetch document permissions', error.code, error);
+	}
+
+	ruleCache.set(roomId, { rules: rules || [], loadedAt: Date.now() });
+	return rules || [];
+}
+
+/**
+ * Drop cached rules after they change, on this instance right away and on
+ * the others once the invalidation reaches them
+ */
+export function invalidateRoomPermissionRules(roomId: string): void {
+	ruleCache.delete(roomId);
+	pubsub.publish(INVALIDATION_CHANNEL, { roomId })
+		.catch(error => logger.error('Failed to publish permission invalidation', error as Error, { roomId }));
+}
+
+/**
+ * Resolve a participant's access to a document of their room
+ */
+export async function getDocumentAccess(
+	participant: Pick<Participant, 'id' | 'role' | 'room_id'>,
+	document: DocumentTarget
+): Promise<DocumentAccess> {
+	if (participant.role === 'owner') {
+		return 'write';
+	}
+
+	const rules = await getRoomPermissionRules(participant.room_id);
+	return resolveDocumentAccess(participant, document, rules);
+}
+
+/**
+ * Resolve a participant's access to a document by id.
+ * Documents of other rooms, and documents that do not exist, resolve to 'none'.
+ */
+export async function getDocumentAccessById(
+	participant: Pick<Participant, 'id' | 'role' | 'room_id'>,
+	documentId: string
+): Promise<DocumentAccess> {
+	let document = documentPathCache.get(documentId);
+
+	if (!document) {
+		const { data, error } = await supabase
+			.from('documents')
+			.select('id, room_id, file_path')
+			.eq('id', documentId)
+			.maybeSingle();
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document', error.code, error);
+		}
+
+		if (!data) {
+			return 'none';
+		}
+
+		// Documents never move between rooms or change path
+		document = data;
+		documentPathCache.set(documentId, document);
+	}
+
+	if (document.room_id !== participant.room_id) {
+		return 'none';
+	}
+
+	return getDocumentAccess(participant, document);
+}
+
+function normalizePath(path: string): string {
+	return path.replace(/\\/g, '/').replace(/^\.?\//, '');
+}
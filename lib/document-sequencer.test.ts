@@ -0,0 +1,128 @@
+import './testing/env';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { useOTServer, clientOperation, documentId } from './testing/ot-fixtures';
+import { DocumentSequencer } from './document-sequencer';
+import { OTServer, OperationError } from './ot-server';
+import { InProcessPubSubAdapter, PubSubAdapter, PubSubHandler } from './pubsub';
+import { TextOperationBuilder } from './operational-transform';
+
+/**
+ * One instance of a cluster whose messages travel over a shared in-process
+ * adapter. A lease belongs to the first instance that asks for it.
+ */
+class ClusterInstance extends EventEmitter implements PubSubAdapter {
+	readonly instanceId = randomUUID();
+	readonly distributed = true;
+
+	constructor(
+		private readonly bus: InProcessPubSubAdapter,
+		private readonly leases: Map<string, string>
+	) {
+		super();
+	}
+
+	async connect(): Promise<void> {}
+
+	publish(channel: string, message: unknown): Promise<void> {
+		return this.bus.publish(channel, message);
+	}
+
+	subscribe(channel: string, handler: PubSubHandler): void {
+		this.bus.subscribe(channel, handler);
+	}
+
+	unsubscribe(channel: string, handler: PubSubHandler): void {
+		this.bus.unsubscribe(channel, handler);
+	}
+
+	async tryAcquireLease(key: string): Promise<boolean> {
+		const holder = this.leases.get(key);
+		if (!holder) {
+			this.leases.set(key, this.instanceId);
+		}
+		return !holder || holder === this.instanceId;
+	}
+
+	async releaseLease(key: string): Promise<void> {
+		if (this.leases.get(key) === this.instanceId) {
+			this.leases.delete(key);
+		}
+	}
+
+	async close(): Promise<void> {}
+}
+
+describe('DocumentSequencer', () => {
+	const fixture = useOTServer();
+	let bus: InProcessPubSubAdapter;
+	let leases: Map<string, string>;
+	let followerOT: OTServer;
+	let leader: DocumentSequencer;
+	let follower: DocumentSequencer;
+
+	beforeEach(() => {
+		process.env.OT_FORWARD_TIMEOUT_MS = '100';
+		bus = new InProcessPubSubAdapter();
+		leases = new Map();
+		followerOT = new OTServer();
+		leader = new DocumentSequencer(new ClusterInstance(bus, leases), fixture.server);
+		follower = new DocumentSequencer(new ClusterInstance(bus, leases), followerOT);
+	});
+
+	afterEach(async () => {
+		delete process.env.OT_FORWARD_TIMEOUT_MS;
+		followerOT.dispose();
+		await bus.close();
+	});
+
+	it('forwards operations to the leading instance', async () => {
+		await leader.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().retain(5).insert(' world').build(),
+		}));
+
+		const submit = mock.method(followerOT, 'submitOperation');
+		const result = await follower.submitOperation(clientOperation({
+			baseRevision: 1,
+			operation: new TextOperationBuilder().insert('oh, ').retain(5).build(),
+		}));
+
+		// Transformed by the leader against the revision the follower had not seen
+		assert.equal(result.revision, 3);
+		assert.equal(submit.mock.callCount(), 0);
+		assert.deepEqual(await follower.getDocumentState(documentId), { content: 'oh, hello world', revision: 3 });
+	});
+
+	it('relays errors from the leading instance', async () => {
+		await leader.getDocumentState(documentId);
+
+		await assert.rejects(
+			follower.submitOperation(clientOperation({ roomId: randomUUID() })),
+			(error: unknown) => error instanceof OperationError && error.code === 'DOCUMENT_NOT_IN_ROOM'
+		);
+	});
+
+	it('takes over a document its leader let go of', async () => {
+		await leader.getDocumentState(documentId);
+		fixture.server.unloadDocument(documentId);
+
+		const submit = mock.method(followerOT, 'submitOperation');
+		await follower.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().retain(5).insert('!').build(),
+		}));
+
+		assert.equal(submit.mock.callCount(), 1);
+		assert.equal(fixture.database.table('documents')[0]!.content, 'hello!');
+	});
+
+	it('reports the document as unavailable when its leader does not answer', async () => {
+		await new ClusterInstance(bus, leases).tryAcquireLease(`document:${documentId}`);
+
+		await assert.rejects(
+			follower.getDocumentState(documentId),
+			(error: unknown) => error instanceof OperationError && error.code === 'DOCUMENT_UNAVAILABLE'
+		);
+	});
+});
@@ -0,0 +1,233 @@
+/**
+ * Per-document operation sequencing across server instances
+ *
+ * The OT engine keeps each document's revision log in memory, so only one
+ * instance may sequence a document at a time. That instance, the document's
+ * leader, holds a lease on it through the pub/sub adapter. Other instances
+ * forward operations to the leader and relay its answer; when nobody leads a
+ * document, the first instance that needs it takes the lease.
+ */
+
+import { randomUUID } from 'crypto';
+import { OTServer, OperationError, ClientOperation, OperationResult, ResumeRequest, ResumeResult, otServer } from './ot-server';
+import { PubSubAdapter, pubsub } from './pubsub';
+import { logger } from './utils';
+
+type SequencerMethod = 'submitOperation' | 'getDocumentState' | 'resume';
+
+interface SequencerRequest {
+	requestId: string;
+	replyTo: string;
+	documentId: string;
+	method: SequencerMethod;
+	args: any[];
+}
+
+interface SequencerResponse {
+	requestId: string;
+	result?: any;
+	error?: { message: string; code: string };
+}
+
+interface PendingRequest {
+	resolve: (result: any) => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+const REQUEST_CHANNEL = 'ot:requests';
+
+export class DocumentSequencer {
+	private readonly forwardTimeout = parseInt(process.env.OT_FORWARD_TIMEOUT_MS || '5000');
+	// Documents this instance leads
+	private leading = new Set<string>();
+	private acquiring = new Map<string, Promise<boolean>>();
+	private pending = new Map<string, PendingRequest>();
+	private readonly responseChannel: string;
+
+	constructor(
+		private readonly pubsub: PubSubAdapter,
+		private readonly ot: OTServer
+	) {
+		this.responseChannel = `ot:responses:${pubsub.instanceId}`;
+
+		pubsub.subscribe(REQUEST_CHANNEL, (request: SequencerRequest) => this.handleRequest(request));
+		pubsub.subscribe(this.responseChannel, (response: SequencerResponse) => this.handleResponse(response));
+
+		// Give up leadership of documents the OT engine no longer holds
+		ot.on('document-unloaded', (documentId: string) => {
+			if (this.leading.delete(documentId)) {
+				this.pubsub.releaseLease(leaseKey(documentId))
+					.catch(error => logger.error('Failed to release document lease', error as Error, { documentId }));
+			}
+		});
+
+		// Another instance may take over, so in-memory state is stale from here on
+		pubsub.on('leases-lost', () => {
+			const documents = Array.from(this.leading);
+			this.leading.clear();
+			for (const documentId of documents) {
+				this.ot.unloadDocument(documentId);
+			}
+			logger.warn('Lost leadership of documents', { count: documents.length });
+		});
+	}
+
+	/**
+	 * Submit an operation to the instance sequencing the document
+	 */
+	async submitOperation(clientOp: ClientOperation): Promise<OperationResult> {
+		return this.route(clientOp.documentId, 'submitOperation', [clientOp]);
+	}
+
+	/**
+	 * Get the current sequenced copy of a document
+	 */
+	async getDocumentState(documentId: string): Promise<{ content: string; revision: number }> {
+		return this.route(documentId, 'getDocumentState', [documentId]);
+	}
+
+	/**
+	 * Replay missed revisions to a reconnecting client and apply its pending operations
+	 */
+	async resume(request: ResumeRequest): Promise<ResumeResult> {
+		return this.route(request.documentId, 'resume', [request]);
+	}
+
+	private async route(documentId: string, method: SequencerMethod, args: any[]): Promise<any> {
+		if (await this.lead(documentId)) {
+			return this.invoke(method, args);
+		}
+
+		try {
+			return await this.forward(documentId, method, args);
+		} catch (error) {
+			if (!(error instanceof OperationError) || error.code !== 'LEADER_TIMEOUT') {
+				throw error;
+			}
+
+			// The leader may have let go in the meantime
+			if (await this.lead(documentId)) {
+				return this.invoke(method, args);
+			}
+			throw new OperationError('Document is temporarily unavailable, retry shortly', 'DOCUMENT_UNAVAILABLE');
+		}
+	}
+
+	private invoke(method: SequencerMethod, args: any[]): Promise<any> {
+		switch (method) {
+			case 'submitOperation':
+				return this.ot.submitOperation(args[0]);
+			case 'getDocumentState':
+				return this.ot.getDocumentState(args[0]);
+			case 'resume':
+				return this.ot.resume(args[0]);
+		}
+	}
+
+	/**
+	 * Make this instance the document's leader, unless another instance already is
+	 */
+	private async lead(documentId: string): Promise<boolean> {
+		if (this.leading.has(documentId)) {
+			return true;
+		}
+
+		let acquiring = this.acquiring.get(documentId);
+		if (!acquiring) {
+			acquiring = this.acquireLease(documentId);
+			this.acquiring.set(documentId, acquiring);
+			acquiring.finally(() => this.acquiring.delete(documentId)).catch(() => undefined);
+		}
+		return acquiring;
+	}
+
+	private async acquireLease(documentId: string): Promise<boolean> {
+		if (!this.pubsub.distributed) {
+			this.leading.add(documentId);
+			return true;
+		}
+
+		// State left over from an earlier leadership may be outdated
+		this.ot.unloadDocument(documentId);
+
+		const acquired = await this.pubsub.tryAcquireLease(leaseKey(documentId));
+		if (acquired) {
+			this.leading.add(documentId);
+			logger.debug('Leading document', { documentId, instanceId: this.pubsub.instanceId });
+		}
+		return acquired;
+	}
+
+	private forward(documentId: string, method: SequencerMethod, args: any[]): Promise<any> {
+		const request: SequencerRequest = {
+			requestId: randomUUID(),
+			replyTo: this.responseChannel,
+			documentId,
+			method,
+			args,
+		};
+
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.pending.delete(request.requestId);
+				reject(new OperationError('Document leader did not respond', 'LEADER_TIMEOUT'));
+			}, this.forwardTimeout);
+
+			this.pending.set(request.requestId, { resolve, reject, timer });
+
+			this.pubsub.publish(REQUEST_CHANNEL, request).catch(error => {
+				clearTimeout(timer);
+				this.pending.delete(request.requestId);
+				reject(error);
+			});
+		});
+	}
+
+	private async handleRequest(request: SequencerRequest): Promise<void> {
+		if (!this.leading.has(request.documentId)) {
+			return;
+		}
+
+		let response: SequencerResponse;
+		try {
+			response = { requestId: request.requestId, result: await this.invoke(request.method, request.args) };
+		} catch (error) {
+			response = {
+				requestId: request.requestId,
+				error: error instanceof OperationError
+					? { message: error.message, code: error.code }
+					: { message: 'Internal server error', code: 'INTERNAL_ERROR' },
+			};
+			if (!(error instanceof OperationError)) {
+				logger.error('Forwarded document request failed', error as Error, { documentId: request.documentId });
+			}
+		}
+
+		this.pubsub.publish(request.replyTo, response)
+			.catch(error => logger.error('Failed to answer forwarded document request', error as Error));
+	}
+
+	private handleResponse(response: SequencerResponse): void {
+		const pending = this.pending.get(response.requestId);
+		if (!pending) {
+			return;
+		}
+
+		clearTimeout(pending.timer);
+		this.pending.delete(response.requestId);
+
+		if (response.error) {
+			pending.reject(new OperationError(response.error.message, response.error.code));
+		} else {
+			pending.resolve(response.result);
+		}
+	}
+}
+
+function leaseKey(documentId: string): string {
+	return `document:${documentId}`;
+}
+
+// Export singleton instance
+export const documentSequencer = new DocumentSequencer(pubsub, otServer);
@@ -0,0 +1,218 @@
+/**
+ * Document snapshots and version reconstruction
+ *
+ * Snapshots are compacted checkpoints of `documents.content` at a given
+ * version. Any older version is rebuilt by replaying the operation log from
+ * the nearest snapshot at or below it, and a periodic job writes new
+ * checkpoints so replays stay short for long-running sessions.
+ */
+
+import { supabase, Document, Json, SupabaseError } from './supabase';
+import { replayOperations } from './operation-log';
+import { logger } from './utils';
+
+export interface ReconstructedVersion {
+	documentId: string;
+	version: number;
+	content: string;
+	snapshotVersion: number;
+	operationsReplayed: number;
+}
+
+// Supabase caps responses at 1000 rows by default
+const OPERATION_PAGE_SIZE = 1000;
+
+/**
+ * Store a snapshot of a document; existing snapshots for the same version are kept
+ */
+export async function createSnapshot(
+	documentId: string,
+	version: number,
+	content: string,
+	metadata: Record<string, Json> = {}
+): Promise<void> {
+	const { error } = await supabase
+		.from('document_snapshots')
+		.upsert({
+			document_id: documentId,
+			version,
+			content,
+			metadata,
+		}, {
+			onConflict: 'document_id,version',
+			ignoreDuplicates: true,
+		});
+
+	if (error) {
+		throw new SupabaseError('Failed to create document snapshot', error.code, error);
+	}
+}
+
+/**
+ * Rebuild the content of a document at a given version.
+ * Returns null when the history needed to reach that version is not available.
+ */
+export async function reconstructDocumentVersion(
+	document: Pick<Document, 'id' | 'version' | 'content'>,
+	version: number
+): Promise<ReconstructedVersion | null> {
+	if (version < 1 || version > document.version) {
+		return null;
+	}
+
+	if (version === document.version) {
+		return {
+			documentId: document.id,
+			version,
+			content: document.content,
+			snapshotVersion: document.version,
+			operationsReplayed: 0,
+		};
+	}
+
+	const { data: snapshot, error: snapshotError } = await supabase
+		.from('document_snapshots')
+		.select('version, content')
+		.eq('document_id', document.id)
+		.lte('version', version)
+		.order('version', { ascending: false })
+		.limit(1)
+		.maybeSingle();
+
+	if (snapshotError) {
+		throw new SupabaseError('Failed to fetch document snapshot', snapshotError.code, snapshotError);
+	}
+
+	if (!snapshot) {
+		return null;
+	}
+
+	const operations = [];
+	for (let from = snapshot.version; from < version; from += OPERATION_PAGE_SIZE) {
+		const { data: page, error } = await supabase
+			.from('operations')
+			.select('base_version, components, operation_type, position, content, length')
+			.eq('document_id', document.id)
+			.gte('base_version', from)
+			.lt('base_version', Math.min(from + OPERATION_PAGE_SIZE, version))
+			.order('base_version', { ascending: true });
+
+		if (error) {
+			throw new SupabaseError('Failed to fetch document operations', error.code, error);
+		}
+
+		operations.push(...(page || []));
+	}
+
+	// Every version between the snapshot and the target needs exactly one operation
+	const contiguous = operations.length === version - snapshot.version &&
+		operations.every((op, index) => op.base_version === snapshot.version + index);
+
+	if (!contiguous) {
+		logger.warn('Operation log has gaps, cannot rebuild version', {
+			documentId: document.id,
+			version,
+			snapshotVersion: snapshot.version,
+		});
+		return null;
+	}
+
+	return {
+		documentId: document.id,
+		version,
+		content: replayOperations(snapshot.content, operations),
+		snapshotVersion: snapshot.version,
+		operationsReplayed: operations.length,
+	};
+}
+
+export class DocumentSnapshotService {
+	private readonly snapshotInterval = parseInt(process.env.SNAPSHOT_INTERVAL_MS || '300000'); // 5 minutes
+	private readonly versionsPerSnapshot = parseInt(process.env.SNAPSHOT_EVERY_VERSIONS || '100');
+	private lastRun: Date;
+	private isRunning = false;
+	private snapshotTimer?: NodeJS.Timeout;
+
+	constructor() {
+		this.lastRun = new Date(Date.now() - this.snapshotInterval);
+		this.startPeriodicSnapshots();
+		logger.info('DocumentSnapshotService initialized');
+	}
+
+	/**
+	 * Write checkpoints for documents that moved far enough past their latest snapshot
+	 */
+	async run(): Promise<number> {
+		if (this.isRunning) {
+			return 0;
+		}
+
+		this.isRunning = true;
+		const startedAt = new Date();
+		let created = 0;
+
+		try {
+			const { data: documents, error } = await supabase
+				.from('documents')
+				.select('id, version, content')
+				.gte('updated_at', this.lastRun.toISOString());
+
+			if (error) {
+				throw new SupabaseError('Failed to fetch updated documents', error.code, error);
+			}
+
+			for (const document of documents || []) {
+				const { data: latest } = await supabase
+					.from('document_snapshots')
+					.select('version')
+					.eq('document_id', document.id)
+					.order('version', { ascending: false })
+					.limit(1)
+					.maybeSingle();
+
+				const latestVersion = latest?.version ?? 0;
+				if (document.version - latestVersion < this.versionsPerSnapshot) {
+					continue;
+				}
+
+				await createSnapshot(document.id, document.version, document.content, { compacted: true });
+				created++;
+			}
+
+			this.lastRun = startedAt;
+			if (created > 0) {
+				logger.info(`Created ${created} document snapshots`);
+			}
+		} catch (error) {
+			logger.error('Periodic snapshot run failed', error as Error);
+		} finally {
+			this.isRunning = false;
+		}
+
+		return created;
+	}
+
+	private startPeriodicSnapshots(): void {
+		this.snapshotTimer = setInterval(() => {
+			this.run();
+		}, this.snapshotInterval);
+		this.snapshotTimer.unref();
+
+		logger.info('Periodic snapshots started', { interval: this.snapshotInterval });
+	}
+
+	/**
+	 * Cleanup and dispose resources
+	 */
+	dispose(): void {
+		if (this.snapshotTimer) {
+			clearInterval(this.snapshotTimer);
+			this.snapshotTimer = undefined;
+		}
+
+		logger.info('DocumentSnapshotService disposed');
+	}
+}
+
+// Export singleton instance
+export const documentSnapshotService = new DocumentSnapshotService();
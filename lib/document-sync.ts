@@ -3,21 +3,26 @@
  */
 
 import { EventEmitter } from 'events';
-import { supabase } from './supabase';
+import { supabase, Document } from './supabase';
 import {
 	TextOperation,
 	transformTextOperations,
-	composeTextOperations,
 	applyOperationToText,
-	createOperationFromDiff
+	createOperationFromDiff,
+	changesOverlap,
+	getBaseLength,
+	padTextOperation
 } from './operational-transform';
+import { toOperationInsert, operationFromRow } from './operation-log';
+import { reconstructDocumentVersion } from './document-snapshots';
+import { recordConflict } from './document-conflicts';
 import { logger, debounce, throttle } from './utils';
 
 export interface DocumentVersion {
 	id: string;
 	version: number;
 	content: string;
-	checksum: string;
+	checksum: string; // contentChecksum() of the content, as sent with server revisions
 	timestamp: string;
 	operations: SyncOperation[];
 }
@@ -27,7 +32,7 @@ export interface SyncOperation {
 	documentId: string;
 	participantId: string;
 	operation: TextOperation[];
-	version: number;
+	version: number; // Document version the operation applies to
 	clientId: string;
 	clientSequence: number;
 	serverSequence: number;
@@ -51,6 +56,7 @@ export interface ConflictResolution {
 	conflictingOperations: SyncOperation[];
 	resolutionStrategy: 'client-wins' | 'server-wins' | 'merge' | 'manual';
 	resolvedOperation?: SyncOperation;
+	rebasedOperations?: SyncOperation[]; // Local operations still to send after resolution
 	timestamp: string;
 }
 
@@ -82,6 +88,7 @@ export class DocumentSyncService extends EventEmitter {
 	private readonly maxBufferSize = 1000;
 	private readonly syncInterval = 5000; // 5 seconds
 	private syncTimer?: NodeJS.Timeout;
+	private conflictStrategy: ConflictResolution['resolutionStrategy'] = 'server-wins';
 
 	constructor() {
 		super();
@@ -126,6 +133,14 @@ export class DocumentSyncService extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Strategy for concurrent edits of the same text. 'manual' stores the
+	 * conflict for the conflicts API and keeps the server version meanwhile.
+	 */
+	setConflictStrategy(strategy: ConflictResolution['resolutionStrategy']): void {
+		this.conflictStrategy = strategy;
+	}
+
 	/**
 	 * Queue an operation for synchronization
 	 */
@@ -230,6 +245,7 @@ export class DocumentSyncService extends EventEmitter {
 			const operations = serverOperations || [];
 			let operationsApplied = 0;
 			let conflictsResolved = 0;
+			const conflictCount = syncState.conflicts.length;
 
 			// Transform and apply server operations
 			if (operations.length > 0) {
@@ -240,22 +256,22 @@ export class DocumentSyncService extends EventEmitter {
 						id: op.id,
 						documentId: op.document_id,
 						participantId: op.participant_id,
-						operation: [{
-							type: op.operation_type as 'insert' | 'delete' | 'retain',
-							count: op.length || undefined,
-							text: op.content || undefined,
-						}],
-						version: op.server_sequence,
+						operation: operationFromRow(op),
+						version: op.base_version ?? op.server_sequence,
 						clientId: op.client_id,
 						clientSequence: op.client_sequence,
 						serverSequence: op.server_sequence,
 						timestamp: op.timestamp,
 						applied: op.applied_at !== null,
 					})),
-					syncState.pendingOperations
+					syncState,
+					serverDocument
 				);
 
 				operationsApplied = transformedOps.length;
+				conflictsResolved = syncState.conflicts
+					.slice(conflictCount)
+					.filter(conflict => conflict.resolutionStrategy !== 'manual').length;
 
 				// Apply operations to local state
 				for (const op of transformedOps) {
@@ -271,23 +287,18 @@ export class DocumentSyncService extends EventEmitter {
 
 				for (const operation of pendingOps) {
 					try {
-						// Convert TextOperation[] back to database format
-						const firstOp = operation.operation[0];
+						// Store every component so the log can be replayed losslessly
 						const { error } = await supabase
 							.from('operations')
-							.insert({
-								document_id: operation.documentId,
-								participant_id: operation.participantId,
-								operation_type: firstOp?.type || 'retain',
-								position: 0, // Will be calculated based on operation
-								content: firstOp?.text || null,
-								length: firstOp?.count || 0,
-								client_id: operation.clientId,
-								client_sequence: operation.clientSequence,
+							.insert(toOperationInsert({
+								documentId: operation.documentId,
+								participantId: operation.participantId,
+								clientId: operation.clientId,
+								clientSequence: operation.clientSequence,
+								baseVersion: operation.version,
+								operation: operation.operation,
 								timestamp: operation.timestamp,
-								vector_clock: {},
-								metadata: {},
-							});
+							}));
 
 						if (error) {
 							logger.error('Failed to send operation to server', error);
@@ -356,100 +367,152 @@ export class DocumentSyncService extends EventEmitter {
 	}
 
 	/**
-	 * Transform operations to resolve conflicts
+	 * Transform server operations past the pending local operations, rebasing
+	 * the local operations in turn. Concurrent edits of the same text are
+	 * resolved with the configured conflict strategy.
 	 */
 	private async transformOperations(
 		serverOperations: SyncOperation[],
-		localOperations: SyncOperation[]
+		syncState: SyncState,
+		serverDocument: Pick<Document, 'id' | 'version' | 'content'>
 	): Promise<SyncOperation[]> {
+		const localOperations = syncState.pendingOperations;
 		const transformedOperations: SyncOperation[] = [];
 
 		for (const serverOp of serverOperations) {
-			let transformedOp = serverOp;
+			let transformed: TextOperation[] | null = serverOp.operation;
+			let overlapping = false;
+			const rebased: SyncOperation[] = [];
 
 			// Transform against all local operations
 			for (const localOp of localOperations) {
 				try {
-					const [transformed] = transformTextOperations(
-						transformedOp.operation,
-						localOp.operation
-					);
-
-					transformedOp = {
-						...transformedOp,
-						operation: transformed,
-					};
-
+					// Logged and queued operations may leave the end of the text implicit
+					const length = Math.max(getBaseLength(transformed), getBaseLength(localOp.operation));
+					const localOperation = padTextOperation(localOp.operation, length);
+					overlapping = overlapping || changesOverlap(transformed, localOperation);
+
+					const [serverPrime, localPrime] = transformTextOperations(padTextOperation(transformed, length), localOperation);
+					transformed = serverPrime;
+					rebased.push({ ...localOp, operation: localPrime, version: serverOp.version + 1 });
 				} catch (error) {
 					logger.warn('Operation transformation failed', error as Error);
-
-					// Create conflict resolution
-					const conflict: ConflictResolution = {
-						id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-						operation: serverOp,
-						conflictingOperations: [localOp],
-						resolutionStrategy: 'server-wins', // Default strategy
-						timestamp: new Date().toISOString(),
-					};
-
-					this.emit('conflict-detected', conflict);
-
-					// Apply resolution strategy
-					const resolved = await this.resolveConflict(conflict);
-					if (resolved.resolvedOperation) {
-						transformedOp = resolved.resolvedOperation;
-					}
+					transformed = null;
+					break;
 				}
 			}
 
-			transformedOperations.push(transformedOp);
+			const merged = transformed ? { ...serverOp, operation: transformed } : null;
+
+			if (merged && !overlapping) {
+				localOperations.splice(0, localOperations.length, ...rebased);
+				transformedOperations.push(merged);
+				continue;
+			}
+
+			const conflict: ConflictResolution = {
+				id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+				operation: serverOp,
+				conflictingOperations: localOperations.slice(),
+				resolutionStrategy: this.conflictStrategy,
+				timestamp: new Date().toISOString(),
+			};
+
+			this.emit('conflict-detected', conflict);
+
+			// Apply resolution strategy
+			const resolved = await this.resolveConflict(conflict, serverDocument, merged && { operation: merged, rebased });
+			syncState.conflicts.push(resolved);
+
+			if (resolved.rebasedOperations) {
+				localOperations.splice(0, localOperations.length, ...resolved.rebasedOperations);
+			}
+			if (resolved.resolvedOperation) {
+				transformedOperations.push(resolved.resolvedOperation);
+			}
 		}
 
 		return transformedOperations;
 	}
 
 	/**
-	 * Resolve a conflict using the specified strategy
+	 * Resolve a conflict using the specified strategy. `resolvedOperation` is
+	 * what to apply to the local text and `rebasedOperations` what stays
+	 * pending for the server.
 	 */
-	private async resolveConflict(conflict: ConflictResolution): Promise<ConflictResolution> {
+	private async resolveConflict(
+		conflict: ConflictResolution,
+		serverDocument: Pick<Document, 'id' | 'version' | 'content'>,
+		merged: { operation: SyncOperation; rebased: SyncOperation[] } | null
+	): Promise<ConflictResolution> {
 		logger.info('Resolving conflict', { conflictId: conflict.id, strategy: conflict.resolutionStrategy });
 
-		switch (conflict.resolutionStrategy) {
-			case 'server-wins':
-				conflict.resolvedOperation = conflict.operation;
-				break;
+		if (conflict.resolutionStrategy === 'merge') {
+			if (merged) {
+				// Keep both edits: the server operation transformed past the local ones
+				conflict.resolvedOperation = merged.operation;
+				conflict.rebasedOperations = merged.rebased;
+				this.emit('conflict-resolved', conflict);
+				return conflict;
+			}
 
-			case 'client-wins':
-				// Keep the original operation
-				conflict.resolvedOperation = conflict.operation;
-				break;
+			logger.warn('Failed to merge operations, falling back to server-wins', { conflictId: conflict.id });
+			conflict.resolutionStrategy = 'server-wins';
+		}
 
-			case 'merge':
-				// Attempt to merge operations
-				try {
-					const conflictingOp = conflict.conflictingOperations[0];
-					if (conflictingOp) {
-						const mergedOperation = this.mergeOperations(
-							conflict.operation,
-							conflictingOp
-						);
-						conflict.resolvedOperation = mergedOperation;
-					}
-				} catch (error) {
-					logger.warn('Failed to merge operations, falling back to server-wins', error as Error);
-					conflict.resolvedOperation = conflict.operation;
-				}
-				break;
+		const sides = await this.loadConflictSides(conflict, serverDocument);
+		if (!sides) {
+			// Without the base text only the original server operation can be applied
+			logger.warn('Conflict base unavailable, applying server operation', { conflictId: conflict.id });
+			conflict.resolvedOperation = merged ? merged.operation : conflict.operation;
+			conflict.rebasedOperations = merged ? merged.rebased : undefined;
+			this.emit('conflict-resolved', conflict);
+			return conflict;
+		}
+
+		const serverOp = conflict.operation;
+		const [firstLocalOp] = conflict.conflictingOperations;
+
+		if (conflict.resolutionStrategy === 'manual') {
+			try {
+				const record = await recordConflict({
+					documentId: serverOp.documentId,
+					baseVersion: serverOp.version,
+					serverOperation: serverOp.operation,
+					serverParticipantId: serverOp.participantId || null,
+					clientOperation: createOperationFromDiff(sides.baseContent, sides.clientContent),
+					clientParticipantId: firstLocalOp.participantId || null,
+					clientId: firstLocalOp.clientId,
+					metadata: { operationIds: conflict.conflictingOperations.map(op => op.id) },
+				});
+
+				// The local edits are held back until the stored conflict is resolved
+				conflict.id = record.id;
+				conflict.resolvedOperation = this.replaceLocalText(conflict, sides.clientContent, sides.serverContent);
+				conflict.rebasedOperations = [];
+				return conflict;
+			} catch (error) {
+				logger.error('Failed to record conflict, falling back to server-wins', error as Error);
+				conflict.resolutionStrategy = 'server-wins';
+			}
+		}
 
-			case 'manual':
-				// Manual resolution required - emit event and wait
-				this.emit('conflict-detected', conflict);
-				// For now, fall back to server-wins
-				conflict.resolvedOperation = conflict.operation;
-				break;
+		if (conflict.resolutionStrategy === 'client-wins') {
+			// Nothing changes locally; replace the server's text with the local text
+			const operation = createOperationFromDiff(sides.serverContent, sides.clientContent);
 
-			default:
-				conflict.resolvedOperation = conflict.operation;
+			conflict.resolvedOperation = undefined;
+			conflict.rebasedOperations = operation.every(op => op.type === 'retain') ? [] : [{
+				...firstLocalOp,
+				id: `resolved_${conflict.id}`,
+				operation,
+				version: serverOp.version + 1,
+				timestamp: new Date().toISOString(),
+			}];
+		} else {
+			// Drop the local edits and take the server's text
+			conflict.resolvedOperation = this.replaceLocalText(conflict, sides.clientContent, sides.serverContent);
+			conflict.rebasedOperations = [];
 		}
 
 		this.emit('conflict-resolved', conflict);
@@ -457,24 +520,44 @@ export class DocumentSyncService extends EventEmitter {
 	}
 
 	/**
-	 * Merge two conflicting operations
+	 * Rebuild the text the conflicting operations apply to, the server's text
+	 * after its operation and the local text after the pending operations
 	 */
-	private mergeOperations(op1: SyncOperation, op2: SyncOperation): SyncOperation {
-		// Simple merge strategy - compose operations
+	private async loadConflictSides(
+		conflict: ConflictResolution,
+		serverDocument: Pick<Document, 'id' | 'version' | 'content'>
+	): Promise<{ baseContent: string; serverContent: string; clientContent: string } | null> {
 		try {
-			const mergedOperation = composeTextOperations(op1.operation, op2.operation);
+			const base = await reconstructDocumentVersion(serverDocument, conflict.operation.version);
+			if (!base) {
+				return null;
+			}
 
 			return {
-				...op1,
-				id: `merged_${op1.id}_${op2.id}`,
-				operation: mergedOperation,
-				timestamp: new Date().toISOString(),
+				baseContent: base.content,
+				serverContent: applyOperationToText(base.content, padTextOperation(conflict.operation.operation, base.content.length)),
+				clientContent: conflict.conflictingOperations.reduce(
+					(content, op) => applyOperationToText(content, padTextOperation(op.operation, content.length)),
+					base.content
+				),
 			};
 		} catch (error) {
-			throw new Error(`Failed to merge operations: ${(error as Error).message}`);
+			logger.warn('Failed to rebuild conflict sides', error as Error);
+			return null;
 		}
 	}
 
+	/**
+	 * An operation that turns the local text into the given text
+	 */
+	private replaceLocalText(conflict: ConflictResolution, localContent: string, content: string): SyncOperation {
+		return {
+			...conflict.operation,
+			id: `resolved_${conflict.id}`,
+			operation: createOperationFromDiff(localContent, content),
+		};
+	}
+
 	/**
 	 * Start periodic synchronization
 	 */
@@ -0,0 +1,58 @@
+/**
+ * Short-lived tokens for anonymous guests
+ *
+ * A guest token names a participant row without a user and the single room it
+ * belongs to. Guests cannot use it for any other room, and removing the
+ * participant row revokes it.
+ */
+
+import jwt from 'jsonwebtoken';
+
+export interface GuestIdentity {
+	participantId: string;
+	roomId: string;
+}
+
+const GUEST_TOKEN_SECRET = process.env.GUEST_TOKEN_SECRET || process.env.JWT_SECRET;
+const GUEST_TOKEN_AUDIENCE = 'room-guest';
+const GUEST_TOKEN_TTL_SECONDS = parseInt(process.env.GUEST_TOKEN_TTL_SECONDS || '14400'); // 4 hours
+
+if (!GUEST_TOKEN_SECRET) {
+	throw new Error('Missing GUEST_TOKEN_SECRET or JWT_SECRET environment variable');
+}
+
+/**
+ * Sign a token for a guest participant
+ */
+export function createGuestToken(participantId: string, roomId: string): { token: string; expiresAt: string } {
+	const token = jwt.sign({ room: roomId }, GUEST_TOKEN_SECRET, {
+		subject: participantId,
+		audience: GUEST_TOKEN_AUDIENCE,
+		expiresIn: GUEST_TOKEN_TTL_SECONDS,
+	});
+
+	return {
+		token,
+		expiresAt: new Date(Date.now() + GUEST_TOKEN_TTL_SECONDS * 1000).toISOString(),
+	};
+}
+
+/**
+ * Verify a guest token. Returns null for anything that is not a valid, unexpired guest token.
+ */
+export function verifyGuestToken(token: string): GuestIdentity | null {
+	try {
+		const decoded = jwt.verify(token, GUEST_TOKEN_SECRET, { audience: GUEST_TOKEN_AUDIENCE }) as jwt.JwtPayload;
+
+		if (!decoded.sub || typeof decoded.room !== 'string') {
+			return null;
+		}
+
+		return { participantId: decoded.sub, roomId: decoded.room };
+	} catch (error) {
+		if (error instanceof jwt.JsonWebTokenError) {
+			return null;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,131 @@
+/**
+ * Conversion between text operations and rows of the `operations` table
+ *
+ * Every row stores the complete operation in `components` together with the
+ * document version it applies to (`base_version`), so replaying the log in
+ * `base_version` order reconstructs the document exactly. The legacy
+ * `operation_type`/`position`/`content`/`length` columns only summarize the
+ * first non-retain component.
+ */
+
+import { z } from 'zod';
+import { Json, Operation, OperationInsert } from './supabase';
+import { TextOperation, applyOperationToText, padTextOperation } from './operational-transform';
+
+const textOperationSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('retain'), count: z.number().int().nonnegative() }),
+	z.object({ type: z.literal('insert'), text: z.string() }),
+	z.object({ type: z.literal('delete'), count: z.number().int().nonnegative() }),
+]);
+
+export const textOperationListSchema = z.array(textOperationSchema);
+
+export interface OperationRecordInput {
+	documentId: string;
+	participantId: string;
+	clientId: string;
+	clientSequence: number;
+	baseVersion: number;
+	operation: TextOperation[];
+	timestamp?: string;
+	metadata?: Record<string, Json>;
+}
+
+/**
+ * Build the insert payload for an operation row
+ */
+export function toOperationInsert(input: OperationRecordInput): OperationInsert {
+	const summary = summarizeOperation(input.operation);
+
+	return {
+		document_id: input.documentId,
+		participant_id: input.participantId,
+		operation_type: summary.type,
+		position: summary.position,
+		content: summary.content,
+		length: summary.length,
+		components: input.operation.map(op => ({ ...op })) as Json,
+		base_version: input.baseVersion,
+		client_id: input.clientId,
+		client_sequence: input.clientSequence,
+		timestamp: input.timestamp,
+		vector_clock: {},
+		metadata: input.metadata || {},
+	};
+}
+
+/**
+ * Read the full operation stored in a row.
+ * Rows written before `components` existed are rebuilt from the legacy columns
+ * and leave the end of the text implicit; see `padTextOperation`.
+ */
+export function operationFromRow(row: Pick<Operation, 'components' | 'operation_type' | 'position' | 'content' | 'length'>): TextOperation[] {
+	if (Array.isArray(row.components) && row.components.length > 0) {
+		const parsed = textOperationListSchema.safeParse(row.components);
+		if (!parsed.success) {
+			throw new Error(`Malformed operation components: ${parsed.error.message}`);
+		}
+		return parsed.data as TextOperation[];
+	}
+
+	const operation: TextOperation[] = [];
+	if (row.position > 0) {
+		operation.push({ type: 'retain', count: row.position });
+	}
+
+	switch (row.operation_type) {
+		case 'insert':
+			if (row.content) {
+				operation.push({ type: 'insert', text: row.content });
+			}
+			break;
+		case 'delete':
+			if (row.length) {
+				operation.push({ type: 'delete', count: row.length });
+			}
+			break;
+		default:
+			// Retains and cursor operations do not change content
+			break;
+	}
+
+	return operation;
+}
+
+/**
+ * Replay logged operations on top of a document's content
+ */
+export function replayOperations(
+	content: string,
+	rows: Pick<Operation, 'components' | 'operation_type' | 'position' | 'content' | 'length'>[]
+): string {
+	return rows.reduce((text, row) => applyOperationToText(text, padTextOperation(operationFromRow(row), text.length)), content);
+}
+
+/**
+ * Summarize an operation as its first non-retain component
+ */
+function summarizeOperation(operation: TextOperation[]): {
+	type: 'insert' | 'delete' | 'retain';
+	position: number;
+	content: string | null;
+	length: number;
+} {
+	let position = 0;
+
+	for (const op of operation) {
+		if (op.type === 'retain') {
+			position += op.count || 0;
+			continue;
+		}
+
+		return {
+			type: op.type,
+			position,
+			content: op.type === 'insert' ? op.text || '' : null,
+			length: op.type === 'insert' ? (op.text || '').length : op.count || 0,
+		};
+	}
+
+	return { type: 'retain', position: 0, content: null, length: position };
+}
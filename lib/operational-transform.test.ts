@@ -0,0 +1,185 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import {
+	TextOperation,
+	TextOperationBuilder,
+	TextOperationError,
+	applyOperationToText,
+	composeTextOperations,
+	createOperationFromDiff,
+	invertTextOperation,
+	padTextOperation,
+	transformTextOperations,
+	validateTextOperation
+} from './operational-transform';
+import { lcsLength } from './testing/lcs';
+
+/**
+ * Operations spanning exactly `length` characters
+ */
+function operationArbitrary(length: number): fc.Arbitrary<TextOperation[]> {
+	const step = fc.tuple(fc.constantFrom('retain', 'delete', 'insert'), fc.nat(6), fc.string({ maxLength: 4 }));
+
+	return fc.array(step, { maxLength: 8 }).map(steps => {
+		const builder = new TextOperationBuilder();
+		let remaining = length;
+
+		for (const [type, count, text] of steps) {
+			if (type === 'insert') {
+				builder.insert(text);
+				continue;
+			}
+			const consumed = Math.min(count, remaining);
+			if (type === 'retain') {
+				builder.retain(consumed);
+			} else {
+				builder.delete(consumed);
+			}
+			remaining -= consumed;
+		}
+
+		return builder.retain(remaining).build();
+	});
+}
+
+// A text and two concurrent operations on it
+const concurrentArbitrary = fc.string({ maxLength: 20 }).chain(text =>
+	fc.tuple(fc.constant(text), operationArbitrary(text.length), operationArbitrary(text.length))
+);
+
+// A text and three operations, each applying to the result of the previous one
+const sequentialArbitrary = fc.string({ maxLength: 20 }).chain(text =>
+	operationArbitrary(text.length).chain(a => {
+		const afterA = applyOperationToText(text, a);
+		return operationArbitrary(afterA.length).chain(b => {
+			const afterB = applyOperationToText(afterA, b);
+			return operationArbitrary(afterB.length).map(c => ({ text, a, b, c }));
+		});
+	})
+);
+
+describe('transformTextOperations', () => {
+	it('converges whichever operation is applied first (TP1)', () => {
+		fc.assert(fc.property(concurrentArbitrary, fc.constantFrom<'left' | 'right'>('left', 'right'), ([text, a, b], priority) => {
+			const [aPrime, bPrime] = transformTextOperations(a, b, priority);
+			assert.equal(
+				applyOperationToText(applyOperationToText(text, a), bPrime),
+				applyOperationToText(applyOperationToText(text, b), aPrime)
+			);
+		}));
+	});
+
+	it('rejects operations on texts of different lengths', () => {
+		const a = new TextOperationBuilder().retain(3).insert('x').build();
+		const b = new TextOperationBuilder().retain(4).build();
+		assert.throws(() => transformTextOperations(a, b), TextOperationError);
+	});
+});
+
+describe('composeTextOperations', () => {
+	it('has the effect of applying both operations in turn', () => {
+		fc.assert(fc.property(sequentialArbitrary, ({ text, a, b }) => {
+			assert.equal(
+				applyOperationToText(text, composeTextOperations(a, b)),
+				applyOperationToText(applyOperationToText(text, a), b)
+			);
+		}));
+	});
+
+	it('is associative', () => {
+		fc.assert(fc.property(sequentialArbitrary, ({ text, a, b, c }) => {
+			assert.equal(
+				applyOperationToText(text, composeTextOperations(composeTextOperations(a, b), c)),
+				applyOperationToText(text, composeTextOperations(a, composeTextOperations(b, c)))
+			);
+		}));
+	});
+
+	it('rejects a second operation that does not span the result of the first', () => {
+		const a = new TextOperationBuilder().retain(2).insert('xy').build();
+		const b = new TextOperationBuilder().retain(2).build();
+		assert.throws(() => composeTextOperations(a, b), TextOperationError);
+	});
+});
+
+describe('invertTextOperation', () => {
+	it('restores the original text', () => {
+		fc.assert(fc.property(concurrentArbitrary, ([text, a]) => {
+			const inverse = invertTextOperation(a, text);
+			assert.equal(applyOperationToText(applyOperationToText(text, a), inverse), text);
+		}));
+	});
+});
+
+describe('validateTextOperation', () => {
+	it('requires the operation to span the whole text', () => {
+		const operation = new TextOperationBuilder().retain(2).insert('x').build();
+		assert.equal(validateTextOperation(operation, 2), true);
+		assert.equal(validateTextOperation(operation, 5), false);
+		assert.equal(validateTextOperation(operation, 1), false);
+		assert.equal(validateTextOperation(operation), true);
+	});
+
+	it('accepts a short operation once padded to the text', () => {
+		const operation = padTextOperation(new TextOperationBuilder().retain(2).insert('x').build(), 5);
+		assert.equal(applyOperationToText('hello', operation), 'hexllo');
+		assert.throws(() => padTextOperation(operation, 4), TextOperationError);
+	});
+});
+
+/**
+ * Characters an operation deletes or inserts
+ */
+function changedCharacters(operation: TextOperation[]): number {
+	return operation.reduce((total, op) => {
+		if (op.type === 'insert') {
+			return total + op.text!.length;
+		}
+		return op.type === 'delete' ? total + op.count! : total;
+	}, 0);
+}
+
+describe('createOperationFromDiff', () => {
+	const textArbitrary = fc.stringOf(fc.constantFrom('a', 'b', 'c', '\n'), { maxLength: 40 });
+
+	it('turns the old text into the new text', () => {
+		fc.assert(fc.property(textArbitrary, textArbitrary, (oldText, newText) => {
+			const operation = createOperationFromDiff(oldText, newText);
+			assert.equal(validateTextOperation(operation, oldText.length), true);
+			assert.equal(applyOperationToText(oldText, operation), newText);
+		}));
+	});
+
+	it('changes no more characters than the longest common subsequence requires', () => {
+		fc.assert(fc.property(textArbitrary, textArbitrary, (oldText, newText) => {
+			const operation = createOperationFromDiff(oldText, newText);
+			assert.equal(changedCharacters(operation), oldText.length + newText.length - 2 * lcsLength(oldText, newText));
+		}));
+	});
+
+	it('diffs large multi-line texts line by line', () => {
+		// Lines from a small alphabet, so texts share a lot of them
+		const lineArbitrary = fc.stringOf(fc.constantFrom('a', 'b', ' '), { minLength: 20, maxLength: 40 });
+		const linesArbitrary = fc.array(lineArbitrary, { minLength: 300, maxLength: 400 });
+		const editArbitrary = fc.tuple(fc.nat(), fc.array(lineArbitrary, { maxLength: 3 }), fc.nat(3));
+
+		fc.assert(fc.property(linesArbitrary, fc.array(editArbitrary, { maxLength: 5 }), (lines, edits) => {
+			const oldText = lines.join('\n') + '\n';
+			const newLines = lines.slice();
+			let budget = 0;
+			for (const [at, inserted, removed] of edits) {
+				const index = at % (newLines.length + 1);
+				const replaced = newLines.splice(index, removed, ...inserted);
+				budget += [...replaced, ...inserted].reduce((total, line) => total + line.length + 1, 0);
+			}
+			// Edits at both ends leave nothing to trim, so the whole text is diffed by lines
+			const newText = 'x\n' + newLines.join('\n') + '\nx\n';
+			budget += 4;
+
+			const operation = createOperationFromDiff(oldText, newText);
+			assert.equal(applyOperationToText(oldText, operation), newText);
+			assert.ok(changedCharacters(operation) <= budget);
+		}), { numRuns: 30 });
+	});
+});
@@ -1,12 +1,20 @@
 /**
  * Operational Transform (OT) implementation for collaborative text editing
  * Based on the classic OT algorithm for handling concurrent operations
+ *
+ * Operations are lists of retain/insert/delete components and are never
+ * modified once built; every function here returns new arrays. An operation
+ * spans exactly the text it is applied to: `getBaseLength` must equal the
+ * text length. Operations that leave the end of the text implicit (legacy log
+ * rows, older clients) are extended with `padTextOperation` where they enter.
  */
 
+import { diffSequences } from './text-diff';
+
 export interface TextOperation {
-	type: 'retain' | 'insert' | 'delete';
-	count?: number;  // for retain and delete
-	text?: string;   // for insert
+	readonly type: 'retain' | 'insert' | 'delete';
+	readonly count?: number;  // for retain and delete
+	readonly text?: string;   // for insert
 }
 
 export interface CursorOperation {
@@ -58,167 +66,206 @@ export class TextOperationBuilder {
 	}
 }
 
+export class TextOperationError extends Error {
+	constructor(message: string, public code: 'INVALID_COMPONENT' | 'LENGTH_MISMATCH') {
+		super(message);
+		this.name = 'TextOperationError';
+	}
+}
+
+/**
+ * Number of characters an operation consumes from the text it is applied to
+ */
+export function getBaseLength(operations: readonly TextOperation[]): number {
+	let length = 0;
+	for (const op of operations) {
+		if (op.type === 'retain' || op.type === 'delete') {
+			length += op.count || 0;
+		}
+	}
+	return length;
+}
+
+/**
+ * Number of characters an operation produces from its base length
+ */
+export function getTargetLength(operations: readonly TextOperation[]): number {
+	let length = 0;
+	for (const op of operations) {
+		if (op.type === 'retain') {
+			length += op.count || 0;
+		} else if (op.type === 'insert') {
+			length += op.text?.length || 0;
+		}
+	}
+	return length;
+}
+
+/**
+ * Check that every component is well formed and, when a text length is given,
+ * that the operation spans exactly that text. Throws a TextOperationError otherwise.
+ */
+export function assertTextOperation(operations: readonly TextOperation[], textLength?: number): void {
+	for (const op of operations) {
+		if (op.type === 'insert') {
+			if (typeof op.text !== 'string') {
+				throw new TextOperationError('Insert component without text', 'INVALID_COMPONENT');
+			}
+		} else if (op.type === 'retain' || op.type === 'delete') {
+			if (!Number.isInteger(op.count) || op.count! < 0) {
+				throw new TextOperationError(`Invalid ${op.type} count: ${op.count}`, 'INVALID_COMPONENT');
+			}
+		} else {
+			throw new TextOperationError(`Unknown component type: ${(op as TextOperation).type}`, 'INVALID_COMPONENT');
+		}
+	}
+
+	if (textLength !== undefined) {
+		const baseLength = getBaseLength(operations);
+		if (baseLength !== textLength) {
+			throw new TextOperationError(
+				`Operation spans ${baseLength} characters but the text has ${textLength}`,
+				'LENGTH_MISMATCH'
+			);
+		}
+	}
+}
+
+/**
+ * Retain the rest of a text the operation leaves implicit, so it spans `textLength` characters
+ */
+export function padTextOperation(operations: readonly TextOperation[], textLength: number): TextOperation[] {
+	assertTextOperation(operations);
+
+	const missing = textLength - getBaseLength(operations);
+	if (missing < 0) {
+		throw new TextOperationError(
+			`Operation spans ${getBaseLength(operations)} characters but the text has ${textLength}`,
+			'LENGTH_MISMATCH'
+		);
+	}
+
+	return missing > 0 ? [...operations, { type: 'retain', count: missing }] : operations.slice();
+}
+
 /**
  * Apply a text operation to a string
  */
-export function applyTextOperation(text: string, operations: TextOperation[]): string {
+export function applyTextOperation(text: string, operations: readonly TextOperation[]): string {
 	return applyOperationToText(text, operations);
 }
 
 /**
  * Apply operation to text (alias for compatibility)
  */
-export function applyOperationToText(text: string, operations: TextOperation[]): string {
+export function applyOperationToText(text: string, operations: readonly TextOperation[]): string {
+	assertTextOperation(operations, text.length);
+
 	let result = '';
 	let index = 0;
 
 	for (const op of operations) {
 		switch (op.type) {
 			case 'retain':
-				if (op.count && index + op.count <= text.length) {
-					result += text.slice(index, index + op.count);
-					index += op.count;
-				}
+				result += text.slice(index, index + op.count!);
+				index += op.count!;
 				break;
 			case 'insert':
-				if (op.text) {
-					result += op.text;
-				}
+				result += op.text;
 				break;
 			case 'delete':
-				if (op.count && index + op.count <= text.length) {
-					index += op.count;
-				}
+				index += op.count!;
 				break;
 		}
 	}
 
-	// Add remaining text
-	if (index < text.length) {
-		result += text.slice(index);
-	}
-
 	return result;
 }
 
 /**
  * Transform two operations against each other
  * This is the core of operational transform
+ *
+ * Both operations must apply to the same text. Returns [op1', op2'] such that
+ * applying op1 then op2' gives the same text as applying op2 then op1'. When
+ * both insert at the same position, `priority` decides whose text comes first.
  */
 export function transformTextOperations(
-	op1: TextOperation[],
-	op2: TextOperation[],
+	op1: readonly TextOperation[],
+	op2: readonly TextOperation[],
 	priority: 'left' | 'right' = 'left'
 ): [TextOperation[], TextOperation[]] {
-	const result1: TextOperation[] = [];
-	const result2: TextOperation[] = [];
+	assertTextOperation(op1);
+	assertTextOperation(op2);
+
+	if (getBaseLength(op1) !== getBaseLength(op2)) {
+		throw new TextOperationError(
+			`Operations span ${getBaseLength(op1)} and ${getBaseLength(op2)} characters`,
+			'LENGTH_MISMATCH'
+		);
+	}
 
-	let i1 = 0, i2 = 0;
-	let offset1 = 0, offset2 = 0;
+	const components1 = new ComponentReader(op1);
+	const components2 = new ComponentReader(op2);
+	const result1 = new TextOperationBuilder();
+	const result2 = new TextOperationBuilder();
 
-	while (i1 < op1.length || i2 < op2.length) {
-		const operation1 = i1 < op1.length ? op1[i1] : null;
-		const operation2 = i2 < op2.length ? op2[i2] : null;
+	while (components1.hasNext() || components2.hasNext()) {
+		const type1 = components1.peekType();
+		const type2 = components2.peekType();
 
-		if (!operation1) {
-			// Only op2 has operations left
-			result2.push(operation2!);
-			i2++;
+		if (type1 === 'insert' && (type2 !== 'insert' || priority === 'left')) {
+			const text = components1.takeAll().text!;
+			result1.insert(text);
+			result2.retain(text.length);
 			continue;
 		}
 
-		if (!operation2) {
-			// Only op1 has operations left
-			result1.push(operation1);
-			i1++;
+		if (type2 === 'insert') {
+			const text = components2.takeAll().text!;
+			result1.retain(text.length);
+			result2.insert(text);
 			continue;
 		}
 
-		if (operation1.type === 'retain' && operation2.type === 'retain') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				result1.push({ type: 'retain', count: count1 });
-				result2.push({ type: 'retain', count: count2 });
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				result1.push({ type: 'retain', count: count1 });
-				result2.push({ type: 'retain', count: count1 });
-				op2[i2] = { type: 'retain', count: count2 - count1 };
-				i1++;
-			} else {
-				result1.push({ type: 'retain', count: count2 });
-				result2.push({ type: 'retain', count: count2 });
-				op1[i1] = { type: 'retain', count: count1 - count2 };
-				i2++;
-			}
-		} else if (operation1.type === 'insert') {
-			result1.push(operation1);
-			result2.push({ type: 'retain', count: operation1.text?.length || 0 });
-			i1++;
-		} else if (operation2.type === 'insert') {
-			if (priority === 'right') {
-				result1.push({ type: 'retain', count: operation2.text?.length || 0 });
-				result2.push(operation2);
-			} else {
-				result1.push({ type: 'retain', count: operation2.text?.length || 0 });
-				result2.push(operation2);
-			}
-			i2++;
-		} else if (operation1.type === 'delete' && operation2.type === 'retain') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				result1.push(operation1);
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				result1.push(operation1);
-				op2[i2] = { type: 'retain', count: count2 - count1 };
-				i1++;
-			} else {
-				result1.push({ type: 'delete', count: count2 });
-				op1[i1] = { type: 'delete', count: count1 - count2 };
-				i2++;
-			}
-		} else if (operation1.type === 'retain' && operation2.type === 'delete') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				result2.push(operation2);
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				result2.push({ type: 'delete', count: count1 });
-				op2[i2] = { type: 'delete', count: count2 - count1 };
-				i1++;
-			} else {
-				result2.push(operation2);
-				op1[i1] = { type: 'retain', count: count1 - count2 };
-				i2++;
-			}
-		} else if (operation1.type === 'delete' && operation2.type === 'delete') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				op2[i2] = { type: 'delete', count: count2 - count1 };
-				i1++;
-			} else {
-				op1[i1] = { type: 'delete', count: count1 - count2 };
-				i2++;
-			}
+		if (!type1 || !type2) {
+			throw new TextOperationError('Operations do not apply to the same text', 'LENGTH_MISMATCH');
+		}
+
+		const count = Math.min(components1.remaining(), components2.remaining());
+		components1.take(count);
+		components2.take(count);
+
+		if (type1 === 'retain' && type2 === 'retain') {
+			result1.retain(count);
+			result2.retain(count);
+		} else if (type1 === 'delete' && type2 === 'retain') {
+			result1.delete(count);
+		} else if (type1 === 'retain' && type2 === 'delete') {
+			result2.delete(count);
 		}
+		// Text deleted by both operations is already gone on both sides
 	}
 
-	return [result1, result2];
+	return [result1.build(), result2.build()];
+}
+
+/**
+ * Whether two operations on the same text change overlapping parts of it:
+ * both delete some of the same characters, or one inserts inside text the
+ * other deletes. Inserts at the same position do not overlap.
+ */
+export function changesOverlap(op1: readonly TextOperation[], op2: readonly TextOperation[]): boolean {
+	const changes1 = collectChanges(op1);
+	const changes2 = collectChanges(op2);
+
+	const deletesOverlap = changes1.deletes.some(([start, end]) =>
+		changes2.deletes.some(([otherStart, otherEnd]) => start < otherEnd && otherStart < end)
+	);
+	const insertsInside = (inserts: number[], deletes: [number, number][]) =>
+		inserts.some(position => deletes.some(([start, end]) => start < position && position < end));
+
+	return deletesOverlap || insertsInside(changes1.inserts, changes2.deletes) || insertsInside(changes2.inserts, changes1.deletes);
 }
 
 /**
@@ -258,83 +305,105 @@ export function transformCursorPosition(
 	return Math.max(0, newCursor);
 }
 
+/**
+ * Invert an operation against the text it was applied to.
+ * Applying the result to the new text restores the original text.
+ */
+export function invertTextOperation(operations: readonly TextOperation[], text: string): TextOperation[] {
+	assertTextOperation(operations, text.length);
+
+	const builder = new TextOperationBuilder();
+	let index = 0;
+
+	for (const op of operations) {
+		switch (op.type) {
+			case 'retain':
+				builder.retain(op.count!);
+				index += op.count!;
+				break;
+			case 'insert':
+				builder.delete(op.text!.length);
+				break;
+			case 'delete':
+				builder.insert(text.slice(index, index + op.count!));
+				index += op.count!;
+				break;
+		}
+	}
+
+	return builder.build();
+}
+
 /**
  * Compose two operations into a single operation
+ * op2 must apply to the result of op1; applying the composition has the same
+ * effect as applying op1 and then op2.
  */
 export function composeTextOperations(
-	op1: TextOperation[],
-	op2: TextOperation[]
+	op1: readonly TextOperation[],
+	op2: readonly TextOperation[]
 ): TextOperation[] {
-	const result: TextOperation[] = [];
-	let i1 = 0, i2 = 0;
+	assertTextOperation(op1);
+	assertTextOperation(op2);
+
+	if (getTargetLength(op1) !== getBaseLength(op2)) {
+		throw new TextOperationError(
+			`First operation produces ${getTargetLength(op1)} characters but the second spans ${getBaseLength(op2)}`,
+			'LENGTH_MISMATCH'
+		);
+	}
 
-	while (i1 < op1.length || i2 < op2.length) {
-		const operation1 = i1 < op1.length ? op1[i1] : null;
-		const operation2 = i2 < op2.length ? op2[i2] : null;
+	const components1 = new ComponentReader(op1);
+	const components2 = new ComponentReader(op2);
+	const result = new TextOperationBuilder();
 
-		if (!operation1) {
-			result.push(operation2!);
-			i2++;
+	while (components1.hasNext() || components2.hasNext()) {
+		const type1 = components1.peekType();
+		const type2 = components2.peekType();
+
+		// Deletions in op1 never reach op2
+		if (type1 === 'delete') {
+			result.delete(components1.takeAll().count!);
 			continue;
 		}
 
-		if (!operation2) {
-			result.push(operation1);
-			i1++;
+		// Insertions in op2 do not consume anything from op1
+		if (type2 === 'insert') {
+			result.insert(components2.takeAll().text!);
 			continue;
 		}
 
-		if (operation1.type === 'retain' && operation2.type === 'retain') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				result.push({ type: 'retain', count: count1 });
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				result.push({ type: 'retain', count: count1 });
-				op2[i2] = { type: 'retain', count: count2 - count1 };
-				i1++;
-			} else {
-				result.push({ type: 'retain', count: count2 });
-				op1[i1] = { type: 'retain', count: count1 - count2 };
-				i2++;
-			}
-		} else if (operation1.type === 'insert') {
-			result.push(operation1);
-			i1++;
-		} else if (operation2.type === 'insert') {
-			result.push(operation2);
-			i2++;
-		} else if (operation1.type === 'retain' && operation2.type === 'delete') {
-			const count1 = operation1.count || 0;
-			const count2 = operation2.count || 0;
-
-			if (count1 === count2) {
-				result.push({ type: 'delete', count: count2 });
-				i1++;
-				i2++;
-			} else if (count1 < count2) {
-				result.push({ type: 'delete', count: count1 });
-				op2[i2] = { type: 'delete', count: count2 - count1 };
-				i1++;
-			} else {
-				result.push({ type: 'delete', count: count2 });
-				op1[i1] = { type: 'retain', count: count1 - count2 };
-				i2++;
-			}
-		} else if (operation1.type === 'delete') {
-			result.push(operation1);
-			i1++;
+		if (!type1 || !type2) {
+			throw new TextOperationError('Second operation does not apply to the result of the first', 'LENGTH_MISMATCH');
 		}
+
+		const count = Math.min(components1.remaining(), components2.remaining());
+		const component1 = components1.take(count);
+		components2.take(count);
+
+		if (type1 === 'retain' && type2 === 'retain') {
+			result.retain(count);
+		} else if (type1 === 'retain' && type2 === 'delete') {
+			result.delete(count);
+		} else if (type1 === 'insert' && type2 === 'retain') {
+			result.insert(component1.text!);
+		}
+		// Text inserted by op1 and deleted by op2 never appears
 	}
 
-	return result;
+	return normalizeTextOperation(result.build());
 }
 
+// Changed regions longer than this (old + new characters) are diffed by lines first
+const CHARACTER_DIFF_LIMIT = 10000;
+
+// Edit distance beyond which a region is replaced wholesale instead of diffed
+const MAX_DIFF_COST = 1000;
+
 /**
- * Create an operation from a text difference
+ * Create an operation from a text difference.
+ * Produces a minimal retain/insert/delete sequence; large edits are diffed line
+ * by line first and only the changed lines are diffed character by character.
  */
 export function createOperationFromDiff(
 	oldText: string,
@@ -342,115 +411,216 @@ export function createOperationFromDiff(
 ): TextOperation[] {
 	const builder = new TextOperationBuilder();
 
-	// Simple diff algorithm - in production, use a more sophisticated one
-	let oldIndex = 0;
-	let newIndex = 0;
+	// Most edits touch a single region, so trim the text both versions share
+	let prefix = 0;
+	while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+		prefix++;
+	}
 
-	while (oldIndex < oldText.length || newIndex < newText.length) {
-		if (oldIndex < oldText.length && newIndex < newText.length) {
-			if (oldText[oldIndex] === newText[newIndex]) {
-				// Characters match, retain
-				let retainCount = 0;
-				while (
-					oldIndex + retainCount < oldText.length &&
-					newIndex + retainCount < newText.length &&
-					oldText[oldIndex + retainCount] === newText[newIndex + retainCount]
-				) {
-					retainCount++;
-				}
-				builder.retain(retainCount);
-				oldIndex += retainCount;
-				newIndex += retainCount;
-			} else {
-				// Characters don't match, need to handle insertion/deletion
-				let insertText = '';
-				let deleteCount = 0;
-
-				// Find the next matching character
-				let nextMatch = -1;
-				for (let i = newIndex; i < newText.length; i++) {
-					if (oldText[oldIndex] === newText[i]) {
-						nextMatch = i;
-						break;
-					}
-				}
+	let suffix = 0;
+	while (
+		suffix < oldText.length - prefix &&
+		suffix < newText.length - prefix &&
+		oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+	) {
+		suffix++;
+	}
 
-				if (nextMatch !== -1) {
-					// Insert characters before the match
-					insertText = newText.slice(newIndex, nextMatch);
-					newIndex = nextMatch;
-				} else {
-					// Delete character from old text
-					deleteCount = 1;
-					oldIndex++;
-				}
+	const oldMiddle = oldText.slice(prefix, oldText.length - suffix);
+	const newMiddle = newText.slice(prefix, newText.length - suffix);
 
-				if (insertText) {
-					builder.insert(insertText);
-				}
-				if (deleteCount > 0) {
-					builder.delete(deleteCount);
-				}
-			}
-		} else if (oldIndex < oldText.length) {
-			// Only old text remains, delete it
-			builder.delete(oldText.length - oldIndex);
-			break;
+	builder.retain(prefix);
+	if (oldMiddle.length + newMiddle.length > CHARACTER_DIFF_LIMIT) {
+		appendLineDiff(builder, oldMiddle, newMiddle);
+	} else {
+		appendCharacterDiff(builder, oldMiddle, newMiddle);
+	}
+	builder.retain(suffix);
+
+	return normalizeTextOperation(builder.build());
+}
+
+function appendLineDiff(builder: TextOperationBuilder, oldText: string, newText: string): void {
+	const oldLines = splitLinesKeepingEnds(oldText);
+	const newLines = splitLinesKeepingEnds(newText);
+	const runs = diffSequences(oldLines, newLines, MAX_DIFF_COST);
+
+	if (!runs) {
+		builder.delete(oldText.length).insert(newText);
+		return;
+	}
+
+	let oldLine = 0;
+	let newLine = 0;
+	let deleted = '';
+	let inserted = '';
+
+	for (const run of runs) {
+		const oldChunk = oldLines.slice(oldLine, oldLine + (run.type === 'insert' ? 0 : run.count)).join('');
+		const newChunk = newLines.slice(newLine, newLine + (run.type === 'delete' ? 0 : run.count)).join('');
+
+		if (run.type === 'equal') {
+			// Refine each changed block character by character
+			appendCharacterDiff(builder, deleted, inserted);
+			deleted = '';
+			inserted = '';
+			builder.retain(oldChunk.length);
+			oldLine += run.count;
+			newLine += run.count;
+		} else if (run.type === 'delete') {
+			deleted += oldChunk;
+			oldLine += run.count;
 		} else {
-			// Only new text remains, insert it
-			builder.insert(newText.slice(newIndex));
-			break;
+			inserted += newChunk;
+			newLine += run.count;
 		}
 	}
 
-	return builder.build();
+	appendCharacterDiff(builder, deleted, inserted);
+}
+
+function appendCharacterDiff(builder: TextOperationBuilder, oldText: string, newText: string): void {
+	const runs = oldText.length + newText.length > CHARACTER_DIFF_LIMIT
+		? null
+		: diffSequences(oldText, newText, MAX_DIFF_COST);
+
+	if (!runs) {
+		builder.delete(oldText.length).insert(newText);
+		return;
+	}
+
+	let newIndex = 0;
+	for (const run of runs) {
+		if (run.type === 'equal') {
+			builder.retain(run.count);
+			newIndex += run.count;
+		} else if (run.type === 'delete') {
+			builder.delete(run.count);
+		} else {
+			builder.insert(newText.slice(newIndex, newIndex + run.count));
+			newIndex += run.count;
+		}
+	}
+}
+
+function splitLinesKeepingEnds(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+$/g) || [];
 }
 
 /**
- * Validate an operation
+ * Validate an operation, and that it spans `textLength` characters when given
  */
 export function validateTextOperation(
-	operations: TextOperation[],
-	textLength: number
+	operations: readonly TextOperation[],
+	textLength?: number
 ): boolean {
-	let index = 0;
+	try {
+		assertTextOperation(operations, textLength);
+		return true;
+	} catch (error) {
+		if (error instanceof TextOperationError) {
+			return false;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Normalize an operation by merging consecutive operations of the same type
+ */
+export function normalizeTextOperation(operations: readonly TextOperation[]): TextOperation[] {
+	const builder = new TextOperationBuilder();
 
 	for (const op of operations) {
 		switch (op.type) {
 			case 'retain':
-				index += op.count || 0;
-				break;
-			case 'delete':
-				index += op.count || 0;
+				builder.retain(op.count || 0);
 				break;
 			case 'insert':
-				// Insert doesn't move the index in the original text
+				builder.insert(op.text || '');
+				break;
+			case 'delete':
+				builder.delete(op.count || 0);
 				break;
 		}
 	}
 
-	return index <= textLength;
+	return builder.build();
 }
 
 /**
- * Normalize an operation by merging consecutive operations of the same type
+ * Deleted ranges and insert positions of an operation, in base text offsets
  */
-export function normalizeTextOperation(operations: TextOperation[]): TextOperation[] {
-	const result: TextOperation[] = [];
+function collectChanges(operations: readonly TextOperation[]): { deletes: [number, number][]; inserts: number[] } {
+	const deletes: [number, number][] = [];
+	const inserts: number[] = [];
+	let index = 0;
 
 	for (const op of operations) {
-		const lastOp = result[result.length - 1];
-
-		if (lastOp && lastOp.type === op.type) {
-			if (op.type === 'retain' || op.type === 'delete') {
-				lastOp.count = (lastOp.count || 0) + (op.count || 0);
-			} else if (op.type === 'insert') {
-				lastOp.text = (lastOp.text || '') + (op.text || '');
-			}
+		if (op.type === 'retain') {
+			index += op.count || 0;
+		} else if (op.type === 'delete') {
+			deletes.push([index, index + (op.count || 0)]);
+			index += op.count || 0;
 		} else {
-			result.push({ ...op });
+			inserts.push(index);
 		}
 	}
 
-	return result;
+	return { deletes, inserts };
+}
+
+/**
+ * Reads an operation component by component, splitting components when only
+ * part of one is needed
+ */
+class ComponentReader {
+	private index = 0;
+	private offset = 0;
+
+	constructor(private readonly operations: readonly TextOperation[]) {
+		this.skipEmpty();
+	}
+
+	hasNext(): boolean {
+		return this.index < this.operations.length;
+	}
+
+	peekType(): TextOperation['type'] | null {
+		return this.hasNext() ? this.operations[this.index]!.type : null;
+	}
+
+	remaining(): number {
+		return componentLength(this.operations[this.index]!) - this.offset;
+	}
+
+	takeAll(): TextOperation {
+		return this.take(this.remaining());
+	}
+
+	take(length: number): TextOperation {
+		const op = this.operations[this.index]!;
+		const piece: TextOperation = op.type === 'insert'
+			? { type: 'insert', text: op.text!.slice(this.offset, this.offset + length) }
+			: { type: op.type, count: length };
+
+		this.offset += length;
+		if (this.offset >= componentLength(op)) {
+			this.index++;
+			this.offset = 0;
+			this.skipEmpty();
+		}
+
+		return piece;
+	}
+
+	private skipEmpty(): void {
+		while (this.hasNext() && componentLength(this.operations[this.index]!) === 0) {
+			this.index++;
+		}
+	}
+}
+
+function componentLength(op: TextOperation): number {
+	return op.type === 'insert' ? op.text!.length : op.count!;
 }
@@ -0,0 +1,73 @@
+import './testing/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { useOTServer, clientOperation, documentId, roomId } from './testing/ot-fixtures';
+import { TextOperationBuilder } from './operational-transform';
+
+describe('OTServer', () => {
+	const fixture = useOTServer();
+
+	it('transforms against logged revisions after the document was reloaded', async () => {
+		await fixture.server.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().retain(5).insert(' world').build(),
+		}));
+
+		// A restart, or another instance taking over, starts without the in-memory log
+		fixture.server.unloadDocument(documentId);
+
+		const result = await fixture.server.submitOperation(clientOperation({
+			baseRevision: 1,
+			operation: new TextOperationBuilder().insert('oh, ').retain(5).build(),
+		}));
+
+		assert.equal(result.revision, 3);
+		assert.deepEqual(await fixture.server.getDocumentState(documentId), { content: 'oh, hello world', revision: 3 });
+		assert.equal(fixture.database.table('documents')[0]!.content, 'oh, hello world');
+		assert.equal(fixture.database.table('document_conflicts').length, 0);
+	});
+
+	it('records a conflict when concurrent operations change the same text', async () => {
+		const recorded: [string, any][] = [];
+		fixture.server.on('conflict-recorded', (room: string, conflict) => recorded.push([room, conflict]));
+
+		const serverSide = new TextOperationBuilder().delete(5).insert('howdy').build();
+		const clientSide = new TextOperationBuilder().retain(1).delete(4).insert('i').build();
+		await fixture.server.submitOperation(clientOperation({ operation: serverSide }));
+		const result = await fixture.server.submitOperation(clientOperation({ operation: clientSide }));
+
+		// Both edits are still merged
+		assert.equal(result.revision, 3);
+		assert.equal(fixture.database.table('documents')[0]!.content, 'howdyi');
+
+		const [conflict] = fixture.database.table('document_conflicts');
+		assert.equal(conflict!.base_version, 1);
+		assert.equal(conflict!.applied_version, 3);
+		assert.deepEqual(conflict!.server_operation, serverSide);
+		assert.deepEqual(conflict!.client_operation, clientSide);
+		assert.deepEqual(recorded.map(([room, recordedConflict]) => [room, recordedConflict.id]), [[roomId, conflict!.id]]);
+	});
+
+	it('recognizes a resent operation that is only in the operation log', async () => {
+		const operation = clientOperation({
+			operation: new TextOperationBuilder().retain(5).insert('!').build(),
+		});
+		const first = await fixture.server.submitOperation(operation);
+
+		fixture.server.unloadDocument(documentId);
+		const resent = await fixture.server.submitOperation(operation);
+
+		assert.equal(resent.duplicate, true);
+		assert.equal(resent.revision, first.revision);
+		assert.equal(fixture.database.table('documents')[0]!.content, 'hello!');
+		assert.equal(fixture.database.table('operations').length, 1);
+	});
+
+	it('extends operations that leave the end of the text implicit', async () => {
+		const result = await fixture.server.submitOperation(clientOperation({
+			operation: new TextOperationBuilder().insert('> ').build(),
+		}));
+
+		assert.deepEqual(result.operation, [{ type: 'insert', text: '> ' }, { type: 'retain', count: 5 }]);
+		assert.equal(fixture.database.table('documents')[0]!.content, '> hello');
+	});
+});
@@ -0,0 +1,729 @@
+/**
+ * Authoritative server-side operational transform engine
+ *
+ * Every document being edited over Socket.IO gets an in-memory revision log.
+ * Incoming client operations are transformed against every revision the
+ * client has not seen yet (read back from the operation log when they are
+ * older than the in-memory log), applied to the server copy, persisted and then
+ * assigned the next revision number (which mirrors `documents.version`).
+ * Persisting goes through the `apply_operation` database function, which
+ * only applies an operation on top of the version it was transformed to; when
+ * another writer got there first, the engine catches up from the operation
+ * log, transforms again and retries. Every revision carries a checksum of
+ * the content it produced, so clients can tell when their copy drifted.
+ * Operations that change the same text as revisions their client had not
+ * seen are still merged, and recorded in the conflict store for review.
+ */
+
+import { EventEmitter } from 'events';
+import { supabase, Json } from './supabase';
+import {
+	TextOperation,
+	transformTextOperations,
+	composeTextOperations,
+	changesOverlap,
+	applyOperationToText,
+	validateTextOperation,
+	normalizeTextOperation,
+	padTextOperation,
+	getBaseLength,
+	getTargetLength
+} from './operational-transform';
+import { operationFromRow } from './operation-log';
+import { recordConflict } from './document-conflicts';
+import { contentChecksum, logger } from './utils';
+
+export interface ClientOperation {
+	documentId: string;
+	roomId: string;
+	participantId: string;
+	clientId: string;
+	clientSequence: number;
+	baseRevision: number;
+	operation: TextOperation[];
+}
+
+export interface RevisionEntry {
+	revision: number;
+	operation: TextOperation[];
+	participantId: string;
+	clientId: string;
+	clientSequence: number;
+	serverSequence: number | null;
+	timestamp: string;
+	// Checksum of the content after this revision; missing for revisions read back from the operation log
+	checksum?: string;
+}
+
+export interface OperationResult {
+	documentId: string;
+	revision: number;
+	operation: TextOperation[];
+	entry: RevisionEntry;
+	duplicate: boolean;
+	// Revisions written by other writers that the operation was transformed past
+	missed: RevisionEntry[];
+}
+
+export interface PendingOperation {
+	clientSequence: number;
+	operation: TextOperation[];
+}
+
+export interface ResumeRequest {
+	documentId: string;
+	roomId: string;
+	participantId: string;
+	clientId: string;
+	// Last server revision the client has applied
+	revision: number;
+	// Unacknowledged client operations, each applying after the previous one
+	pending: PendingOperation[];
+}
+
+export interface ResumeAcknowledgement {
+	clientSequence: number;
+	revision: number;
+}
+
+export type ResumeResult =
+	| {
+		mode: 'replay';
+		revision: number;
+		// Checksum of the content at `revision`
+		checksum: string;
+		// Missed revisions, transformed to apply on top of the client's pending operations
+		operations: RevisionEntry[];
+		acknowledged: ResumeAcknowledgement[];
+		// Pending operations applied during the resume
+		applied: OperationResult[];
+	}
+	| {
+		// The missed revisions are no longer available; pending operations were dropped
+		mode: 'snapshot';
+		revision: number;
+		content: string;
+	};
+
+interface DocumentRevisionState {
+	documentId: string;
+	roomId: string;
+	content: string;
+	revision: number;
+	log: RevisionEntry[];
+	queue: Promise<unknown>;
+	lastAccess: number;
+}
+
+export class OperationError extends Error {
+	constructor(
+		message: string,
+		public code: string
+	) {
+		super(message);
+		this.name = 'OperationError';
+	}
+}
+
+export class OTServer extends EventEmitter {
+	private documents = new Map<string, DocumentRevisionState>();
+	private loading = new Map<string, Promise<DocumentRevisionState>>();
+	private readonly maxLogSize = 1000;
+	private readonly maxResumeOperations = parseInt(process.env.OT_RESUME_MAX_OPERATIONS || '500');
+	private readonly maxPersistAttempts = 3;
+	private readonly idleTimeout = 30 * 60 * 1000; // 30 minutes
+	private cleanupTimer?: NodeJS.Timeout;
+
+	constructor() {
+		super();
+		this.startIdleCleanup();
+		logger.info('OTServer initialized');
+	}
+
+	/**
+	 * Transform, apply and persist an operation submitted by a client.
+	 * Operations for the same document are processed strictly in order.
+	 */
+	async submitOperation(clientOp: ClientOperation): Promise<OperationResult> {
+		const state = await this.getState(clientOp.documentId);
+
+		if (state.roomId !== clientOp.roomId) {
+			throw new OperationError('Document does not belong to this room', 'DOCUMENT_NOT_IN_ROOM');
+		}
+
+		const result = state.queue.then(() => this.processOperation(state, clientOp));
+		// Keep the queue alive even when an operation is rejected
+		state.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Bring a reconnecting client up to date: return the revisions it missed,
+	 * transformed past its unacknowledged operations, then apply those.
+	 * Runs in the document's queue so no other operation interleaves.
+	 */
+	async resume(request: ResumeRequest): Promise<ResumeResult> {
+		const state = await this.getState(request.documentId);
+
+		if (state.roomId !== request.roomId) {
+			throw new OperationError('Document does not belong to this room', 'DOCUMENT_NOT_IN_ROOM');
+		}
+
+		const result = state.queue.then(() => this.processResume(state, request));
+		state.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Get the current server copy of a document
+	 */
+	async getDocumentState(documentId: string): Promise<{ content: string; revision: number }> {
+		const state = await this.getState(documentId);
+		// Wait for in-flight operations so the snapshot is consistent
+		await state.queue;
+		return { content: state.content, revision: state.revision };
+	}
+
+	/**
+	 * Get the revisions a client has not seen yet, or null when they are no longer in memory
+	 */
+	getRevisionsSince(documentId: string, revision: number): RevisionEntry[] | null {
+		const state = this.documents.get(documentId);
+		if (!state) {
+			return null;
+		}
+
+		const oldestAvailable = state.revision - state.log.length;
+		if (revision < oldestAvailable || revision > state.revision) {
+			return null;
+		}
+
+		return state.log.slice(revision - oldestAvailable);
+	}
+
+	/**
+	 * Drop the in-memory state for a document so it is reloaded on next use
+	 */
+	unloadDocument(documentId: string): void {
+		if (this.documents.delete(documentId)) {
+			this.emit('document-unloaded', documentId);
+		}
+	}
+
+	private async processOperation(state: DocumentRevisionState, clientOp: ClientOperation): Promise<OperationResult> {
+		state.lastAccess = Date.now();
+
+		// Resent operations (e.g. after a reconnect) are acknowledged again but not reapplied.
+		// An operation made against a revision older than the in-memory log may only be in the operation log.
+		const oldestAvailable = state.revision - state.log.length;
+		const existing = state.log.find(entry =>
+			entry.clientId === clientOp.clientId && entry.clientSequence === clientOp.clientSequence
+		) || (clientOp.baseRevision < oldestAvailable
+			? await this.fetchLoggedOperation(state.documentId, clientOp.clientId, clientOp.clientSequence)
+			: null);
+		if (existing) {
+			return {
+				documentId: state.documentId,
+				revision: existing.revision,
+				operation: existing.operation,
+				entry: existing,
+				duplicate: true,
+				missed: [],
+			};
+		}
+
+		// A client ahead of us has seen a version written outside the OT engine
+		if (clientOp.baseRevision > state.revision) {
+			this.unloadDocument(state.documentId);
+			throw new OperationError('Document was modified concurrently, resync required', 'DOCUMENT_CHANGED');
+		}
+
+		const concurrent = await this.loadRevisionsSince(state, clientOp.baseRevision);
+		if (concurrent === null) {
+			throw new OperationError(
+				`Base revision ${clientOp.baseRevision} is not available (server is at ${state.revision})`,
+				'REVISION_UNAVAILABLE'
+			);
+		}
+
+		// Transform against everything the client had not seen. The logged
+		// operation is passed first so it wins insert ties, matching what
+		// clients do when they transform incoming operations against pending ones.
+		if (!validateTextOperation(clientOp.operation)) {
+			throw new OperationError('Operation is malformed', 'INVALID_OPERATION');
+		}
+
+		const baseLength = concurrent.reduce((length, entry) => length - lengthChange(entry.operation), state.content.length);
+		const submitted = fitOperation(clientOp.operation, baseLength);
+		let operation = submitted;
+		for (const entry of concurrent) {
+			const [, transformed] = transformTextOperations(entry.operation, operation);
+			operation = transformed;
+		}
+
+		const missed: RevisionEntry[] = [];
+		const timestamp = new Date().toISOString();
+
+		for (let attempt = 1; ; attempt++) {
+			operation = normalizeTextOperation(operation);
+
+			if (!validateTextOperation(operation, state.content.length)) {
+				throw new OperationError('Operation does not fit the document', 'INVALID_OPERATION');
+			}
+
+			const persisted = await this.persist(state, clientOp, operation, timestamp);
+			if (persisted.applied) {
+				state.content = applyOperationToText(state.content, operation);
+				const entry: RevisionEntry = {
+					revision: state.revision + 1,
+					operation,
+					participantId: clientOp.participantId,
+					clientId: clientOp.clientId,
+					clientSequence: clientOp.clientSequence,
+					serverSequence: persisted.serverSequence,
+					timestamp,
+					checksum: contentChecksum(state.content),
+				};
+				this.appendRevision(state, entry);
+
+				this.emit('operation-applied', state.documentId, entry);
+				logger.debug('Operation applied', { documentId: state.documentId, revision: entry.revision });
+
+				if (concurrent.length > 0 || missed.length > 0) {
+					await this.recordConflict(clientOp, submitted, [...concurrent, ...missed], entry);
+				}
+
+				return {
+					documentId: state.documentId,
+					revision: entry.revision,
+					operation,
+					entry,
+					duplicate: false,
+					missed,
+				};
+			}
+
+			// Someone else wrote to the document, pick up their operations and try again
+			const caughtUp = attempt < this.maxPersistAttempts && persisted.version > state.revision
+				? await this.catchUp(state, persisted.version)
+				: null;
+			if (caughtUp === null) {
+				this.unloadDocument(state.documentId);
+				throw new OperationError('Document was modified concurrently, resync required', 'DOCUMENT_CHANGED');
+			}
+
+			for (const entry of caughtUp) {
+				const [, transformed] = transformTextOperations(entry.operation, operation);
+				operation = transformed;
+			}
+			missed.push(...caughtUp);
+		}
+	}
+
+	/**
+	 * Record a merged operation that changed the same text as the revisions
+	 * it was transformed past. Failing to record does not fail the operation.
+	 */
+	private async recordConflict(
+		clientOp: ClientOperation,
+		operation: TextOperation[],
+		concurrent: RevisionEntry[],
+		entry: RevisionEntry
+	): Promise<void> {
+		try {
+			const serverOperation = concurrent
+				.map(revision => revision.operation)
+				.reduce((composed, next) => composeTextOperations(composed, next));
+			if (!changesOverlap(serverOperation, operation)) {
+				return;
+			}
+
+			const conflict = await recordConflict({
+				documentId: clientOp.documentId,
+				baseVersion: clientOp.baseRevision,
+				appliedVersion: entry.revision,
+				serverOperation,
+				serverParticipantId: concurrent[concurrent.length - 1].participantId,
+				clientOperation: operation,
+				clientParticipantId: clientOp.participantId,
+				clientId: clientOp.clientId,
+				metadata: { clientSequence: clientOp.clientSequence },
+			});
+
+			this.emit('conflict-recorded', clientOp.roomId, conflict);
+		} catch (error) {
+			logger.error('Failed to record conflict', error as Error, { documentId: clientOp.documentId, revision: entry.revision });
+		}
+	}
+
+	private async processResume(state: DocumentRevisionState, request: ResumeRequest): Promise<ResumeResult> {
+		if (request.revision > state.revision) {
+			this.unloadDocument(state.documentId);
+			throw new OperationError('Document was modified concurrently, resync required', 'DOCUMENT_CHANGED');
+		}
+
+		const missed = await this.loadRevisionsSince(state, request.revision);
+		if (missed === null) {
+			return { mode: 'snapshot', revision: state.revision, content: state.content };
+		}
+
+		const pending = request.pending.map(item => ({ ...item }));
+		if (pending.some(item => !validateTextOperation(item.operation))) {
+			throw new OperationError('Operation is malformed', 'INVALID_OPERATION');
+		}
+
+		// Each pending operation applies to the text the previous one left
+		let pendingLength = missed.reduce((length, entry) => length - lengthChange(entry.operation), state.content.length);
+		for (const item of pending) {
+			item.operation = fitOperation(item.operation, pendingLength);
+			pendingLength = getTargetLength(item.operation);
+		}
+
+		const operations: RevisionEntry[] = [];
+		const acknowledged: ResumeAcknowledgement[] = [];
+
+		for (const entry of missed) {
+			// The client's oldest pending operation made it before the connection dropped
+			const next = pending[0];
+			if (next && entry.clientId === request.clientId && entry.clientSequence === next.clientSequence) {
+				acknowledged.push({ clientSequence: next.clientSequence, revision: entry.revision });
+				pending.shift();
+				continue;
+			}
+
+			// The logged operation wins insert ties, as in submitOperation
+			let operation = entry.operation;
+			for (const item of pending) {
+				const [incoming, transformed] = transformTextOperations(operation, item.operation);
+				operation = incoming;
+				item.operation = transformed;
+			}
+			// Transformed revisions no longer produce the content the checksum describes
+			operations.push({ ...entry, operation, checksum: undefined });
+		}
+
+		// What is left now applies to the current revision
+		const applied: OperationResult[] = [];
+		for (const [index, item] of pending.entries()) {
+			const result = await this.processOperation(state, {
+				documentId: state.documentId,
+				roomId: state.roomId,
+				participantId: request.participantId,
+				clientId: request.clientId,
+				clientSequence: item.clientSequence,
+				baseRevision: state.revision,
+				operation: item.operation,
+			});
+			applied.push(result);
+			acknowledged.push({ clientSequence: item.clientSequence, revision: result.revision });
+
+			// Revisions other writers slipped in ahead of this operation still have to
+			// pass it and the pending operations after it to reach the client
+			let local = item.operation;
+			for (const entry of result.missed) {
+				let [operation, transformed] = transformTextOperations(entry.operation, local);
+				local = transformed;
+				for (const later of pending.slice(index + 1)) {
+					const [incoming, rebased] = transformTextOperations(operation, later.operation);
+					operation = incoming;
+					later.operation = rebased;
+				}
+				operations.push({ ...entry, operation, checksum: undefined });
+			}
+		}
+
+		return {
+			mode: 'replay',
+			revision: state.revision,
+			checksum: contentChecksum(state.content),
+			operations,
+			acknowledged,
+			applied,
+		};
+	}
+
+	/**
+	 * Revisions after the given one, from memory or else from the operation log.
+	 * Null when too many are missing or the log has gaps.
+	 */
+	private async loadRevisionsSince(state: DocumentRevisionState, revision: number): Promise<RevisionEntry[] | null> {
+		const missing = state.revision - revision;
+		if (missing > this.maxResumeOperations) {
+			return null;
+		}
+
+		const cached = this.getRevisionsSince(state.documentId, revision);
+		if (cached !== null) {
+			return cached;
+		}
+
+		const logged = await this.fetchLoggedRevisions(state.documentId, revision, state.revision);
+		if (logged === null) {
+			return null;
+		}
+
+		// Extend legacy operations to the text they applied to, working back from the current text
+		let length = state.content.length;
+		for (const entry of logged.slice().reverse()) {
+			length -= lengthChange(entry.operation);
+			if (length < getBaseLength(entry.operation)) {
+				logger.warn('Logged operation does not fit the document', { documentId: state.documentId, revision: entry.revision });
+				return null;
+			}
+			entry.operation = padTextOperation(entry.operation, length);
+		}
+
+		return logged;
+	}
+
+	/**
+	 * Bring the in-memory copy up to a version written by someone else.
+	 * Returns the revisions that were applied, or null when the log cannot provide them.
+	 */
+	private async catchUp(state: DocumentRevisionState, version: number): Promise<RevisionEntry[] | null> {
+		const entries = await this.fetchLoggedRevisions(state.documentId, state.revision, version);
+		if (entries === null) {
+			return null;
+		}
+
+		let content = state.content;
+		for (const entry of entries) {
+			if (getBaseLength(entry.operation) > content.length) {
+				logger.warn('Logged operation does not fit the document', { documentId: state.documentId, revision: entry.revision });
+				return null;
+			}
+			entry.operation = padTextOperation(entry.operation, content.length);
+			content = applyOperationToText(content, entry.operation);
+			entry.checksum = contentChecksum(content);
+		}
+
+		for (const entry of entries) {
+			this.appendRevision(state, entry);
+		}
+		state.content = content;
+
+		logger.debug('Caught up with concurrent writers', { documentId: state.documentId, revision: state.revision });
+		return entries;
+	}
+
+	/**
+	 * Read the revisions after `from` up to and including `to` from the operation log.
+	 * Null when the log has gaps.
+	 */
+	private async fetchLoggedRevisions(documentId: string, from: number, to: number): Promise<RevisionEntry[] | null> {
+		const { data: rows, error } = await supabase
+			.from('operations')
+			.select('participant_id, client_id, client_sequence, server_sequence, timestamp, base_version, components, operation_type, position, content, length')
+			.eq('document_id', documentId)
+			.gte('base_version', from)
+			.lt('base_version', to)
+			.order('base_version', { ascending: true });
+
+		if (error) {
+			throw new OperationError('Failed to load operations', 'DATABASE_ERROR');
+		}
+
+		if (!rows || rows.length !== to - from || rows.some((row, index) => row.base_version !== from + index)) {
+			return null;
+		}
+
+		try {
+			return rows.map(row => ({
+				revision: row.base_version! + 1,
+				operation: operationFromRow(row),
+				participantId: row.participant_id,
+				clientId: row.client_id,
+				clientSequence: row.client_sequence,
+				serverSequence: row.server_sequence,
+				timestamp: row.timestamp,
+			}));
+		} catch (error) {
+			logger.warn('Unreadable operation in log', { documentId });
+			return null;
+		}
+	}
+
+	/**
+	 * Find an operation a client already submitted in the operation log
+	 */
+	private async fetchLoggedOperation(documentId: string, clientId: string, clientSequence: number): Promise<RevisionEntry | null> {
+		const { data: row, error } = await supabase
+			.from('operations')
+			.select('participant_id, client_id, client_sequence, server_sequence, timestamp, base_version, components, operation_type, position, content, length')
+			.eq('document_id', documentId)
+			.eq('client_id', clientId)
+			.eq('client_sequence', clientSequence)
+			.not('base_version', 'is', null)
+			.limit(1)
+			.maybeSingle();
+
+		if (error) {
+			throw new OperationError('Failed to load operations', 'DATABASE_ERROR');
+		}
+
+		if (!row) {
+			return null;
+		}
+
+		return {
+			revision: row.base_version! + 1,
+			operation: operationFromRow(row),
+			participantId: row.participant_id,
+			clientId: row.client_id,
+			clientSequence: row.client_sequence,
+			serverSequence: row.server_sequence,
+			timestamp: row.timestamp,
+		};
+	}
+
+	private appendRevision(state: DocumentRevisionState, entry: RevisionEntry): void {
+		state.revision = entry.revision;
+		state.log.push(entry);
+		if (state.log.length > this.maxLogSize) {
+			state.log.shift();
+		}
+	}
+
+	/**
+	 * Apply the operation to the stored document, provided it is still at the
+	 * revision the operation was transformed to
+	 */
+	private async persist(
+		state: DocumentRevisionState,
+		clientOp: ClientOperation,
+		operation: TextOperation[],
+		timestamp: string
+	): Promise<{ applied: boolean; version: number; serverSequence: number | null }> {
+		const { data, error } = await supabase.rpc('apply_operation', {
+			p_document_id: state.documentId,
+			p_participant_id: clientOp.participantId,
+			p_components: operation.map(op => ({ ...op })) as Json,
+			p_base_version: state.revision,
+			p_client_id: clientOp.clientId,
+			p_client_sequence: clientOp.clientSequence,
+			p_timestamp: timestamp,
+			p_metadata: { client_base_revision: clientOp.baseRevision },
+		});
+
+		const result = data?.[0];
+		if (error || !result) {
+			if (error?.code === 'P0002') {
+				this.unloadDocument(state.documentId);
+				throw new OperationError('Document not found', 'DOCUMENT_NOT_FOUND');
+			}
+			// The stored content differs from the in-memory copy the operation was checked against
+			if (error?.code === '22023') {
+				this.unloadDocument(state.documentId);
+				throw new OperationError('Document was modified concurrently, resync required', 'DOCUMENT_CHANGED');
+			}
+			logger.error('Failed to apply operation', error as Error, { documentId: state.documentId });
+			throw new OperationError('Failed to update document', 'DATABASE_ERROR');
+		}
+
+		// When not applied, the version is the one the document is at instead
+		return { applied: result.applied, version: result.new_version, serverSequence: result.new_server_sequence };
+	}
+
+	private async getState(documentId: string): Promise<DocumentRevisionState> {
+		const cached = this.documents.get(documentId);
+		if (cached) {
+			cached.lastAccess = Date.now();
+			return cached;
+		}
+
+		const pending = this.loading.get(documentId);
+		if (pending) {
+			return pending;
+		}
+
+		const load = this.loadState(documentId);
+		this.loading.set(documentId, load);
+
+		try {
+			return await load;
+		} finally {
+			this.loading.delete(documentId);
+		}
+	}
+
+	private async loadState(documentId: string): Promise<DocumentRevisionState> {
+		const { data: document, error } = await supabase
+			.from('documents')
+			.select('id, room_id, content, version, rooms!inner(editing_mode)')
+			.eq('id', documentId)
+			.single();
+
+		if (error || !document) {
+			throw new OperationError('Document not found', 'DOCUMENT_NOT_FOUND');
+		}
+
+		// Documents in CRDT rooms are synced as Yjs documents instead
+		if ((document.rooms as { editing_mode: string }).editing_mode === 'crdt') {
+			throw new OperationError('Document is edited through CRDT sync', 'CRDT_DOCUMENT');
+		}
+
+		const state: DocumentRevisionState = {
+			documentId,
+			roomId: document.room_id,
+			content: document.content,
+			revision: document.version,
+			log: [],
+			queue: Promise.resolve(),
+			lastAccess: Date.now(),
+		};
+
+		this.documents.set(documentId, state);
+		logger.info('Document loaded into OT server', { documentId, revision: state.revision });
+
+		return state;
+	}
+
+	/**
+	 * Periodically drop documents nobody has touched for a while
+	 */
+	private startIdleCleanup(): void {
+		this.cleanupTimer = setInterval(() => {
+			const cutoff = Date.now() - this.idleTimeout;
+			for (const [documentId, state] of this.documents) {
+				if (state.lastAccess < cutoff) {
+					this.unloadDocument(documentId);
+					logger.debug('Unloaded idle document', { documentId });
+				}
+			}
+		}, this.idleTimeout / 2);
+		this.cleanupTimer.unref();
+	}
+
+	/**
+	 * Cleanup and dispose resources
+	 */
+	dispose(): void {
+		if (this.cleanupTimer) {
+			clearInterval(this.cleanupTimer);
+			this.cleanupTimer = undefined;
+		}
+
+		this.documents.clear();
+		this.loading.clear();
+		this.removeAllListeners();
+
+		logger.info('OTServer disposed');
+	}
+}
+
+/**
+ * Extend a client operation to the text it was made against; clients may leave the end implicit
+ */
+function fitOperation(operation: TextOperation[], textLength: number): TextOperation[] {
+	if (getBaseLength(operation) > textLength) {
+		throw new OperationError('Operation does not fit the document', 'INVALID_OPERATION');
+	}
+	return padTextOperation(operation, textLength);
+}
+
+function lengthChange(operation: TextOperation[]): number {
+	return getTargetLength(operation) - getBaseLength(operation);
+}
+
+// Export singleton instance
+export const otServer = new OTServer();
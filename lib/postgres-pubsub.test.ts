@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { Client } from 'pg';
+import { PostgresPubSubAdapter } from './postgres-pubsub';
+
+/**
+ * Just enough of Postgres for the adapter: NOTIFY to every listening
+ * connection, with its payload limit, and the attachments table
+ */
+class FakePostgres {
+	readonly notifications: string[] = [];
+	readonly attachments = new Map<string, string>();
+	private listeners = new Set<Client>();
+
+	async query(client: Client, text: string, params: any[] = []): Promise<{ rows: any[] }> {
+		if (text.startsWith('LISTEN')) {
+			this.listeners.add(client);
+			return { rows: [] };
+		}
+
+		if (text.startsWith('SELECT pg_notify')) {
+			const [channel, payload] = params as [string, string];
+			if (Buffer.byteLength(payload, 'utf8') >= 8000) {
+				throw new Error('payload string too long');
+			}
+			this.notifications.push(payload);
+			for (const listener of this.listeners) {
+				setImmediate(() => listener.emit('notification', { channel, payload }));
+			}
+			return { rows: [] };
+		}
+
+		if (text.startsWith('INSERT INTO pubsub_attachments')) {
+			const id = randomUUID();
+			this.attachments.set(id, params[0]);
+			return { rows: [{ id }] };
+		}
+
+		if (text.startsWith('SELECT payload FROM pubsub_attachments')) {
+			// Slower than the notifications behind it
+			await new Promise(resolve => setTimeout(resolve, 10));
+			const payload = this.attachments.get(params[0]);
+			return { rows: payload === undefined ? [] : [{ payload }] };
+		}
+
+		throw new Error(`Unexpected query: ${text}`);
+	}
+}
+
+/**
+ * Collect the next messages a channel receives
+ */
+function receive(adapter: PostgresPubSubAdapter, channel: string, count: number): Promise<unknown[]> {
+	const messages: unknown[] = [];
+	return new Promise(resolve => {
+		adapter.subscribe(channel, message => {
+			messages.push(message);
+			if (messages.length === count) {
+				resolve(messages);
+			}
+		});
+	});
+}
+
+describe('PostgresPubSubAdapter', () => {
+	let postgres: FakePostgres;
+	let publisher: PostgresPubSubAdapter;
+	let subscriber: PostgresPubSubAdapter;
+
+	beforeEach(async () => {
+		postgres = new FakePostgres();
+		const prototype = Client.prototype as any;
+		mock.method(prototype, 'connect', async () => undefined);
+		mock.method(prototype, 'end', async () => undefined);
+		mock.method(prototype, 'query', function (this: Client, text: string, params?: any[]) {
+			return postgres.query(this, text, params);
+		});
+
+		publisher = new PostgresPubSubAdapter('postgres://test');
+		subscriber = new PostgresPubSubAdapter('postgres://test');
+		await publisher.connect();
+		await subscriber.connect();
+	});
+
+	afterEach(async () => {
+		await publisher.close();
+		await subscriber.close();
+		mock.restoreAll();
+	});
+
+	it('sends small messages in the notification itself', async () => {
+		const received = receive(subscriber, 'small', 1);
+		await publisher.publish('small', { text: 'hello' });
+
+		assert.deepEqual(await received, [{ text: 'hello' }]);
+		assert.equal(postgres.attachments.size, 0);
+	});
+
+	it('stores messages over 7500 bytes as attachments', async () => {
+		const message = { text: 'x'.repeat(20000) };
+		const received = receive(subscriber, 'large', 1);
+		await publisher.publish('large', message);
+
+		assert.deepEqual(await received, [message]);
+		assert.equal(postgres.attachments.size, 1);
+		assert.ok(postgres.notifications.every(payload => Buffer.byteLength(payload, 'utf8') <= 7500));
+	});
+
+	it('measures the payload in bytes rather than characters', async () => {
+		// 4000 characters, but 8000 bytes of UTF-8
+		const message = { text: 'é'.repeat(4000) };
+		const received = receive(subscriber, 'accented', 1);
+		await publisher.publish('accented', message);
+
+		assert.deepEqual(await received, [message]);
+		assert.equal(postgres.attachments.size, 1);
+	});
+
+	it('keeps messages in order when an attachment is read in between', async () => {
+		const received = receive(subscriber, 'ordered', 3);
+		await publisher.publish('ordered', { index: 0, text: 'x'.repeat(10000) });
+		await publisher.publish('ordered', { index: 1 });
+		await publisher.publish('ordered', { index: 2, text: 'y'.repeat(10000) });
+
+		assert.deepEqual((await received).map(message => (message as { index: number }).index), [0, 1, 2]);
+	});
+});
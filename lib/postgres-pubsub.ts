@@ -0,0 +1,244 @@
+/**
+ * Postgres LISTEN/NOTIFY pub/sub adapter
+ *
+ * All logical channels share one notification channel; messages carry their
+ * channel name and are dispatched locally. NOTIFY payloads are limited to
+ * 8000 bytes, so larger messages are stored in `pubsub_attachments` and only
+ * their id is sent. Leases are session-level advisory locks, which Postgres
+ * releases by itself when an instance dies or loses its connection.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { Client } from 'pg';
+import type { PubSubAdapter, PubSubHandler } from './pubsub';
+import { logger } from './utils';
+
+interface Envelope {
+	channel: string;
+	message?: unknown;
+	attachmentId?: string;
+}
+
+const NOTIFY_CHANNEL = 'octate_pubsub';
+// Leave room below the 8000 byte limit for the attachment envelope
+const MAX_NOTIFY_PAYLOAD = 7500;
+// Advisory locks take a bigint key, derived from the lease name
+const LEASE_KEY_SQL = `('x' || substr(md5($1), 1, 16))::bit(64)::bigint`;
+
+export class PostgresPubSubAdapter extends EventEmitter implements PubSubAdapter {
+	readonly instanceId = randomUUID();
+	readonly distributed = true;
+	private readonly attachmentTtl = parseInt(process.env.PUBSUB_ATTACHMENT_TTL_MS || '30000');
+	private readonly reconnectDelay = 2000;
+	private client?: Client;
+	private handlers = new Map<string, Set<PubSubHandler>>();
+	private leases = new Set<string>();
+	// Notifications are handled one at a time so attachments do not reorder messages
+	private delivery: Promise<void> = Promise.resolve();
+	private cleanupTimer?: NodeJS.Timeout;
+	private reconnectTimer?: NodeJS.Timeout;
+	private closed = false;
+
+	constructor(private readonly connectionString: string) {
+		super();
+	}
+
+	async connect(): Promise<void> {
+		const client = new Client({ connectionString: this.connectionString });
+
+		client.on('notification', notification => {
+			if (notification.channel === NOTIFY_CHANNEL && notification.payload) {
+				this.enqueue(notification.payload);
+			}
+		});
+		client.on('error', error => {
+			logger.error('Postgres pub/sub connection error', error);
+			this.handleDisconnect(client);
+		});
+		client.on('end', () => this.handleDisconnect(client));
+
+		try {
+			await client.connect();
+			await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+		} catch (error) {
+			client.end().catch(() => undefined);
+			throw error;
+		}
+
+		this.client = client;
+		this.startAttachmentCleanup();
+		logger.info('Postgres pub/sub adapter connected', { instanceId: this.instanceId });
+	}
+
+	async publish(channel: string, message: unknown): Promise<void> {
+		const client = this.requireClient();
+		const envelope: Envelope = { channel, message };
+		const payload = JSON.stringify(envelope);
+
+		if (Buffer.byteLength(payload, 'utf8') <= MAX_NOTIFY_PAYLOAD) {
+			await client.query('SELECT pg_notify($1, $2)', [NOTIFY_CHANNEL, payload]);
+			return;
+		}
+
+		const { rows } = await client.query<{ id: string }>(
+			'INSERT INTO pubsub_attachments (payload) VALUES ($1) RETURNING id',
+			[payload]
+		);
+		const reference: Envelope = { channel, attachmentId: rows[0]!.id };
+		await client.query('SELECT pg_notify($1, $2)', [NOTIFY_CHANNEL, JSON.stringify(reference)]);
+	}
+
+	subscribe(channel: string, handler: PubSubHandler): void {
+		let handlers = this.handlers.get(channel);
+		if (!handlers) {
+			handlers = new Set();
+			this.handlers.set(channel, handlers);
+		}
+		handlers.add(handler);
+	}
+
+	unsubscribe(channel: string, handler: PubSubHandler): void {
+		const handlers = this.handlers.get(channel);
+		handlers?.delete(handler);
+		if (handlers && handlers.size === 0) {
+			this.handlers.delete(channel);
+		}
+	}
+
+	async tryAcquireLease(key: string): Promise<boolean> {
+		// Advisory locks are reentrant, so only take each one once
+		if (this.leases.has(key)) {
+			return true;
+		}
+
+		const { rows } = await this.requireClient().query<{ acquired: boolean }>(
+			`SELECT pg_try_advisory_lock(${LEASE_KEY_SQL}) AS acquired`,
+			[key]
+		);
+
+		if (rows[0]?.acquired) {
+			this.leases.add(key);
+			return true;
+		}
+		return false;
+	}
+
+	async releaseLease(key: string): Promise<void> {
+		if (!this.leases.delete(key) || !this.client) {
+			return;
+		}
+
+		await this.client.query(`SELECT pg_advisory_unlock(${LEASE_KEY_SQL})`, [key]);
+	}
+
+	async close(): Promise<void> {
+		this.closed = true;
+
+		if (this.cleanupTimer) {
+			clearInterval(this.cleanupTimer);
+			this.cleanupTimer = undefined;
+		}
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = undefined;
+		}
+
+		const client = this.client;
+		this.client = undefined;
+		this.leases.clear();
+		this.handlers.clear();
+		this.removeAllListeners();
+
+		await client?.end();
+	}
+
+	private enqueue(payload: string): void {
+		this.delivery = this.delivery
+			.then(() => this.deliver(payload))
+			.catch(error => logger.error('Failed to deliver pub/sub message', error as Error));
+	}
+
+	private async deliver(payload: string): Promise<void> {
+		let envelope = JSON.parse(payload) as Envelope;
+
+		if (!this.handlers.has(envelope.channel)) {
+			return;
+		}
+
+		if (envelope.attachmentId) {
+			const { rows } = await this.requireClient().query<{ payload: string }>(
+				'SELECT payload FROM pubsub_attachments WHERE id = $1',
+				[envelope.attachmentId]
+			);
+			if (!rows[0]) {
+				logger.warn('Pub/sub attachment expired before delivery', { channel: envelope.channel });
+				return;
+			}
+			envelope = JSON.parse(rows[0].payload) as Envelope;
+		}
+
+		const channel = envelope.channel;
+		const fail = (error: unknown) => logger.error(`Pub/sub handler failed on channel ${channel}`, error as Error);
+		for (const handler of this.handlers.get(channel) || []) {
+			try {
+				Promise.resolve(handler(envelope.message)).catch(fail);
+			} catch (error) {
+				fail(error);
+			}
+		}
+	}
+
+	private requireClient(): Client {
+		if (!this.client) {
+			throw new Error('Postgres pub/sub adapter is not connected');
+		}
+		return this.client;
+	}
+
+	private handleDisconnect(client: Client): void {
+		if (this.client !== client) {
+			return;
+		}
+		this.client = undefined;
+
+		// Advisory locks belonged to the lost session
+		if (this.leases.size > 0) {
+			const lost = Array.from(this.leases);
+			this.leases.clear();
+			this.emit('leases-lost', lost);
+		}
+
+		if (!this.closed) {
+			this.scheduleReconnect();
+		}
+	}
+
+	private scheduleReconnect(): void {
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.connect().catch(error => {
+				logger.error('Postgres pub/sub reconnect failed', error as Error);
+				this.scheduleReconnect();
+			});
+		}, this.reconnectDelay);
+		this.reconnectTimer.unref();
+	}
+
+	/**
+	 * Periodically delete attachments every instance has had time to read
+	 */
+	private startAttachmentCleanup(): void {
+		if (this.cleanupTimer) {
+			return;
+		}
+
+		this.cleanupTimer = setInterval(() => {
+			this.client?.query(
+				'DELETE FROM pubsub_attachments WHERE created_at < NOW() - make_interval(secs => $1)',
+				[this.attachmentTtl / 1000]
+			).catch(error => logger.error('Failed to clean up pub/sub attachments', error as Error));
+		}, this.attachmentTtl);
+		this.cleanupTimer.unref();
+	}
+}
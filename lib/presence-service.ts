@@ -0,0 +1,435 @@
+/**
+ * Server-side presence tracking
+ *
+ * Every socket that joins a room is tracked as a connection. Heartbeats and
+ * edits keep a connection active; without them it turns idle and later away.
+ * A participant's presence in a room is taken from their most recently
+ * active connection and written to the `presence` table whenever it changes,
+ * and they go offline once their last connection in the room is gone.
+ *
+ * Connections are shared with the other server instances through the pub/sub
+ * adapter, so presence covers sockets on every instance. The instance whose
+ * connection changed writes and broadcasts the new state; idle transitions
+ * are handled by the instance holding the most recently active connection.
+ * Instances republish their connections on every sweep, and connections of
+ * an instance that stopped doing so are dropped.
+ */
+
+import { EventEmitter } from 'events';
+import { supabase, PresenceStatus, SupabaseError } from './supabase';
+import { PubSubAdapter, pubsub } from './pubsub';
+import { logger } from './utils';
+
+export type ActivityType = 'editing' | 'viewing' | 'idle';
+
+export interface PresenceState {
+	roomId: string;
+	participantId: string;
+	status: PresenceStatus;
+	activityType: ActivityType | null;
+	currentDocumentId: string | null;
+	connectionId: string | null;
+	lastActivity: string;
+}
+
+export interface PresenceConnectionInfo {
+	userAgent?: string;
+	ipAddress?: string;
+}
+
+export interface PresenceUpdate {
+	status?: PresenceStatus;
+	activityType?: ActivityType;
+	documentId?: string | null;
+}
+
+interface PresenceConnection {
+	instanceId: string;
+	socketId: string;
+	roomId: string;
+	participantId: string;
+	// Status and activity reported by the client, before idle/away transitions
+	status: PresenceStatus;
+	activityType: ActivityType | null;
+	documentId: string | null;
+	lastActivity: number;
+	info: PresenceConnectionInfo;
+	// When a connection of another instance was last announced
+	seenAt?: number;
+}
+
+interface PresenceMessage {
+	instanceId: string;
+	// Connections the instance added or changed
+	connections: PresenceConnection[];
+	// Keys of connections the instance dropped
+	removed: string[];
+}
+
+const PRESENCE_CHANNEL = 'presence:connections';
+
+export class PresenceService extends EventEmitter {
+	private readonly sweepInterval = parseInt(process.env.WS_HEARTBEAT_INTERVAL || '30000');
+	private readonly idleTimeout = parseInt(process.env.PRESENCE_IDLE_TIMEOUT_MS || '60000'); // 1 minute
+	private readonly awayTimeout = parseInt(process.env.PRESENCE_AWAY_TIMEOUT_MS || '300000'); // 5 minutes
+	// Connections on every instance, keyed by `${socketId}:${roomId}`
+	private connections = new Map<string, PresenceConnection>();
+	// Last state written per `${participantId}:${roomId}`
+	private states = new Map<string, PresenceState>();
+	// Writes for the same participant run one after another so the last state wins
+	private pendingWrites = new Map<string, Promise<void>>();
+	private sweepTimer?: NodeJS.Timeout;
+
+	constructor(private readonly pubsub: PubSubAdapter) {
+		super();
+		pubsub.subscribe(PRESENCE_CHANNEL, (message: PresenceMessage) => this.handleMessage(message));
+		this.startSweep();
+		logger.info('PresenceService initialized');
+	}
+
+	/**
+	 * Start tracking a socket in a room and mark its participant online
+	 */
+	async join(socketId: string, roomId: string, participantId: string, info: PresenceConnectionInfo = {}): Promise<void> {
+		const connection: PresenceConnection = {
+			instanceId: this.pubsub.instanceId,
+			socketId,
+			roomId,
+			participantId,
+			status: 'online',
+			activityType: 'viewing',
+			documentId: null,
+			lastActivity: Date.now(),
+			info,
+		};
+		this.connections.set(connectionKey(socketId, roomId), connection);
+		this.announce([connection], []);
+
+		await this.refresh(roomId, participantId);
+	}
+
+	/**
+	 * Apply a status, activity or document reported by the client
+	 */
+	async update(socketId: string, roomId: string, update: PresenceUpdate): Promise<void> {
+		const connection = this.connections.get(connectionKey(socketId, roomId));
+		if (!connection) {
+			return;
+		}
+
+		if (update.status !== undefined) {
+			connection.status = update.status;
+		}
+		if (update.activityType !== undefined) {
+			connection.activityType = update.activityType;
+		}
+		if (update.documentId !== undefined) {
+			connection.documentId = update.documentId;
+		}
+		connection.lastActivity = Date.now();
+		this.announce([connection], []);
+
+		await this.refresh(roomId, connection.participantId);
+	}
+
+	/**
+	 * Record activity on a socket, in one room or in every room it joined
+	 */
+	async heartbeat(socketId: string, roomId?: string): Promise<void> {
+		const touched: PresenceConnection[] = [];
+
+		for (const connection of this.connections.values()) {
+			if (connection.socketId === socketId && (!roomId || connection.roomId === roomId)) {
+				connection.lastActivity = Date.now();
+				touched.push(connection);
+			}
+		}
+		if (touched.length > 0) {
+			this.announce(touched, []);
+		}
+
+		await Promise.all(touched.map(connection => this.refresh(connection.roomId, connection.participantId)));
+	}
+
+	/**
+	 * Stop tracking a socket in a room
+	 */
+	async leave(socketId: string, roomId: string): Promise<void> {
+		const key = connectionKey(socketId, roomId);
+		const connection = this.connections.get(key);
+		if (!connection) {
+			return;
+		}
+
+		this.connections.delete(key);
+		this.announce([], [key]);
+		await this.refresh(roomId, connection.participantId);
+	}
+
+	/**
+	 * Stop tracking a socket in every room it joined
+	 */
+	async disconnect(socketId: string): Promise<void> {
+		const rooms = Array.from(this.connections.values())
+			.filter(connection => connection.socketId === socketId)
+			.map(connection => connection.roomId);
+
+		await Promise.all(rooms.map(roomId => this.leave(socketId, roomId)));
+	}
+
+	/**
+	 * Drop a participant removed from a room without writing presence, as their rows are gone.
+	 * Every instance is told about removals, so this only changes local bookkeeping.
+	 */
+	forget(roomId: string, participantId: string): void {
+		for (const [key, connection] of this.connections) {
+			if (connection.roomId === roomId && connection.participantId === participantId) {
+				this.connections.delete(key);
+			}
+		}
+		this.states.delete(stateKey(participantId, roomId));
+	}
+
+	/**
+	 * Apply idle and away transitions to connections without recent activity
+	 */
+	async sweep(): Promise<void> {
+		const local = Array.from(this.connections.values()).filter(connection => this.isLocal(connection));
+		if (local.length > 0) {
+			this.announce(local, []);
+		}
+
+		const participants = new Map<string, { roomId: string; participantId: string }>();
+		const expiredBefore = Date.now() - this.sweepInterval * 3;
+		for (const [key, connection] of this.connections) {
+			// The instance holding the connection stopped announcing it
+			if (!this.isLocal(connection) && connection.seenAt! < expiredBefore) {
+				this.connections.delete(key);
+			}
+			participants.set(stateKey(connection.participantId, connection.roomId), connection);
+		}
+
+		for (const { roomId, participantId } of participants.values()) {
+			// Another instance holds the participant's latest connection and handles it
+			const latest = this.latestConnection(roomId, participantId);
+			if (latest && !this.isLocal(latest)) {
+				continue;
+			}
+
+			try {
+				await this.refresh(roomId, participantId);
+			} catch (error) {
+				logger.error('Failed to update presence', error as Error, { roomId, participantId });
+			}
+		}
+	}
+
+	/**
+	 * Recompute a participant's presence from their connections and persist it when it changed
+	 */
+	private async refresh(roomId: string, participantId: string): Promise<void> {
+		const key = stateKey(participantId, roomId);
+		const next = this.computeState(roomId, participantId);
+		const previous = this.states.get(key);
+
+		if (previous && !hasChanged(previous, next)) {
+			return;
+		}
+
+		if (next.status === 'offline' && !previous) {
+			return;
+		}
+
+		if (next.status === 'offline') {
+			this.states.delete(key);
+		} else {
+			this.states.set(key, next);
+		}
+
+		const write = (this.pendingWrites.get(key) || Promise.resolve())
+			.catch(() => undefined)
+			.then(() => this.persist(next));
+		this.pendingWrites.set(key, write);
+
+		this.emit('presence-changed', next);
+
+		try {
+			await write;
+		} finally {
+			if (this.pendingWrites.get(key) === write) {
+				this.pendingWrites.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Track connections another instance added, changed or dropped. That
+	 * instance writes and broadcasts the resulting state; here it is only
+	 * recorded so later local changes compare against it.
+	 */
+	private handleMessage(message: PresenceMessage): void {
+		if (message.instanceId === this.pubsub.instanceId) {
+			return;
+		}
+
+		const participants = new Map<string, { roomId: string; participantId: string }>();
+		for (const connection of message.connections) {
+			this.connections.set(connectionKey(connection.socketId, connection.roomId), { ...connection, seenAt: Date.now() });
+			participants.set(stateKey(connection.participantId, connection.roomId), connection);
+		}
+		for (const key of message.removed) {
+			const connection = this.connections.get(key);
+			if (connection) {
+				this.connections.delete(key);
+				participants.set(stateKey(connection.participantId, connection.roomId), connection);
+			}
+		}
+
+		for (const { roomId, participantId } of participants.values()) {
+			const state = this.computeState(roomId, participantId);
+			if (state.status === 'offline') {
+				this.states.delete(stateKey(participantId, roomId));
+			} else {
+				this.states.set(stateKey(participantId, roomId), state);
+			}
+		}
+	}
+
+	private announce(connections: PresenceConnection[], removed: string[]): void {
+		const message: PresenceMessage = { instanceId: this.pubsub.instanceId, connections, removed };
+		this.pubsub.publish(PRESENCE_CHANNEL, message)
+			.catch(error => logger.error('Failed to publish presence connections', error as Error));
+	}
+
+	private isLocal(connection: PresenceConnection): boolean {
+		return connection.instanceId === this.pubsub.instanceId;
+	}
+
+	private latestConnection(roomId: string, participantId: string): PresenceConnection | undefined {
+		let latest: PresenceConnection | undefined;
+		for (const connection of this.connections.values()) {
+			if (connection.roomId === roomId && connection.participantId === participantId &&
+				(!latest || connection.lastActivity > latest.lastActivity)) {
+				latest = connection;
+			}
+		}
+		return latest;
+	}
+
+	private computeState(roomId: string, participantId: string): PresenceState {
+		const latest = this.latestConnection(roomId, participantId);
+
+		if (!latest) {
+			return {
+				roomId,
+				participantId,
+				status: 'offline',
+				activityType: null,
+				currentDocumentId: null,
+				connectionId: null,
+				lastActivity: this.states.get(stateKey(participantId, roomId))?.lastActivity || new Date().toISOString(),
+			};
+		}
+
+		const inactiveFor = Date.now() - latest.lastActivity;
+		let status = latest.status;
+		let activityType = latest.activityType;
+
+		if (inactiveFor >= this.awayTimeout) {
+			status = status === 'offline' ? status : 'away';
+			activityType = 'idle';
+		} else if (inactiveFor >= this.idleTimeout) {
+			activityType = 'idle';
+		}
+
+		return {
+			roomId,
+			participantId,
+			status,
+			activityType,
+			currentDocumentId: latest.documentId,
+			connectionId: latest.socketId,
+			lastActivity: new Date(latest.lastActivity).toISOString(),
+		};
+	}
+
+	private async persist(state: PresenceState): Promise<void> {
+		const connection = state.connectionId
+			? this.connections.get(connectionKey(state.connectionId, state.roomId))
+			: undefined;
+
+		const { error } = await supabase
+			.from('presence')
+			.upsert({
+				participant_id: state.participantId,
+				room_id: state.roomId,
+				status: state.status,
+				activity_type: state.activityType,
+				current_document_id: state.currentDocumentId,
+				connection_id: state.connectionId,
+				last_activity: state.lastActivity,
+				...(connection && {
+					user_agent: connection.info.userAgent ?? null,
+					ip_address: connection.info.ipAddress ?? null,
+				}),
+			}, {
+				onConflict: 'participant_id,room_id',
+			});
+
+		if (error) {
+			throw new SupabaseError('Failed to update presence', error.code, error);
+		}
+
+		const { error: participantError } = await supabase
+			.from('participants')
+			.update({
+				presence_status: state.status,
+				last_seen: new Date().toISOString(),
+			})
+			.eq('id', state.participantId);
+
+		if (participantError) {
+			throw new SupabaseError('Failed to update participant presence', participantError.code, participantError);
+		}
+	}
+
+	private startSweep(): void {
+		this.sweepTimer = setInterval(() => {
+			this.sweep();
+		}, this.sweepInterval);
+		this.sweepTimer.unref();
+
+		logger.info('Presence sweep started', { interval: this.sweepInterval });
+	}
+
+	/**
+	 * Cleanup and dispose resources
+	 */
+	dispose(): void {
+		if (this.sweepTimer) {
+			clearInterval(this.sweepTimer);
+			this.sweepTimer = undefined;
+		}
+		this.connections.clear();
+		this.states.clear();
+		this.removeAllListeners();
+	}
+}
+
+function connectionKey(socketId: string, roomId: string): string {
+	return `${socketId}:${roomId}`;
+}
+
+function stateKey(participantId: string, roomId: string): string {
+	return `${participantId}:${roomId}`;
+}
+
+function hasChanged(previous: PresenceState, next: PresenceState): boolean {
+	return previous.status !== next.status ||
+		previous.activityType !== next.activityType ||
+		previous.currentDocumentId !== next.currentDocumentId ||
+		previous.connectionId !== next.connectionId;
+}
+
+// Export singleton instance
+export const presenceService = new PresenceService(pubsub);
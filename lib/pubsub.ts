@@ -0,0 +1,138 @@
+/**
+ * Cross-instance publish/subscribe
+ *
+ * Running more than one server replica needs two things: messages published
+ * on one instance must reach subscribers on every instance, and each document
+ * needs a single instance that sequences its operations. Adapters provide
+ * both as channels and leases. Published messages are delivered to every
+ * subscriber of the channel, on the publishing instance too.
+ *
+ * The in-process adapter serves a single instance. The Postgres adapter uses
+ * LISTEN/NOTIFY and advisory locks on the existing database, so scaling out
+ * does not need an extra service.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { PostgresPubSubAdapter } from './postgres-pubsub';
+import { logger } from './utils';
+
+export type PubSubHandler = (message: any) => void | Promise<void>;
+
+export interface PubSubAdapter extends EventEmitter {
+	// Unique per running server instance
+	readonly instanceId: string;
+	// Whether messages can reach other instances
+	readonly distributed: boolean;
+
+	connect(): Promise<void>;
+	publish(channel: string, message: unknown): Promise<void>;
+	subscribe(channel: string, handler: PubSubHandler): void;
+	unsubscribe(channel: string, handler: PubSubHandler): void;
+
+	/**
+	 * Try to take a cluster-wide lease. Leases are held until released or
+	 * until the instance loses its connection, which emits 'leases-lost'.
+	 */
+	tryAcquireLease(key: string): Promise<boolean>;
+	releaseLease(key: string): Promise<void>;
+
+	close(): Promise<void>;
+}
+
+/**
+ * Adapter for a single server instance
+ */
+export class InProcessPubSubAdapter extends EventEmitter implements PubSubAdapter {
+	readonly instanceId = randomUUID();
+	readonly distributed = false;
+	private handlers = new Map<string, Set<PubSubHandler>>();
+	private leases = new Set<string>();
+
+	async connect(): Promise<void> {
+		logger.info('In-process pub/sub adapter ready');
+	}
+
+	async publish(channel: string, message: unknown): Promise<void> {
+		const handlers = this.handlers.get(channel);
+		if (!handlers) {
+			return;
+		}
+
+		// Deliver asynchronously, as a networked adapter would
+		const payload = JSON.parse(JSON.stringify(message));
+		setImmediate(() => {
+			for (const handler of handlers) {
+				dispatch(channel, handler, payload);
+			}
+		});
+	}
+
+	subscribe(channel: string, handler: PubSubHandler): void {
+		let handlers = this.handlers.get(channel);
+		if (!handlers) {
+			handlers = new Set();
+			this.handlers.set(channel, handlers);
+		}
+		handlers.add(handler);
+	}
+
+	unsubscribe(channel: string, handler: PubSubHandler): void {
+		const handlers = this.handlers.get(channel);
+		handlers?.delete(handler);
+		if (handlers && handlers.size === 0) {
+			this.handlers.delete(channel);
+		}
+	}
+
+	async tryAcquireLease(key: string): Promise<boolean> {
+		this.leases.add(key);
+		return true;
+	}
+
+	async releaseLease(key: string): Promise<void> {
+		this.leases.delete(key);
+	}
+
+	async close(): Promise<void> {
+		this.handlers.clear();
+		this.leases.clear();
+		this.removeAllListeners();
+	}
+}
+
+/**
+ * Run a subscriber without letting its failure affect other subscribers
+ */
+function dispatch(channel: string, handler: PubSubHandler, message: unknown): void {
+	const fail = (error: unknown) => logger.error(`Pub/sub handler failed on channel ${channel}`, error as Error);
+	try {
+		Promise.resolve(handler(message)).catch(fail);
+	} catch (error) {
+		fail(error);
+	}
+}
+
+/**
+ * Create the adapter selected by PUBSUB_ADAPTER ('memory' or 'postgres')
+ */
+export function createPubSubAdapter(): PubSubAdapter {
+	const type = process.env.PUBSUB_ADAPTER || 'memory';
+
+	switch (type) {
+		case 'memory':
+			return new InProcessPubSubAdapter();
+		case 'postgres': {
+			const connectionString = process.env.DATABASE_URL;
+			if (!connectionString) {
+				throw new Error('DATABASE_URL is required for the postgres pub/sub adapter');
+			}
+			return new PostgresPubSubAdapter(connectionString);
+		}
+		default:
+			throw new Error(`Unknown pub/sub adapter: ${type}`);
+	}
+}
+
+// Export singleton instance
+export const pubsub = createPubSubAdapter();
@@ -0,0 +1,105 @@
+/**
+ * Notifications raised outside of socket handlers
+ *
+ * REST routes have no access to the Socket.IO server, so they publish
+ * notifications here and the socket layer delivers them to the right sockets.
+ */
+
+import { EventEmitter } from 'events';
+import { Document, Participant } from './supabase';
+import type { RevisionEntry } from './ot-server';
+
+export interface UserNotification {
+	userIds: string[];
+	event: string;
+	payload: Record<string, unknown>;
+}
+
+export interface RoomNotification {
+	roomId: string;
+	event: string;
+	payload: Record<string, unknown>;
+}
+
+export interface AppliedOperations {
+	roomId: string;
+	documentId: string;
+	entries: RevisionEntry[];
+}
+
+export interface ParticipantRemoval {
+	roomId: string;
+	participantId: string;
+	reason: 'kicked' | 'left';
+}
+
+export class RoomEvents extends EventEmitter {
+	/**
+	 * Deliver an event to every socket of the given users
+	 */
+	notifyUsers(userIds: string[], event: string, payload: Record<string, unknown>): void {
+		if (userIds.length === 0) {
+			return;
+		}
+		const notification: UserNotification = { userIds, event, payload };
+		this.emit('user-notification', notification);
+	}
+
+	/**
+	 * Deliver an event to every socket in a room
+	 */
+	notifyRoom(roomId: string, event: string, payload: Record<string, unknown>): void {
+		const notification: RoomNotification = { roomId, event, payload };
+		this.emit('room-notification', notification);
+	}
+
+	/**
+	 * A participant's role or details changed; connected sockets must stop using the old row
+	 */
+	participantUpdated(participant: Participant): void {
+		this.emit('participant-updated', participant);
+	}
+
+	/**
+	 * A document was replaced outside the OT engine; open copies must be reloaded
+	 */
+	documentUpdated(document: Document): void {
+		this.emit('document-updated', document);
+	}
+
+	/**
+	 * Operations were sequenced outside a socket handler; open copies must apply them
+	 */
+	operationsApplied(roomId: string, documentId: string, entries: RevisionEntry[]): void {
+		if (entries.length === 0) {
+			return;
+		}
+		const applied: AppliedOperations = { roomId, documentId, entries };
+		this.emit('operations-applied', applied);
+	}
+
+	/**
+	 * A participant was removed from a room; its sockets must leave the room
+	 */
+	participantRemoved(roomId: string, participantId: string, reason: ParticipantRemoval['reason']): void {
+		const removal: ParticipantRemoval = { roomId, participantId, reason };
+		this.emit('participant-removed', removal);
+	}
+}
+
+/**
+ * Socket.IO room that holds every socket of a user
+ */
+export function userChannel(userId: string): string {
+	return `user:${userId}`;
+}
+
+/**
+ * Socket.IO room that holds every socket with a document open
+ */
+export function documentChannel(documentId: string): string {
+	return `document:${documentId}`;
+}
+
+// Export singleton instance
+export const roomEvents = new RoomEvents();
@@ -0,0 +1,52 @@
+/**
+ * Signed room invite tokens
+ *
+ * A token is a JWT naming an invite row and its room. The signature proves the
+ * server issued the token; the `room_invites` row decides whether it can still
+ * be redeemed (revocation, expiry and remaining uses).
+ */
+
+import jwt from 'jsonwebtoken';
+
+export interface InviteTokenPayload {
+	inviteId: string;
+	roomId: string;
+}
+
+const INVITE_TOKEN_SECRET = process.env.INVITE_TOKEN_SECRET || process.env.JWT_SECRET;
+const INVITE_TOKEN_AUDIENCE = 'room-invite';
+
+if (!INVITE_TOKEN_SECRET) {
+	throw new Error('Missing INVITE_TOKEN_SECRET or JWT_SECRET environment variable');
+}
+
+/**
+ * Sign a token for an invite that stops verifying once the invite expires
+ */
+export function createInviteToken(inviteId: string, roomId: string, expiresAt: Date): string {
+	return jwt.sign({ room: roomId }, INVITE_TOKEN_SECRET, {
+		subject: inviteId,
+		audience: INVITE_TOKEN_AUDIENCE,
+		expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+	});
+}
+
+/**
+ * Verify an invite token. Returns null for tokens that are forged, malformed or expired.
+ */
+export function verifyInviteToken(token: string): InviteTokenPayload | null {
+	try {
+		const decoded = jwt.verify(token, INVITE_TOKEN_SECRET, { audience: INVITE_TOKEN_AUDIENCE }) as jwt.JwtPayload;
+
+		if (!decoded.sub || typeof decoded.room !== 'string') {
+			return null;
+		}
+
+		return { inviteId: decoded.sub, roomId: decoded.room };
+	} catch (error) {
+		if (error instanceof jwt.JsonWebTokenError) {
+			return null;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,56 @@
+/**
+ * Socket.IO adapter broadcasting through the pub/sub adapter
+ *
+ * Builds on the cluster adapter shipped with socket.io-adapter, so room
+ * broadcasts, `fetchSockets()` and socket joins/leaves reach every instance.
+ * Messages are JSON encoded; binary payloads are not supported.
+ */
+
+import { ClusterAdapterWithHeartbeat, ClusterAdapterOptions, ClusterMessage, ClusterResponse, Offset, ServerId } from 'socket.io-adapter';
+import { PubSubAdapter, PubSubHandler } from './pubsub';
+
+class PubSubClusterAdapter extends ClusterAdapterWithHeartbeat {
+	private readonly channel: string;
+	private readonly onPubSubMessage: PubSubHandler;
+	private readonly onPubSubResponse: PubSubHandler;
+
+	constructor(nsp: any, private readonly pubsub: PubSubAdapter, opts: ClusterAdapterOptions) {
+		super(nsp, opts);
+		this.channel = `socket.io#${nsp.name}`;
+
+		this.onPubSubMessage = (message: ClusterMessage) => this.onMessage(message);
+		this.onPubSubResponse = (response: ClusterResponse) => this.onResponse(response);
+
+		pubsub.subscribe(this.channel, this.onPubSubMessage);
+		pubsub.subscribe(this.responseChannel(this.uid), this.onPubSubResponse);
+	}
+
+	protected async doPublish(message: ClusterMessage): Promise<Offset> {
+		await this.pubsub.publish(this.channel, message);
+		// Offsets are only needed for connection state recovery, which is not supported
+		return '';
+	}
+
+	protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+		await this.pubsub.publish(this.responseChannel(requesterUid), response);
+	}
+
+	close(): void {
+		super.close();
+		this.pubsub.unsubscribe(this.channel, this.onPubSubMessage);
+		this.pubsub.unsubscribe(this.responseChannel(this.uid), this.onPubSubResponse);
+	}
+
+	private responseChannel(uid: ServerId): string {
+		return `${this.channel}#${uid}`;
+	}
+}
+
+/**
+ * Create a Socket.IO adapter factory for `io.adapter()`
+ */
+export function createClusterAdapter(pubsub: PubSubAdapter, opts: ClusterAdapterOptions = {}) {
+	return function (nsp: any) {
+		return new PubSubClusterAdapter(nsp, pubsub, opts);
+	};
+}
@@ -0,0 +1,287 @@
+/**
+ * Socket.IO collaboration protocol
+ *
+ * Payload schemas for every client → server event, and the shapes of the
+ * frames the server sends back. Every client event may pass an
+ * acknowledgement callback, which receives `{ success: true, ... }` or an
+ * error frame. Failures of events sent without a callback are reported on
+ * the `error` event instead.
+ */
+
+import { z } from 'zod';
+import { supabase, Document, Participant, Room, SupabaseError } from './supabase';
+import type { TextOperation } from './operational-transform';
+import type { RevisionEntry } from './ot-server';
+import { textOperationListSchema } from './operation-log';
+
+// Upper bound for the components of a single operation
+const MAX_OPERATION_COMPONENTS = 10000;
+// Upper bound for the unacknowledged operations a resuming client reports
+const MAX_RESUME_PENDING = 100;
+
+const uuid = z.string().uuid();
+
+const operationSchema = textOperationListSchema.max(MAX_OPERATION_COMPONENTS);
+
+const cursorPositionSchema = z.object({
+	line: z.number().int().min(0),
+	character: z.number().int().min(0),
+});
+
+const selectionSchema = z.object({
+	start: cursorPositionSchema,
+	end: cursorPositionSchema,
+});
+
+// Room events accept the room id alone or wrapped in an object
+const roomTargetSchema = z.union([
+	uuid.transform(roomId => ({ roomId })),
+	z.object({ roomId: uuid }),
+]);
+
+const documentTargetSchema = z.object({
+	roomId: uuid,
+	documentId: uuid,
+});
+
+export const clientEventSchemas = {
+	'join-room': roomTargetSchema,
+	'leave-room': roomTargetSchema,
+	'document-open': documentTargetSchema,
+	'document-close': documentTargetSchema,
+	'open-document': z.object({
+		roomId: uuid,
+		filePath: z.string().min(1),
+		content: z.string().default(''),
+		language: z.string().max(50).optional(),
+	}),
+	'operation': documentTargetSchema.extend({
+		operationId: z.string().min(1).max(100).optional(),
+		operation: operationSchema,
+		revision: z.number().int().min(0),
+		clientId: uuid,
+		clientSequence: z.number().int().min(0),
+	}),
+	'resume': documentTargetSchema.extend({
+		revision: z.number().int().min(0),
+		clientId: uuid,
+		pending: z.array(z.object({
+			clientSequence: z.number().int().min(0),
+			operation: operationSchema,
+		})).max(MAX_RESUME_PENDING).default([]),
+	}),
+	'cursor-update': documentTargetSchema.extend({
+		cursor: z.object({
+			position: cursorPositionSchema,
+			selection: selectionSchema.optional(),
+		}),
+	}),
+	'selection-update': documentTargetSchema.extend({
+		selection: selectionSchema,
+	}),
+	'presence-update': z.object({
+		roomId: uuid,
+		status: z.enum(['online', 'away', 'offline']).optional(),
+		activity: z.enum(['editing', 'viewing', 'idle']).optional(),
+		documentId: uuid.nullable().optional(),
+	}),
+	'presence-heartbeat': z.object({ roomId: uuid.optional() }).optional().transform(data => data ?? {}),
+	'sync-request': documentTargetSchema,
+	'divergence-report': documentTargetSchema.extend({
+		revision: z.number().int().min(0),
+		clientId: uuid,
+		expectedChecksum: z.string().max(128),
+		actualChecksum: z.string().max(128),
+	}),
+	'sync-report': documentTargetSchema.extend({
+		content: z.string(),
+		version: z.number().int().min(0),
+	}),
+	'ping': z.object({ timestamp: z.union([z.string(), z.number()]).optional() }).optional().transform(data => data ?? {}),
+};
+
+export type ClientEvent = keyof typeof clientEventSchemas;
+export type ClientEventPayload<E extends ClientEvent> = z.output<typeof clientEventSchemas[E]>;
+
+export interface ErrorFrame {
+	success: false;
+	event: string;
+	error: string;
+	code: string;
+	details?: unknown;
+}
+
+export interface ParticipantPayload {
+	id: string;
+	displayName: string;
+	color: string;
+	avatar?: string;
+	isOwner: boolean;
+	role: Participant['role'];
+	status: 'online' | 'idle' | 'offline';
+	lastSeen: string;
+	joinedAt: string;
+}
+
+export interface RoomPayload {
+	id: string;
+	name: string;
+	description?: string;
+	ownerId: string;
+	isPublic: boolean;
+	// 'crdt' rooms sync document content over y-websocket instead of operations
+	editingMode: Room['editing_mode'];
+	maxParticipants: number;
+	currentParticipants: number;
+	createdAt: string;
+	updatedAt: string;
+	participants: ParticipantPayload[];
+}
+
+export interface DocumentPayload {
+	id: string;
+	roomId: string;
+	content: string;
+	version: number;
+	lastModified: string;
+	language: string;
+	filePath: string;
+}
+
+export interface OperationPayload {
+	id: string;
+	type: 'text-edit';
+	documentId: string;
+	participantId: string;
+	clientId: string;
+	operation: TextOperation[];
+	timestamp: string;
+	// Server revision the operation produced
+	version: number;
+	// Checksum of the document content at `version`
+	checksum?: string;
+}
+
+export interface ParticipantLeftPayload {
+	roomId: string;
+	participantId: string;
+	participant?: ParticipantPayload;
+	reason: 'left' | 'disconnected' | 'kicked';
+}
+
+export interface DocumentOpenedPayload {
+	roomId: string;
+	documentId: string;
+	participantId: string;
+}
+
+export interface CursorPosition {
+	line: number;
+	character: number;
+}
+
+export interface CursorPayload {
+	participantId: string;
+	documentId: string;
+	position: CursorPosition;
+	selection?: {
+		start: CursorPosition;
+		end: CursorPosition;
+	};
+	color: string;
+	displayName: string;
+}
+
+// Fallback cursor color for participants without one
+const DEFAULT_COLOR = '#4ECDC4';
+
+export function toParticipantPayload(participant: Participant): ParticipantPayload {
+	return {
+		id: participant.id,
+		displayName: participant.display_name || 'Anonymous',
+		color: participant.color || DEFAULT_COLOR,
+		avatar: participant.avatar_url || undefined,
+		isOwner: participant.role === 'owner',
+		role: participant.role,
+		status: participant.presence_status === 'away' ? 'idle' : participant.presence_status,
+		lastSeen: participant.last_seen,
+		joinedAt: participant.joined_at,
+	};
+}
+
+export function toRoomPayload(room: Room, participants: Participant[]): RoomPayload {
+	return {
+		id: room.id,
+		name: room.name,
+		description: room.description || undefined,
+		ownerId: room.owner_id,
+		isPublic: room.allow_anonymous,
+		editingMode: room.editing_mode,
+		maxParticipants: room.max_participants,
+		currentParticipants: participants.length,
+		createdAt: room.created_at,
+		updatedAt: room.updated_at,
+		participants: participants.map(toParticipantPayload),
+	};
+}
+
+/**
+ * Load a room with its participants, or null when it does not exist
+ */
+export async function fetchRoomPayload(roomId: string): Promise<RoomPayload | null> {
+	const [{ data: room, error: roomError }, { data: participants, error: participantsError }] = await Promise.all([
+		supabase.from('rooms').select('*').eq('id', roomId).maybeSingle(),
+		supabase.from('participants').select('*').eq('room_id', roomId).order('joined_at', { ascending: true }),
+	]);
+
+	if (roomError || participantsError) {
+		const error = roomError || participantsError!;
+		throw new SupabaseError('Failed to fetch room', error.code, error);
+	}
+
+	return room ? toRoomPayload(room, participants || []) : null;
+}
+
+export function toDocumentPayload(
+	document: Pick<Document, 'id' | 'room_id' | 'content' | 'version' | 'updated_at' | 'language' | 'file_path'>
+): DocumentPayload {
+	return {
+		id: document.id,
+		roomId: document.room_id,
+		content: document.content,
+		version: document.version,
+		lastModified: document.updated_at,
+		language: document.language || 'plaintext',
+		filePath: document.file_path,
+	};
+}
+
+export function toOperationPayload(documentId: string, entry: RevisionEntry, id?: string): OperationPayload {
+	return {
+		id: id || `${entry.clientId}:${entry.clientSequence}`,
+		type: 'text-edit',
+		documentId,
+		participantId: entry.participantId,
+		clientId: entry.clientId,
+		operation: entry.operation,
+		timestamp: entry.timestamp,
+		version: entry.revision,
+		checksum: entry.checksum,
+	};
+}
+
+export function toCursorPayload(
+	participant: Participant,
+	documentId: string,
+	position: CursorPayload['position'],
+	selection?: CursorPayload['selection']
+): CursorPayload {
+	return {
+		participantId: participant.id,
+		documentId,
+		position,
+		selection,
+		color: participant.color || DEFAULT_COLOR,
+		displayName: participant.display_name || 'Anonymous',
+	};
+}
@@ -22,6 +22,8 @@ export interface Database {
 					expires_at: string | null
 					allow_anonymous: boolean
 					require_approval: boolean
+					guest_role: "owner" | "editor" | "viewer"
+					editing_mode: "ot" | "crdt"
 					metadata: Json
 				}
 				Insert: {
@@ -36,6 +38,8 @@ export interface Database {
 					expires_at?: string | null
 					allow_anonymous?: boolean
 					require_approval?: boolean
+					guest_role?: "owner" | "editor" | "viewer"
+					editing_mode?: "ot" | "crdt"
 					metadata?: Json
 				}
 				Update: {
@@ -50,6 +54,8 @@ export interface Database {
 					expires_at?: string | null
 					allow_anonymous?: boolean
 					require_approval?: boolean
+					guest_role?: "owner" | "editor" | "viewer"
+					editing_mode?: "ot" | "crdt"
 					metadata?: Json
 				}
 				Relationships: [
@@ -187,6 +193,8 @@ export interface Database {
 					position: number
 					length: number | null
 					content: string | null
+					components: Json
+					base_version: number | null
 					client_id: string
 					client_sequence: number
 					server_sequence: number
@@ -203,6 +211,8 @@ export interface Database {
 					position: number
 					length?: number | null
 					content?: string | null
+					components?: Json
+					base_version?: number | null
 					client_id: string
 					client_sequence: number
 					server_sequence?: number
@@ -219,6 +229,8 @@ export interface Database {
 					position?: number
 					length?: number | null
 					content?: string | null
+					components?: Json
+					base_version?: number | null
 					client_id?: string
 					client_sequence?: number
 					server_sequence?: number
@@ -244,6 +256,318 @@ export interface Database {
 					}
 				]
 			}
+			document_snapshots: {
+				Row: {
+					id: string
+					document_id: string
+					version: number
+					content: string
+					created_at: string
+					metadata: Json
+				}
+				Insert: {
+					id?: string
+					document_id: string
+					version: number
+					content: string
+					created_at?: string
+					metadata?: Json
+				}
+				Update: {
+					id?: string
+					document_id?: string
+					version?: number
+					content?: string
+					created_at?: string
+					metadata?: Json
+				}
+				Relationships: [
+					{
+						foreignKeyName: "document_snapshots_document_id_fkey"
+						columns: ["document_id"]
+						isOneToOne: false
+						referencedRelation: "documents"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			document_crdt_updates: {
+				Row: {
+					id: number
+					document_id: string
+					update: string
+					created_at: string
+				}
+				Insert: {
+					id?: number
+					document_id: string
+					update: string
+					created_at?: string
+				}
+				Update: {
+					id?: number
+					document_id?: string
+					update?: string
+					created_at?: string
+				}
+				Relationships: [
+					{
+						foreignKeyName: "document_crdt_updates_document_id_fkey"
+						columns: ["document_id"]
+						isOneToOne: false
+						referencedRelation: "documents"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			document_conflicts: {
+				Row: {
+					id: string
+					document_id: string
+					base_version: number
+					applied_version: number
+					server_operation: Json
+					server_participant_id: string | null
+					client_operation: Json
+					client_participant_id: string | null
+					client_id: string
+					status: "open" | "resolved"
+					resolution: "server" | "client" | "merged" | null
+					resolved_by: string | null
+					resolved_version: number | null
+					resolved_at: string | null
+					created_at: string
+					metadata: Json
+				}
+				Insert: {
+					id?: string
+					document_id: string
+					base_version: number
+					applied_version: number
+					server_operation: Json
+					server_participant_id?: string | null
+					client_operation: Json
+					client_participant_id?: string | null
+					client_id: string
+					status?: "open" | "resolved"
+					resolution?: "server" | "client" | "merged" | null
+					resolved_by?: string | null
+					resolved_version?: number | null
+					resolved_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Update: {
+					id?: string
+					document_id?: string
+					base_version?: number
+					applied_version?: number
+					server_operation?: Json
+					server_participant_id?: string | null
+					client_operation?: Json
+					client_participant_id?: string | null
+					client_id?: string
+					status?: "open" | "resolved"
+					resolution?: "server" | "client" | "merged" | null
+					resolved_by?: string | null
+					resolved_version?: number | null
+					resolved_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Relationships: [
+					{
+						foreignKeyName: "document_conflicts_document_id_fkey"
+						columns: ["document_id"]
+						isOneToOne: false
+						referencedRelation: "documents"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			room_invites: {
+				Row: {
+					id: string
+					room_id: string
+					created_by: string | null
+					role: "owner" | "editor" | "viewer"
+					max_uses: number | null
+					use_count: number
+					expires_at: string
+					revoked_at: string | null
+					created_at: string
+					metadata: Json
+				}
+				Insert: {
+					id?: string
+					room_id: string
+					created_by?: string | null
+					role?: "owner" | "editor" | "viewer"
+					max_uses?: number | null
+					use_count?: number
+					expires_at: string
+					revoked_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Update: {
+					id?: string
+					room_id?: string
+					created_by?: string | null
+					role?: "owner" | "editor" | "viewer"
+					max_uses?: number | null
+					use_count?: number
+					expires_at?: string
+					revoked_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Relationships: [
+					{
+						foreignKeyName: "room_invites_room_id_fkey"
+						columns: ["room_id"]
+						isOneToOne: false
+						referencedRelation: "rooms"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			join_requests: {
+				Row: {
+					id: string
+					room_id: string
+					user_id: string
+					invite_id: string | null
+					role: "owner" | "editor" | "viewer"
+					display_name: string | null
+					status: "pending" | "approved" | "denied"
+					decided_by: string | null
+					decided_at: string | null
+					created_at: string
+					metadata: Json
+				}
+				Insert: {
+					id?: string
+					room_id: string
+					user_id: string
+					invite_id?: string | null
+					role?: "owner" | "editor" | "viewer"
+					display_name?: string | null
+					status?: "pending" | "approved" | "denied"
+					decided_by?: string | null
+					decided_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Update: {
+					id?: string
+					room_id?: string
+					user_id?: string
+					invite_id?: string | null
+					role?: "owner" | "editor" | "viewer"
+					display_name?: string | null
+					status?: "pending" | "approved" | "denied"
+					decided_by?: string | null
+					decided_at?: string | null
+					created_at?: string
+					metadata?: Json
+				}
+				Relationships: [
+					{
+						foreignKeyName: "join_requests_room_id_fkey"
+						columns: ["room_id"]
+						isOneToOne: false
+						referencedRelation: "rooms"
+						referencedColumns: ["id"]
+					},
+					{
+						foreignKeyName: "join_requests_invite_id_fkey"
+						columns: ["invite_id"]
+						isOneToOne: false
+						referencedRelation: "room_invites"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			document_permissions: {
+				Row: {
+					id: string
+					room_id: string
+					created_by: string | null
+					document_id: string | null
+					path_pattern: string | null
+					participant_id: string | null
+					role: "owner" | "editor" | "viewer" | null
+					access: "none" | "read" | "write"
+					created_at: string
+					metadata: Json
+				}
+				Insert: {
+					id?: string
+					room_id: string
+					created_by?: string | null
+					document_id?: string | null
+					path_pattern?: string | null
+					participant_id?: string | null
+					role?: "owner" | "editor" | "viewer" | null
+					access: "none" | "read" | "write"
+					created_at?: string
+					metadata?: Json
+				}
+				Update: {
+					id?: string
+					room_id?: string
+					created_by?: string | null
+					document_id?: string | null
+					path_pattern?: string | null
+					participant_id?: string | null
+					role?: "owner" | "editor" | "viewer" | null
+					access?: "none" | "read" | "write"
+					created_at?: string
+					metadata?: Json
+				}
+				Relationships: [
+					{
+						foreignKeyName: "document_permissions_room_id_fkey"
+						columns: ["room_id"]
+						isOneToOne: false
+						referencedRelation: "rooms"
+						referencedColumns: ["id"]
+					},
+					{
+						foreignKeyName: "document_permissions_document_id_fkey"
+						columns: ["document_id"]
+						isOneToOne: false
+						referencedRelation: "documents"
+						referencedColumns: ["id"]
+					},
+					{
+						foreignKeyName: "document_permissions_participant_id_fkey"
+						columns: ["participant_id"]
+						isOneToOne: false
+						referencedRelation: "participants"
+						referencedColumns: ["id"]
+					}
+				]
+			}
+			pubsub_attachments: {
+				Row: {
+					id: number
+					payload: string
+					created_at: string
+				}
+				Insert: {
+					id?: number
+					payload: string
+					created_at?: string
+				}
+				Update: {
+					id?: number
+					payload?: string
+					created_at?: string
+				}
+				Relationships: []
+			}
 			cursors: {
 				Row: {
 					id: string
@@ -383,18 +707,43 @@ export interface Database {
 				}
 				Returns: undefined
 			}
+			redeem_room_invite: {
+				Args: {
+					p_invite_id: string
+					p_room_id: string
+				}
+				Returns: "owner" | "editor" | "viewer" | null
+			}
+			release_room_invite: {
+				Args: {
+					p_invite_id: string
+				}
+				Returns: undefined
+			}
+			transfer_room_ownership: {
+				Args: {
+					p_room_id: string
+					p_from_participant_id: string
+					p_to_participant_id: string
+				}
+				Returns: Database["public"]["Tables"]["rooms"]["Row"][]
+			}
 			apply_operation: {
 				Args: {
 					p_document_id: string
 					p_participant_id: string
-					p_operation_type: "insert" | "delete" | "retain" | "cursor_move" | "selection_change"
-					p_position: number
-					p_length?: number | null
-					p_content?: string | null
-					p_client_id?: string | null
-					p_client_sequence?: number
+					p_components: Json
+					p_base_version: number
+					p_client_id: string
+					p_client_sequence: number
+					p_timestamp?: string
+					p_metadata?: Json
 				}
-				Returns: string
+				Returns: {
+					applied: boolean
+					new_version: number
+					new_server_sequence: number | null
+				}[]
 			}
 			update_cursor_position: {
 				Args: {
@@ -417,6 +766,7 @@ export interface Database {
 			participant_role: "owner" | "editor" | "viewer"
 			presence_status: "online" | "away" | "offline"
 			operation_type: "insert" | "delete" | "retain" | "cursor_move" | "selection_change"
+			editing_mode: "ot" | "crdt"
 		}
 		CompositeTypes: {
 			[_ in never]: never
@@ -518,6 +868,18 @@ export type Operation = Tables<'operations'>
 export type OperationInsert = TablesInsert<'operations'>
 export type OperationUpdate = TablesUpdate<'operations'>
 
+export type DocumentSnapshot = Tables<'document_snapshots'>
+export type DocumentSnapshotInsert = TablesInsert<'document_snapshots'>
+export type DocumentSnapshotUpdate = TablesUpdate<'document_snapshots'>
+
+export type RoomInvite = Tables<'room_invites'>
+export type RoomInviteInsert = TablesInsert<'room_invites'>
+export type RoomInviteUpdate = TablesUpdate<'room_invites'>
+
+export type JoinRequest = Tables<'join_requests'>
+export type JoinRequestInsert = TablesInsert<'join_requests'>
+export type JoinRequestUpdate = TablesUpdate<'join_requests'>
+
 export type Cursor = Tables<'cursors'>
 export type CursorInsert = TablesInsert<'cursors'>
 export type CursorUpdate = TablesUpdate<'cursors'>
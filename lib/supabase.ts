@@ -46,7 +46,7 @@ export const supabaseAdmin: SupabaseClient<Database> | null = supabaseServiceRol
 	: null;
 
 // Type exports for use throughout the application
-export type { Database } from './supabase-types';
+export type { Database, Json } from './supabase-types';
 
 // Helper type aliases for easier access
 export type Tables = Database['public']['Tables'];
@@ -69,6 +69,29 @@ export type Operation = Database['public']['Tables']['operations']['Row'];
 export type OperationInsert = Database['public']['Tables']['operations']['Insert'];
 export type OperationUpdate = Database['public']['Tables']['operations']['Update'];
 
+export type DocumentSnapshot = Database['public']['Tables']['document_snapshots']['Row'];
+export type DocumentSnapshotInsert = Database['public']['Tables']['document_snapshots']['Insert'];
+export type DocumentSnapshotUpdate = Database['public']['Tables']['document_snapshots']['Update'];
+
+export type DocumentCrdtUpdate = Database['public']['Tables']['document_crdt_updates']['Row'];
+export type DocumentCrdtUpdateInsert = Database['public']['Tables']['document_crdt_updates']['Insert'];
+
+export type DocumentConflict = Database['public']['Tables']['document_conflicts']['Row'];
+export type DocumentConflictInsert = Database['public']['Tables']['document_conflicts']['Insert'];
+export type DocumentConflictUpdate = Database['public']['Tables']['document_conflicts']['Update'];
+
+export type RoomInvite = Database['public']['Tables']['room_invites']['Row'];
+export type RoomInviteInsert = Database['public']['Tables']['room_invites']['Insert'];
+export type RoomInviteUpdate = Database['public']['Tables']['room_invites']['Update'];
+
+export type JoinRequest = Database['public']['Tables']['join_requests']['Row'];
+export type JoinRequestInsert = Database['public']['Tables']['join_requests']['Insert'];
+export type JoinRequestUpdate = Database['public']['Tables']['join_requests']['Update'];
+
+export type DocumentPermission = Database['public']['Tables']['document_permissions']['Row'];
+export type DocumentPermissionInsert = Database['public']['Tables']['document_permissions']['Insert'];
+export type DocumentPermissionUpdate = Database['public']['Tables']['document_permissions']['Update'];
+
 export type Cursor = Database['public']['Tables']['cursors']['Row'];
 export type CursorInsert = Database['public']['Tables']['cursors']['Insert'];
 export type CursorUpdate = Database['public']['Tables']['cursors']['Update'];
@@ -82,6 +105,7 @@ export type RoomStatus = Database['public']['Enums']['room_status'];
 export type ParticipantRole = Database['public']['Enums']['participant_role'];
 export type PresenceStatus = Database['public']['Enums']['presence_status'];
 export type OperationType = Database['public']['Enums']['operation_type'];
+export type EditingMode = Database['public']['Enums']['editing_mode'];
 
 // Utility functions
 export function getSupabaseClient(authToken?: string): SupabaseClient<Database> {
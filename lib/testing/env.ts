@@ -0,0 +1,7 @@
+/**
+ * Environment for tests; import before any module that reads it at load time
+ */
+
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
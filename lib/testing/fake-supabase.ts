@@ -0,0 +1,273 @@
+/**
+ * In-memory stand-in for the Supabase client in tests
+ *
+ * Supports the query builder calls the server makes (filters, ordering,
+ * single rows, inserts and updates) against plain arrays of rows, and the
+ * database functions registered with `defineFunction`. Embedded selects such
+ * as `rooms!inner(editing_mode)` are not resolved; seed rows with the
+ * embedded object instead.
+ */
+
+import { randomUUID } from 'crypto';
+import { supabase } from '../supabase';
+import { padTextOperation, applyOperationToText, TextOperation } from '../operational-transform';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+	data: any;
+	error: { code: string; message: string } | null;
+}
+
+export type FakeFunction = (database: FakeDatabase, args: Record<string, any>) => QueryResult;
+
+export class FakeDatabase {
+	readonly tables = new Map<string, Row[]>();
+	private functions = new Map<string, FakeFunction>();
+	private originals?: { from: unknown; rpc: unknown };
+
+	constructor() {
+		this.defineFunction('apply_operation', applyOperation);
+	}
+
+	table(name: string): Row[] {
+		let rows = this.tables.get(name);
+		if (!rows) {
+			rows = [];
+			this.tables.set(name, rows);
+		}
+		return rows;
+	}
+
+	seed(name: string, rows: Row[]): void {
+		this.table(name).push(...rows.map(row => ({ ...row })));
+	}
+
+	defineFunction(name: string, fn: FakeFunction): void {
+		this.functions.set(name, fn);
+	}
+
+	/**
+	 * Route the shared Supabase client to this database until `uninstall`
+	 */
+	install(): void {
+		const client = supabase as any;
+		this.originals = { from: client.from, rpc: client.rpc };
+		client.from = (name: string) => new FakeQuery(this, name);
+		client.rpc = (name: string, args: Record<string, any>) => {
+			const fn = this.functions.get(name);
+			if (!fn) {
+				throw new Error(`Fake database function not defined: ${name}`);
+			}
+			return new FakeQuery(this, null, () => fn(this, args));
+		};
+	}
+
+	uninstall(): void {
+		if (this.originals) {
+			Object.assign(supabase as any, this.originals);
+			this.originals = undefined;
+		}
+	}
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+	private filters: Filter[] = [];
+	private orderBy?: { column: string; ascending: boolean };
+	private maxRows?: number;
+	private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+	private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+	private values?: Row | Row[];
+
+	constructor(
+		private readonly database: FakeDatabase,
+		private readonly tableName: string | null,
+		private readonly call?: () => QueryResult
+	) {}
+
+	select(): this {
+		return this;
+	}
+
+	insert(values: Row | Row[]): this {
+		this.action = 'insert';
+		this.values = values;
+		return this;
+	}
+
+	update(values: Row): this {
+		this.action = 'update';
+		this.values = values;
+		return this;
+	}
+
+	delete(): this {
+		this.action = 'delete';
+		return this;
+	}
+
+	eq(column: string, value: unknown): this {
+		return this.where(row => row[column] === value);
+	}
+
+	neq(column: string, value: unknown): this {
+		return this.where(row => row[column] !== value);
+	}
+
+	gt(column: string, value: any): this {
+		return this.where(row => row[column] > value);
+	}
+
+	gte(column: string, value: any): this {
+		return this.where(row => row[column] >= value);
+	}
+
+	lt(column: string, value: any): this {
+		return this.where(row => row[column] < value);
+	}
+
+	lte(column: string, value: any): this {
+		return this.where(row => row[column] <= value);
+	}
+
+	in(column: string, values: unknown[]): this {
+		return this.where(row => values.includes(row[column]));
+	}
+
+	is(column: string, value: unknown): this {
+		return this.where(row => (row[column] ?? null) === value);
+	}
+
+	not(column: string, operator: string, value: unknown): this {
+		if (operator !== 'is') {
+			throw new Error(`Fake query does not support not.${operator}`);
+		}
+		return this.where(row => (row[column] ?? null) !== value);
+	}
+
+	order(column: string, options: { ascending?: boolean } = {}): this {
+		this.orderBy = { column, ascending: options.ascending !== false };
+		return this;
+	}
+
+	limit(count: number): this {
+		this.maxRows = count;
+		return this;
+	}
+
+	single(): this {
+		this.mode = 'single';
+		return this;
+	}
+
+	maybeSingle(): this {
+		this.mode = 'maybeSingle';
+		return this;
+	}
+
+	then<TResult1 = QueryResult, TResult2 = never>(
+		onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+		onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+	): PromiseLike<TResult1 | TResult2> {
+		return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+	}
+
+	private where(filter: Filter): this {
+		this.filters.push(filter);
+		return this;
+	}
+
+	private execute(): QueryResult {
+		if (this.call) {
+			return this.shape(this.call());
+		}
+
+		const table = this.database.table(this.tableName!);
+		let rows: Row[];
+
+		switch (this.action) {
+			case 'insert': {
+				const values = Array.isArray(this.values) ? this.values : [this.values!];
+				rows = values.map(value => ({ id: randomUUID(), created_at: new Date().toISOString(), ...value }));
+				table.push(...rows);
+				break;
+			}
+			case 'update':
+				rows = table.filter(row => this.matches(row));
+				rows.forEach(row => Object.assign(row, this.values));
+				break;
+			case 'delete':
+				rows = table.filter(row => this.matches(row));
+				this.database.tables.set(this.tableName!, table.filter(row => !rows.includes(row)));
+				break;
+			default:
+				rows = table.filter(row => this.matches(row));
+		}
+
+		if (this.orderBy) {
+			const { column, ascending } = this.orderBy;
+			rows = rows.slice().sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+		}
+		if (this.maxRows !== undefined) {
+			rows = rows.slice(0, this.maxRows);
+		}
+
+		return this.shape({ data: rows.map(row => ({ ...row })), error: null });
+	}
+
+	private matches(row: Row): boolean {
+		return this.filters.every(filter => filter(row));
+	}
+
+	private shape(result: QueryResult): QueryResult {
+		if (result.error || this.mode === 'many') {
+			return result;
+		}
+
+		const rows: Row[] = Array.isArray(result.data) ? result.data : [result.data];
+		if (rows.length > 1 || (rows.length === 0 && this.mode === 'single')) {
+			return { data: null, error: { code: 'PGRST116', message: `Expected a single row, got ${rows.length}` } };
+		}
+		return { data: rows[0] ?? null, error: null };
+	}
+}
+
+/**
+ * The `apply_operation` database function: apply on top of `p_base_version` or report the current version
+ */
+function applyOperation(database: FakeDatabase, args: Record<string, any>): QueryResult {
+	const document = database.table('documents').find(row => row.id === args.p_document_id);
+	if (!document) {
+		return { data: null, error: { code: 'P0002', message: 'Document not found' } };
+	}
+
+	if (document.version !== args.p_base_version) {
+		return { data: [{ applied: false, new_version: document.version, new_server_sequence: null }], error: null };
+	}
+
+	const operation = padTextOperation(args.p_components as TextOperation[], document.content.length);
+	document.content = applyOperationToText(document.content, operation);
+	document.version++;
+
+	const operations = database.table('operations');
+	const serverSequence = operations.length + 1;
+	operations.push({
+		id: randomUUID(),
+		document_id: args.p_document_id,
+		participant_id: args.p_participant_id,
+		operation_type: 'retain',
+		position: 0,
+		content: null,
+		length: 0,
+		components: args.p_components,
+		base_version: args.p_base_version,
+		client_id: args.p_client_id,
+		client_sequence: args.p_client_sequence,
+		server_sequence: serverSequence,
+		timestamp: args.p_timestamp,
+		metadata: args.p_metadata,
+	});
+
+	return { data: [{ applied: true, new_version: document.version, new_server_sequence: serverSequence }], error: null };
+}
@@ -0,0 +1,14 @@
+/**
+ * Length of the longest common subsequence, by dynamic programming; the reference for minimal diffs
+ */
+export function lcsLength<T>(a: ArrayLike<T>, b: ArrayLike<T>): number {
+	let previous = new Array<number>(b.length + 1).fill(0);
+	for (let i = 1; i <= a.length; i++) {
+		const current = new Array<number>(b.length + 1).fill(0);
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = a[i - 1] === b[j - 1] ? previous[j - 1]! + 1 : Math.max(previous[j]!, current[j - 1]!);
+		}
+		previous = current;
+	}
+	return previous[b.length]!;
+}
@@ -0,0 +1,62 @@
+/**
+ * Shared setup for tests of the OT engine against the fake database
+ */
+
+import { beforeEach, afterEach } from 'node:test';
+import { randomUUID } from 'crypto';
+import { FakeDatabase } from './fake-supabase';
+import { OTServer, ClientOperation } from '../ot-server';
+
+export const roomId = randomUUID();
+export const documentId = randomUUID();
+export const participantId = randomUUID();
+
+export interface OTServerFixture {
+	database: FakeDatabase;
+	server: OTServer;
+}
+
+/**
+ * Build an operation on the test document from a fresh client
+ */
+export function clientOperation(overrides: Partial<ClientOperation>): ClientOperation {
+	return {
+		documentId,
+		roomId,
+		participantId,
+		clientId: randomUUID(),
+		clientSequence: 0,
+		baseRevision: 1,
+		operation: [],
+		...overrides,
+	};
+}
+
+/**
+ * Give each test of the suite a new database holding the test document,
+ * "hello" at version 1, and an OT server working on it
+ */
+export function useOTServer(): OTServerFixture {
+	const fixture = {} as OTServerFixture;
+
+	beforeEach(() => {
+		fixture.database = new FakeDatabase();
+		fixture.database.seed('documents', [{
+			id: documentId,
+			room_id: roomId,
+			content: 'hello',
+			version: 1,
+			rooms: { editing_mode: 'ot' },
+		}]);
+		fixture.database.seed('document_snapshots', [{ document_id: documentId, version: 1, content: 'hello' }]);
+		fixture.database.install();
+		fixture.server = new OTServer();
+	});
+
+	afterEach(() => {
+		fixture.server.dispose();
+		fixture.database.uninstall();
+	});
+
+	return fixture;
+}
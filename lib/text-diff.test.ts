@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import { DiffRun, createUnifiedDiff, diffSequences } from './text-diff';
+import { lcsLength } from './testing/lcs';
+
+/**
+ * Rebuild the second sequence from the first and the runs between them
+ */
+function applyRuns<T>(a: ArrayLike<T>, b: ArrayLike<T>, runs: DiffRun[]): T[] {
+	const result: T[] = [];
+	let aIndex = 0;
+	let bIndex = 0;
+	for (const run of runs) {
+		for (let i = 0; i < run.count; i++) {
+			if (run.type === 'equal') {
+				assert.equal(a[aIndex], b[bIndex]);
+				result.push(a[aIndex++]!);
+				bIndex++;
+			} else if (run.type === 'delete') {
+				aIndex++;
+			} else {
+				result.push(b[bIndex++]!);
+			}
+		}
+	}
+	assert.equal(aIndex, a.length);
+	return result;
+}
+
+// Few distinct items, so sequences share a lot
+const itemArbitrary = fc.constantFrom('a', 'b', 'c');
+
+describe('diffSequences', () => {
+	it('turns the first sequence into the second', () => {
+		fc.assert(fc.property(fc.array(itemArbitrary, { maxLength: 30 }), fc.array(itemArbitrary, { maxLength: 30 }), (a, b) => {
+			assert.deepEqual(applyRuns(a, b, diffSequences(a, b)!), b);
+		}));
+	});
+
+	it('edits no more than the longest common subsequence requires', () => {
+		fc.assert(fc.property(fc.array(itemArbitrary, { maxLength: 30 }), fc.array(itemArbitrary, { maxLength: 30 }), (a, b) => {
+			const cost = diffSequences(a, b)!
+				.filter(run => run.type !== 'equal')
+				.reduce((total, run) => total + run.count, 0);
+			assert.equal(cost, a.length + b.length - 2 * lcsLength(a, b));
+		}));
+	});
+
+	it('gives up beyond the maximum cost', () => {
+		assert.equal(diffSequences('abc', 'xyz', 5), null);
+		assert.ok(diffSequences('abc', 'xyz', 6));
+	});
+});
+
+describe('createUnifiedDiff', () => {
+	it('shows changed lines with their context', () => {
+		const diff = createUnifiedDiff('a\nb\nc\nd\n', 'a\nB\nc\nd\n', { context: 1 });
+		assert.equal(diff, '--- a\n+++ b\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+	});
+
+	it('replaces the whole text in one hunk when the diff would cost too much', () => {
+		const diff = createUnifiedDiff('a\nb\nc\n', 'x\nb\ny\n', { maxCost: 1 });
+		assert.equal(diff, '--- a\n+++ b\n@@ -1,3 +1,3 @@\n-a\n-b\n-c\n+x\n+b\n+y\n');
+	});
+});
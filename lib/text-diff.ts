@@ -0,0 +1,292 @@
+/**
+ * Text diffing based on Myers' O(ND) difference algorithm
+ * Used for unified diffs in document history and for building text operations
+ */
+
+export interface DiffRun {
+	type: 'equal' | 'insert' | 'delete';
+	count: number;
+}
+
+export interface UnifiedDiffOptions {
+	oldLabel?: string;
+	newLabel?: string;
+	context?: number;
+	// Changed lines beyond which the whole text is shown as replaced
+	maxCost?: number;
+}
+
+// Backtracking keeps every step of the search, so memory grows with the square of the changed lines
+const MAX_UNIFIED_DIFF_COST = 2000;
+
+interface DiffLine {
+	type: 'equal' | 'insert' | 'delete';
+	text: string;
+	oldLine: number;
+	newLine: number;
+}
+
+/**
+ * Compute the shortest edit script between two sequences as runs of
+ * equal/insert/delete items. Returns null when more than `maxCost` edits
+ * would be needed, so callers can fall back to a cheaper strategy.
+ */
+export function diffSequences<T>(
+	a: ArrayLike<T>,
+	b: ArrayLike<T>,
+	maxCost: number = Infinity
+): DiffRun[] | null {
+	// Trim the common prefix and suffix, which is where most edits leave text untouched
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const middle = myers(
+		sliceLike(a, prefix, a.length - suffix),
+		sliceLike(b, prefix, b.length - suffix),
+		maxCost
+	);
+
+	if (!middle) {
+		return null;
+	}
+
+	const runs: DiffRun[] = [];
+	pushRun(runs, 'equal', prefix);
+	for (const run of middle) {
+		pushRun(runs, run.type, run.count);
+	}
+	pushRun(runs, 'equal', suffix);
+
+	return runs;
+}
+
+/**
+ * Create a unified diff (as produced by `diff -u`) between two texts
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+	const context = options.context ?? 3;
+	const oldLines = splitLines(oldText);
+	const newLines = splitLines(newText);
+	// Past the cost cap the whole text becomes a single replacing hunk
+	const runs = diffSequences(oldLines, newLines, options.maxCost ?? MAX_UNIFIED_DIFF_COST)
+		|| replaceAll(oldLines.length, newLines.length);
+
+	// Expand runs into individual lines with their line numbers
+	const lines: DiffLine[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	for (const run of runs) {
+		for (let i = 0; i < run.count; i++) {
+			if (run.type === 'equal') {
+				lines.push({ type: 'equal', text: oldLines[oldIndex]!, oldLine: oldIndex++, newLine: newIndex++ });
+			} else if (run.type === 'delete') {
+				lines.push({ type: 'delete', text: oldLines[oldIndex]!, oldLine: oldIndex++, newLine: newIndex });
+			} else {
+				lines.push({ type: 'insert', text: newLines[newIndex]!, oldLine: oldIndex, newLine: newIndex++ });
+			}
+		}
+	}
+
+	// Group changed lines into hunks, merging hunks whose context would overlap
+	const hunks: Array<{ start: number; end: number }> = [];
+	for (let i = 0; i < lines.length; i++) {
+		if (lines[i]!.type === 'equal') {
+			continue;
+		}
+
+		const start = Math.max(0, i - context);
+		const last = hunks[hunks.length - 1];
+		if (last && start <= last.end) {
+			last.end = Math.min(lines.length, i + context + 1);
+		} else {
+			hunks.push({ start, end: Math.min(lines.length, i + context + 1) });
+		}
+	}
+
+	if (hunks.length === 0) {
+		return '';
+	}
+
+	const output = [
+		`--- ${options.oldLabel || 'a'}`,
+		`+++ ${options.newLabel || 'b'}`,
+	];
+
+	for (const hunk of hunks) {
+		const hunkLines = lines.slice(hunk.start, hunk.end);
+		const oldCount = hunkLines.filter(line => line.type !== 'insert').length;
+		const newCount = hunkLines.filter(line => line.type !== 'delete').length;
+		const first = hunkLines[0]!;
+		// Empty ranges point at the line before them, as in GNU diff
+		const oldStart = oldCount === 0 ? first.oldLine : first.oldLine + 1;
+		const newStart = newCount === 0 ? first.newLine : first.newLine + 1;
+
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		for (const line of hunkLines) {
+			const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+			output.push(`${marker}${line.text}`);
+		}
+	}
+
+	return output.join('\n') + '\n';
+}
+
+/**
+ * Split text into lines without their line terminators
+ */
+export function splitLines(text: string): string[] {
+	if (text.length === 0) {
+		return [];
+	}
+
+	const lines = text.split('\n');
+	// A trailing newline terminates the last line rather than starting a new one
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Myers' greedy forward algorithm, keeping the frontier of every step for backtracking
+ */
+function myers<T>(a: ArrayLike<T>, b: ArrayLike<T>, maxCost: number): DiffRun[] | null {
+	const n = a.length;
+	const m = b.length;
+
+	if (n === 0 || m === 0) {
+		return replaceAll(n, m);
+	}
+
+	const limit = Math.min(n + m, maxCost);
+	// trace[d][k + d] is the furthest x reached on diagonal k after d edits, or -1
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= limit; d++) {
+		const frontier = new Int32Array(2 * d + 1).fill(-1);
+
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (d === 0) {
+				x = 0;
+			} else {
+				const step = chooseStep(trace[d - 1]!, d, k, n, m);
+				if (!step) {
+					continue;
+				}
+				x = step.x;
+			}
+
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			frontier[k + d] = x;
+
+			if (x >= n && y >= m) {
+				trace.push(frontier);
+				return backtrack(trace, n, m);
+			}
+		}
+
+		trace.push(frontier);
+	}
+
+	return null;
+}
+
+/**
+ * Pick the predecessor for diagonal k at step d: an insertion (moving down from
+ * k + 1) or a deletion (moving right from k - 1), staying inside the edit graph
+ */
+function chooseStep(
+	previous: Int32Array,
+	d: number,
+	k: number,
+	n: number,
+	m: number
+): { x: number; down: boolean } | null {
+	const prevDown = k + 1 <= d - 1 ? previous[k + 1 + d - 1]! : -1;
+	const prevRight = k - 1 >= -(d - 1) ? previous[k - 1 + d - 1]! : -1;
+
+	const downValid = prevDown >= 0 && prevDown - k <= m;
+	const rightValid = prevRight >= 0 && prevRight + 1 <= n;
+
+	if (downValid && (!rightValid || prevRight < prevDown)) {
+		return { x: prevDown, down: true };
+	}
+	if (rightValid) {
+		return { x: prevRight + 1, down: false };
+	}
+	return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffRun[] {
+	const reversed: DiffRun[] = [];
+	let x = n;
+	let y = m;
+
+	for (let d = trace.length - 1; d > 0; d--) {
+		const k = x - y;
+		const step = chooseStep(trace[d - 1]!, d, k, n, m)!;
+		const snake = x - step.x;
+
+		pushRun(reversed, 'equal', snake);
+		if (step.down) {
+			pushRun(reversed, 'insert', 1);
+			x = step.x;
+			y = step.x - k - 1;
+		} else {
+			pushRun(reversed, 'delete', 1);
+			x = step.x - 1;
+			y = step.x - k;
+		}
+	}
+
+	pushRun(reversed, 'equal', x);
+
+	const runs: DiffRun[] = [];
+	for (let i = reversed.length - 1; i >= 0; i--) {
+		pushRun(runs, reversed[i]!.type, reversed[i]!.count);
+	}
+	return runs;
+}
+
+function replaceAll(oldCount: number, newCount: number): DiffRun[] {
+	const runs: DiffRun[] = [];
+	pushRun(runs, 'delete', oldCount);
+	pushRun(runs, 'insert', newCount);
+	return runs;
+}
+
+function pushRun(runs: DiffRun[], type: DiffRun['type'], count: number): void {
+	if (count <= 0) {
+		return;
+	}
+
+	const last = runs[runs.length - 1];
+	if (last && last.type === type) {
+		last.count += count;
+	} else {
+		runs.push({ type, count });
+	}
+}
+
+function sliceLike<T>(items: ArrayLike<T>, start: number, end: number): ArrayLike<T> {
+	if (typeof items === 'string') {
+		return (items as string).slice(start, end) as unknown as ArrayLike<T>;
+	}
+	return Array.prototype.slice.call(items, start, end);
+}
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UndoManager } from './undo-manager';
+import { TextOperation, TextOperationBuilder, applyOperationToText } from './operational-transform';
+
+/**
+ * A document with one participant's undo history, receiving edits from others
+ */
+class Editor {
+	readonly history = new UndoManager();
+
+	constructor(public text: string) {}
+
+	local(operation: TextOperation[]): void {
+		this.history.record(operation, this.text);
+		this.text = applyOperationToText(this.text, operation);
+	}
+
+	remote(operation: TextOperation[]): void {
+		this.history.transform(operation);
+		this.text = applyOperationToText(this.text, operation);
+	}
+
+	undo(): void {
+		const operation = this.history.undo(this.text);
+		assert.ok(operation);
+		this.text = applyOperationToText(this.text, operation);
+	}
+
+	redo(): void {
+		const operation = this.history.redo(this.text);
+		assert.ok(operation);
+		this.text = applyOperationToText(this.text, operation);
+	}
+}
+
+describe('UndoManager', () => {
+	it('undoes and redoes a local edit around a remote insert', () => {
+		const editor = new Editor('hello');
+		editor.local(new TextOperationBuilder().retain(5).insert(' world').build());
+		editor.remote(new TextOperationBuilder().insert('>> ').retain(11).build());
+
+		editor.undo();
+		assert.equal(editor.text, '>> hello');
+		editor.redo();
+		assert.equal(editor.text, '>> hello world');
+	});
+
+	it('keeps a remote delete when undoing and redoing several local edits', () => {
+		const editor = new Editor('abc');
+		editor.local(new TextOperationBuilder().retain(1).insert('X').retain(2).build());
+		editor.local(new TextOperationBuilder().retain(4).insert('Y').build());
+		// Someone else removes the "b"
+		editor.remote(new TextOperationBuilder().retain(2).delete(1).retain(2).build());
+		assert.equal(editor.text, 'aXcY');
+
+		editor.undo();
+		assert.equal(editor.text, 'aXc');
+		editor.undo();
+		assert.equal(editor.text, 'ac');
+		assert.equal(editor.history.canUndo(), false);
+
+		editor.redo();
+		editor.redo();
+		assert.equal(editor.text, 'aXcY');
+	});
+
+	it('transforms undone edits waiting to be redone', () => {
+		const editor = new Editor('one');
+		editor.local(new TextOperationBuilder().retain(3).insert(' two').build());
+		editor.undo();
+		editor.remote(new TextOperationBuilder().insert('zero ').retain(3).build());
+
+		editor.redo();
+		assert.equal(editor.text, 'zero one two');
+	});
+
+	it('drops local edits another participant already removed', () => {
+		const editor = new Editor('ab');
+		editor.local(new TextOperationBuilder().retain(1).insert('x').retain(1).build());
+		editor.remote(new TextOperationBuilder().retain(1).delete(1).retain(1).build());
+
+		assert.equal(editor.text, 'ab');
+		assert.equal(editor.history.canUndo(), false);
+	});
+
+	it('clears the redo branch when a new edit is recorded', () => {
+		const editor = new Editor('a');
+		editor.local(new TextOperationBuilder().retain(1).insert('b').build());
+		editor.undo();
+		assert.equal(editor.history.canRedo(), true);
+
+		editor.local(new TextOperationBuilder().retain(1).insert('c').build());
+		assert.equal(editor.history.canRedo(), false);
+		assert.equal(editor.history.redo(editor.text), null);
+	});
+});
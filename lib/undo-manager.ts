@@ -0,0 +1,113 @@
+/**
+ * Undo/redo history for local edits in a collaborative document
+ *
+ * Only operations made by this client are recorded. Remote operations are
+ * never undone; instead both stacks are transformed against them, so undoing
+ * a local edit leaves text written by other participants in place.
+ */
+
+import {
+	TextOperation,
+	transformTextOperations,
+	invertTextOperation,
+} from './operational-transform';
+
+export class UndoManager {
+	private undoStack: TextOperation[][] = [];
+	private redoStack: TextOperation[][] = [];
+	private readonly maxStackSize: number;
+
+	constructor(maxStackSize: number = 100) {
+		this.maxStackSize = maxStackSize;
+	}
+
+	/**
+	 * Record a local operation together with the text it was applied to
+	 */
+	record(operation: TextOperation[], textBefore: string): void {
+		if (isNoop(operation)) {
+			return;
+		}
+
+		this.undoStack.push(invertTextOperation(operation, textBefore));
+		if (this.undoStack.length > this.maxStackSize) {
+			this.undoStack.shift();
+		}
+
+		// A new edit starts a new branch of history
+		this.redoStack = [];
+	}
+
+	/**
+	 * Transform both stacks against an operation from another participant
+	 */
+	transform(remoteOperation: TextOperation[]): void {
+		this.undoStack = transformStack(this.undoStack, remoteOperation);
+		this.redoStack = transformStack(this.redoStack, remoteOperation);
+	}
+
+	/**
+	 * Take the operation that undoes the latest local edit.
+	 * `text` is the current document content; returns null when there is nothing to undo.
+	 */
+	undo(text: string): TextOperation[] | null {
+		const operation = this.undoStack.pop();
+		if (!operation) {
+			return null;
+		}
+
+		this.redoStack.push(invertTextOperation(operation, text));
+		return operation;
+	}
+
+	/**
+	 * Take the operation that reapplies the latest undone edit.
+	 * `text` is the current document content; returns null when there is nothing to redo.
+	 */
+	redo(text: string): TextOperation[] | null {
+		const operation = this.redoStack.pop();
+		if (!operation) {
+			return null;
+		}
+
+		this.undoStack.push(invertTextOperation(operation, text));
+		return operation;
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
+
+/**
+ * Transform a stack whose newest entry applies to the current document.
+ * Each entry applies to the document as it is after undoing the entries above
+ * it, so the remote operation is carried down the stack as it is transformed.
+ */
+function transformStack(stack: TextOperation[][], remoteOperation: TextOperation[]): TextOperation[][] {
+	const transformed: TextOperation[][] = [];
+	let remote = remoteOperation;
+
+	for (let i = stack.length - 1; i >= 0; i--) {
+		const [entry, remoteAfterEntry] = transformTextOperations(stack[i]!, remote);
+		if (!isNoop(entry)) {
+			transformed.push(entry);
+		}
+		remote = remoteAfterEntry;
+	}
+
+	return transformed.reverse();
+}
+
+function isNoop(operation: TextOperation[]): boolean {
+	return operation.every(op => op.type === 'retain');
+}
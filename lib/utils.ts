@@ -2,6 +2,7 @@
  * Utility functions for the collaboration backend
  */
 
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from './supabase';
 
@@ -100,26 +101,27 @@ export async function retryWithBackoff<T>(
 }
 
 /**
- * Create a room invitation URL
+ * Create a room invitation URL carrying a signed invite token
  */
-export function createRoomInviteUrl(roomId: string, baseUrl?: string): string {
+export function createRoomInviteUrl(roomId: string, inviteToken: string, baseUrl?: string): string {
 	const base = baseUrl || 'vscode://octate/collaboration';
-	return `${base}/room/${roomId}`;
+	return `${base}/room/${roomId}?invite=${encodeURIComponent(inviteToken)}`;
 }
 
 /**
  * Parse a room invitation URL
  */
-export function parseRoomInviteUrl(url: string): { roomId: string } | null {
+export function parseRoomInviteUrl(url: string): { roomId: string; inviteToken: string } | null {
 	try {
 		const urlObj = new URL(url);
 		const pathParts = urlObj.pathname.split('/');
 		const roomIndex = pathParts.indexOf('room');
+		const inviteToken = urlObj.searchParams.get('invite');
 
-		if (roomIndex !== -1 && roomIndex + 1 < pathParts.length) {
+		if (roomIndex !== -1 && roomIndex + 1 < pathParts.length && inviteToken) {
 			const roomId = pathParts[roomIndex + 1];
 			if (roomId && isValidUUID(roomId)) {
-				return { roomId };
+				return { roomId, inviteToken };
 			}
 		}
 
@@ -261,6 +263,13 @@ export function calculateTextStats(text: string) {
 	};
 }
 
+/**
+ * Checksum of document content, compared by server and clients to detect divergence
+ */
+export function contentChecksum(content: string): string {
+	return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
 /**
  * Create error response
  */
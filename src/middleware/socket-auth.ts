@@ -0,0 +1,162 @@
+import { Socket } from 'socket.io';
+import { DefaultEventsMap } from 'socket.io/dist/typed-events';
+import { supabase, Participant } from '../../lib/supabase';
+import { verifyGuestToken, GuestIdentity } from '../../lib/guest-tokens';
+import { DocumentAccess, getDocumentAccessById, hasDocumentAccess } from '../../lib/document-permissions';
+import { APIError } from './auth';
+
+export interface SocketData {
+	// Null for anonymous guests
+	user: {
+		id: string;
+		email?: string;
+		user_metadata?: any;
+	} | null;
+	// Set for anonymous guests, who are limited to a single room
+	guest: GuestIdentity | null;
+	// Participant rows resolved for this connection, keyed by room id
+	participants: Record<string, Participant>;
+	// Room id of every document this connection has open, keyed by document id
+	openDocuments: Record<string, string>;
+}
+
+export type AuthenticatedSocket = Socket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+
+/**
+ * Extract the bearer token from the handshake auth payload or the Authorization header
+ */
+function getHandshakeToken(socket: AuthenticatedSocket): string | null {
+	const authToken = socket.handshake.auth?.token;
+	if (typeof authToken === 'string' && authToken.length > 0) {
+		return authToken.startsWith('Bearer ') ? authToken.substring(7) : authToken;
+	}
+
+	const authHeader = socket.handshake.headers.authorization;
+	if (authHeader && authHeader.startsWith('Bearer ')) {
+		return authHeader.substring(7);
+	}
+
+	return null;
+}
+
+/**
+ * Socket.IO middleware validating the Supabase JWT, or a guest token, sent during the handshake
+ */
+export async function authenticateSocket(socket: AuthenticatedSocket, next: (err?: Error) => void): Promise<void> {
+	try {
+		const token = getHandshakeToken(socket);
+		if (!token) {
+			next(createSocketError('Missing authentication token', 'UNAUTHORIZED'));
+			return;
+		}
+
+		const guest = verifyGuestToken(token);
+		if (guest) {
+			socket.data.user = null;
+			socket.data.guest = guest;
+			socket.data.participants = {};
+			socket.data.openDocuments = {};
+			next();
+			return;
+		}
+
+		const { data: { user }, error } = await supabase.auth.getUser(token);
+
+		if (error || !user) {
+			next(createSocketError('Invalid or expired token', 'UNAUTHORIZED'));
+			return;
+		}
+
+		socket.data.user = user;
+		socket.data.guest = null;
+		socket.data.participants = {};
+		socket.data.openDocuments = {};
+		next();
+	} catch (error) {
+		console.error('Socket authentication error:', error);
+		next(createSocketError('Authentication failed', 'UNAUTHORIZED'));
+	}
+}
+
+/**
+ * Resolve the participant row of the socket's user in a room.
+ * Throws when the user is not a participant.
+ */
+export async function requireRoomParticipant(
+	socket: AuthenticatedSocket,
+	roomId: string
+): Promise<Participant> {
+	if (!roomId || typeof roomId !== 'string') {
+		throw new APIError('Room ID required', 400, 'MISSING_ROOM_ID');
+	}
+
+	let participant = socket.data.participants[roomId];
+
+	if (!participant) {
+		const guest = socket.data.guest;
+		if (guest && guest.roomId !== roomId) {
+			throw new APIError('Guests can only access the room they joined', 403, 'ACCESS_DENIED');
+		}
+
+		const query = supabase
+			.from('participants')
+			.select('*')
+			.eq('room_id', roomId);
+
+		const { data, error } = await (guest
+			? query.eq('id', guest.participantId).is('user_id', null)
+			: query.eq('user_id', socket.data.user!.id)
+		).single();
+
+		if (error || !data) {
+			throw new APIError('Access denied or room not found', 403, 'ACCESS_DENIED');
+		}
+
+		participant = data;
+		socket.data.participants[roomId] = participant;
+	}
+
+	return participant;
+}
+
+/**
+ * Resolve the socket's participant in a room and check its access to one of the room's documents.
+ * Hidden documents are reported as missing.
+ */
+export async function requireDocumentAccess(
+	socket: AuthenticatedSocket,
+	roomId: string,
+	documentId: string,
+	required: DocumentAccess
+): Promise<Participant> {
+	const participant = await requireRoomParticipant(socket, roomId);
+
+	if (!documentId || typeof documentId !== 'string') {
+		throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+	}
+
+	const access = await getDocumentAccessById(participant, documentId);
+
+	if (access === 'none') {
+		throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+	}
+
+	if (!hasDocumentAccess(access, required)) {
+		throw new APIError('Insufficient permissions to edit this document', 403, 'ACCESS_DENIED');
+	}
+
+	return participant;
+}
+
+/**
+ * Forget the cached participant row for a room, e.g. after leaving it
+ */
+export function forgetRoomParticipant(socket: AuthenticatedSocket, roomId: string): void {
+	delete socket.data.participants[roomId];
+}
+
+function createSocketError(message: string, code: string): Error {
+	const error = new Error(message) as Error & { data?: { code: string } };
+	error.data = { code };
+	return error;
+}
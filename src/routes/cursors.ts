@@ -1,5 +1,5 @@
-import express, { Request, Response } from 'express';
-import { supabase, CursorInsert } from '../../lib/supabase';
+import express, { Response } from 'express';
+import { supabase } from '../../lib/supabase';
 import { z } from 'zod';
 import { authenticateUser, AuthenticatedRequest, APIError } from '../middleware/auth';
 
@@ -20,6 +20,33 @@ const updateCursorSchema = z.object({
 	}).optional(),
 });
 
+const batchUpdateCursorSchema = z.object({
+	cursors: z.array(updateCursorSchema).min(1).max(50),
+});
+
+// Cursors not updated within this window are considered stale
+const DEFAULT_CURSOR_MAX_AGE_SECONDS = 5 * 60;
+
+function handleCursorError(error: unknown, res: Response) {
+	console.error('API Error:', error);
+	if (error instanceof z.ZodError) {
+		return res.status(400).json({
+			error: 'Invalid request data',
+			details: error.errors,
+		});
+	}
+	if (error instanceof APIError) {
+		return res.status(error.statusCode).json({
+			error: error.message,
+			code: error.code,
+		});
+	}
+	res.status(500).json({
+		error: 'Internal server error',
+		code: 'INTERNAL_ERROR',
+	});
+}
+
 async function checkRoomAccess(userId: string, roomId: string) {
 	const { data: participant, error } = await supabase
 		.from('participants')
@@ -41,17 +68,7 @@ router.get('/:roomId/cursors', authenticateUser, async (req: AuthenticatedReques
 		const { roomId } = req.params;
 		await handleGetCursors(req, res, roomId);
 	} catch (error) {
-		console.error('API Error:', error);
-		if (error instanceof APIError) {
-			return res.status(error.statusCode).json({
-				error: error.message,
-				code: error.code,
-			});
-		}
-		res.status(500).json({
-			error: 'Internal server error',
-			code: 'INTERNAL_ERROR',
-		});
+		handleCursorError(error, res);
 	}
 });
 
@@ -61,17 +78,7 @@ router.post('/:roomId/cursors', authenticateUser, async (req: AuthenticatedReque
 		const { roomId } = req.params;
 		await handleUpdateCursor(req, res, roomId);
 	} catch (error) {
-		console.error('API Error:', error);
-		if (error instanceof APIError) {
-			return res.status(error.statusCode).json({
-				error: error.message,
-				code: error.code,
-			});
-		}
-		res.status(500).json({
-			error: 'Internal server error',
-			code: 'INTERNAL_ERROR',
-		});
+		handleCursorError(error, res);
 	}
 });
 
@@ -80,17 +87,27 @@ router.put('/:roomId/cursors', authenticateUser, async (req: AuthenticatedReques
 		const { roomId } = req.params;
 		await handleUpdateCursor(req, res, roomId);
 	} catch (error) {
-		console.error('API Error:', error);
-		if (error instanceof APIError) {
-			return res.status(error.statusCode).json({
-				error: error.message,
-				code: error.code,
-			});
-		}
-		res.status(500).json({
-			error: 'Internal server error',
-			code: 'INTERNAL_ERROR',
-		});
+		handleCursorError(error, res);
+	}
+});
+
+// POST /api/rooms/:roomId/cursors/batch - Update cursor positions in several documents at once
+router.post('/:roomId/cursors/batch', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+	try {
+		const { roomId } = req.params;
+		await handleBatchUpdateCursors(req, res, roomId);
+	} catch (error) {
+		handleCursorError(error, res);
+	}
+});
+
+// DELETE /api/rooms/:roomId/cursors/:documentId - Remove own cursor from a document
+router.delete('/:roomId/cursors/:documentId', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+	try {
+		const { roomId, documentId } = req.params;
+		await handleDeleteCursor(req, res, roomId, documentId);
+	} catch (error) {
+		handleCursorError(error, res);
 	}
 });
 
@@ -98,7 +115,16 @@ async function handleGetCursors(req: AuthenticatedRequest, res: Response, roomId
 	const user = req.user!;
 	await checkRoomAccess(user.id, roomId);
 
-	const { documentId } = req.query;
+	const { documentId, maxAge } = req.query;
+
+	// Only return cursors that moved recently; maxAge=0 disables the filter
+	let maxAgeSeconds = DEFAULT_CURSOR_MAX_AGE_SECONDS;
+	if (maxAge && typeof maxAge === 'string') {
+		maxAgeSeconds = parseInt(maxAge);
+		if (isNaN(maxAgeSeconds) || maxAgeSeconds < 0) {
+			throw new APIError('maxAge must be a non-negative number of seconds', 400, 'INVALID_MAX_AGE');
+		}
+	}
 
 	// Build query to get all cursors in the room
 	let query = supabase
@@ -127,6 +153,10 @@ async function handleGetCursors(req: AuthenticatedRequest, res: Response, roomId
 		query = query.eq('document_id', documentId);
 	}
 
+	if (maxAgeSeconds > 0) {
+		query = query.gte('updated_at', new Date(Date.now() - maxAgeSeconds * 1000).toISOString());
+	}
+
 	const { data: cursors, error } = await query;
 
 	if (error) {
@@ -178,21 +208,10 @@ async function handleUpdateCursor(req: AuthenticatedRequest, res: Response, room
 		throw new APIError('Failed to fetch document', 500, 'DATABASE_ERROR');
 	}
 
-	// Update cursor position using upsert
-	const cursorData: CursorInsert = {
-		participant_id: participant.id,
-		document_id: validatedData.documentId,
-		line: validatedData.line,
-		column: validatedData.column,
-		selection_start: validatedData.selectionStart || null,
-		selection_end: validatedData.selectionEnd || null,
-	};
+	await upsertCursor(participant.id, validatedData);
 
 	const { data: cursor, error: cursorError } = await supabase
 		.from('cursors')
-		.upsert(cursorData, {
-			onConflict: 'participant_id,document_id',
-		})
 		.select(`
       *,
       participants!inner(
@@ -202,34 +221,16 @@ async function handleUpdateCursor(req: AuthenticatedRequest, res: Response, room
         user_id
       )
     `)
+		.eq('participant_id', participant.id)
+		.eq('document_id', validatedData.documentId)
 		.single();
 
 	if (cursorError) {
-		console.error('Failed to update cursor:', cursorError);
+		console.error('Failed to fetch cursor:', cursorError);
 		throw new APIError('Failed to update cursor position', 500, 'DATABASE_ERROR');
 	}
 
-	// Update participant's last activity
-	await supabase
-		.from('participants')
-		.update({
-			last_seen: new Date().toISOString(),
-		})
-		.eq('id', participant.id);
-
-	// Update presence activity
-	await supabase
-		.from('presence')
-		.upsert({
-			participant_id: participant.id,
-			room_id: roomId,
-			status: 'online',
-			current_document_id: validatedData.documentId,
-			activity_type: 'editing',
-			last_activity: new Date().toISOString(),
-		}, {
-			onConflict: 'participant_id,room_id',
-		});
+	await touchParticipantActivity(participant.id, roomId, validatedData.documentId);
 
 	// Transform response
 	const transformedCursor = {
@@ -250,4 +251,118 @@ async function handleUpdateCursor(req: AuthenticatedRequest, res: Response, room
 	return res.status(200).json({ cursor: transformedCursor });
 }
 
+async function handleBatchUpdateCursors(req: AuthenticatedRequest, res: Response, roomId: string) {
+	const user = req.user!;
+	const participant = await checkRoomAccess(user.id, roomId);
+
+	const { cursors } = batchUpdateCursorSchema.parse(req.body);
+	const documentIds = Array.from(new Set(cursors.map(cursor => cursor.documentId)));
+
+	if (documentIds.length !== cursors.length) {
+		throw new APIError('Each document may only appear once per batch', 400, 'DUPLICATE_DOCUMENT');
+	}
+
+	// Verify every document exists in the room
+	const { data: documents, error: docError } = await supabase
+		.from('documents')
+		.select('id')
+		.eq('room_id', roomId)
+		.in('id', documentIds);
+
+	if (docError) {
+		throw new APIError('Failed to fetch documents', 500, 'DATABASE_ERROR');
+	}
+
+	if (!documents || documents.length !== documentIds.length) {
+		throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+	}
+
+	await Promise.all(cursors.map(cursor => upsertCursor(participant.id, cursor)));
+
+	const { data: updatedCursors, error: cursorError } = await supabase
+		.from('cursors')
+		.select('*')
+		.eq('participant_id', participant.id)
+		.in('document_id', documentIds);
+
+	if (cursorError) {
+		console.error('Failed to fetch cursors:', cursorError);
+		throw new APIError('Failed to update cursor positions', 500, 'DATABASE_ERROR');
+	}
+
+	// The last cursor in the batch is treated as the active one
+	await touchParticipantActivity(participant.id, roomId, cursors[cursors.length - 1]!.documentId);
+
+	const transformedCursors = updatedCursors?.map(cursor => ({
+		id: cursor.id,
+		documentId: cursor.document_id,
+		line: cursor.line,
+		column: cursor.column,
+		selectionStart: cursor.selection_start,
+		selectionEnd: cursor.selection_end,
+		updatedAt: cursor.updated_at,
+	}));
+
+	return res.status(200).json({ cursors: transformedCursors });
+}
+
+async function handleDeleteCursor(req: AuthenticatedRequest, res: Response, roomId: string, documentId: string) {
+	const user = req.user!;
+	const participant = await checkRoomAccess(user.id, roomId);
+
+	const { error } = await supabase
+		.from('cursors')
+		.delete()
+		.eq('participant_id', participant.id)
+		.eq('document_id', documentId);
+
+	if (error) {
+		console.error('Failed to delete cursor:', error);
+		throw new APIError('Failed to delete cursor', 500, 'DATABASE_ERROR');
+	}
+
+	return res.status(204).send();
+}
+
+// Upsert a cursor through the update_cursor_position database function
+async function upsertCursor(participantId: string, data: z.infer<typeof updateCursorSchema>) {
+	const { error } = await supabase.rpc('update_cursor_position', {
+		p_participant_id: participantId,
+		p_document_id: data.documentId,
+		p_line: data.line,
+		p_column: data.column,
+		p_selection_start: data.selectionStart || null,
+		p_selection_end: data.selectionEnd || null,
+	});
+
+	if (error) {
+		console.error('Failed to update cursor:', error);
+		throw new APIError('Failed to update cursor position', 500, 'DATABASE_ERROR');
+	}
+}
+
+async function touchParticipantActivity(participantId: string, roomId: string, documentId: string) {
+	// Update participant's last activity
+	await supabase
+		.from('participants')
+		.update({
+			last_seen: new Date().toISOString(),
+		})
+		.eq('id', participantId);
+
+	// Update presence activity
+	await supabase
+		.from('presence')
+		.upsert({
+			participant_id: participantId,
+			room_id: roomId,
+			status: 'online',
+			current_document_id: documentId,
+			activity_type: 'editing',
+			last_activity: new Date().toISOString(),
+		}, {
+			onConflict: 'participant_id,room_id',
+		});
+}
+
 export default router;
@@ -1,7 +1,28 @@
 import express from 'express';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
 import { supabase, Document, DocumentInsert, Participant } from '../../lib/supabase';
 import { authenticateUser, AuthenticatedRequest, APIError } from '../middleware/auth';
+import { createSnapshot, reconstructDocumentVersion } from '../../lib/document-snapshots';
+import { buildDocumentHistory } from '../../lib/document-history';
+import { getDocumentBlame } from '../../lib/document-blame';
+import { textOperationListSchema } from '../../lib/operation-log';
+import { TextOperation, createOperationFromDiff } from '../../lib/operational-transform';
+import { OperationError, OperationResult } from '../../lib/ot-server';
+import { documentSequencer } from '../../lib/document-sequencer';
+import { crdtDocuments } from '../../lib/crdt-documents';
+import { roomEvents } from '../../lib/room-events';
+import {
+	claimConflict,
+	completeConflict,
+	fetchConflict,
+	listConflicts,
+	loadConflictSides,
+	reopenConflict,
+	toConflictPayload,
+} from '../../lib/document-conflicts';
+import { isValidUUID } from '../../lib/utils';
+import { DocumentAccess, getDocumentAccess, getRoomPermissionRules, resolveDocumentAccess } from '../../lib/document-permissions';
 
 const router = express.Router();
 
@@ -18,7 +39,161 @@ const updateDocumentSchema = z.object({
 	language: z.string().optional(),
 });
 
+const patchDocumentSchema = z.object({
+	operation: textOperationListSchema.min(1),
+	baseVersion: z.number().int().min(1),
+	// Identify the edit so a retried request is not applied twice
+	clientId: z.string().uuid().optional(),
+	clientSequence: z.number().int().min(0).default(0),
+});
+
+const historyQuerySchema = z.object({
+	from: z.coerce.number().int().min(1).optional(),
+	to: z.coerce.number().int().min(1).optional(),
+	sessionGap: z.coerce.number().int().min(0).optional(), // seconds
+	diff: z.enum(['true', 'false']).default('true'),
+});
+
+const conflictQuerySchema = z.object({
+	status: z.enum(['open', 'resolved', 'all']).default('open'),
+	// Include the text of both sides
+	sides: z.enum(['true', 'false']).default('false'),
+});
+
+const resolveConflictSchema = z.object({
+	resolution: z.enum(['server', 'client', 'merged']),
+	content: z.string().optional(),
+}).refine(data => data.resolution !== 'merged' || data.content !== undefined, {
+	message: 'Merged resolutions require the merged content',
+	path: ['content'],
+});
+
+// Maximum number of versions covered by a single history request
+const MAX_HISTORY_VERSIONS = 1000;
+
+// The document version could not be honoured; the client has to catch up with currentVersion
+class VersionConflictError extends APIError {
+	constructor(
+		message: string,
+		statusCode: number,
+		code: string,
+		public currentVersion: number
+	) {
+		super(message, statusCode, code);
+		this.name = 'VersionConflictError';
+	}
+}
+
 // Helper functions
+function documentETag(version: number): string {
+	return `"${version}"`;
+}
+
+/**
+ * Enforce an If-Match header against the document's current version.
+ * Requests without the header are not conditional.
+ */
+function checkIfMatch(req: AuthenticatedRequest, document: Document): void {
+	const header = req.get('If-Match');
+	if (header === undefined) {
+		return;
+	}
+
+	const tags = header.split(',').map(tag => tag.trim());
+	if (!tags.includes('*') && !tags.includes(documentETag(document.version))) {
+		throw new VersionConflictError(
+			'Document has been modified since the requested version',
+			412,
+			'PRECONDITION_FAILED',
+			document.version
+		);
+	}
+}
+
+async function fetchDocument(documentId: string): Promise<Document> {
+	const { data, error } = await supabase
+		.from('documents')
+		.select('*')
+		.eq('id', documentId)
+		.single();
+
+	if (error || !data) {
+		throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+	}
+
+	return data;
+}
+
+function isCrdtDocument(document: Document & { rooms?: { editing_mode?: string } }): boolean {
+	return document.rooms?.editing_mode === 'crdt';
+}
+
+/**
+ * Edit a document of a CRDT room through its Yjs document, which reaches connected
+ * editors and is written back to the row. Returns the row afterwards.
+ */
+async function editCrdtDocument(
+	req: AuthenticatedRequest,
+	documentId: string,
+	edit: (current: Document) => Promise<void>
+): Promise<Document> {
+	// Bring the row up to date with live edits before comparing versions
+	await crdtDocuments.flush(documentId);
+	const current = await fetchDocument(documentId);
+	checkIfMatch(req, current);
+
+	try {
+		await edit(current);
+	} catch (error) {
+		if (error instanceof OperationError && error.code === 'INVALID_OPERATION') {
+			throw new APIError(error.message, 400, error.code);
+		}
+		throw error;
+	}
+
+	await crdtDocuments.flush(documentId);
+	return fetchDocument(documentId);
+}
+
+/**
+ * Map a rejection from the OT engine to the matching HTTP error
+ */
+async function toOperationAPIError(error: OperationError, documentId: string): Promise<APIError> {
+	switch (error.code) {
+		case 'INVALID_OPERATION':
+			return new APIError(error.message, 400, error.code);
+		case 'DOCUMENT_NOT_FOUND':
+			return new APIError('Document not found', 404, error.code);
+		case 'DOCUMENT_CHANGED':
+		case 'REVISION_UNAVAILABLE':
+			return new VersionConflictError(error.message, 409, 'VERSION_CONFLICT', (await fetchDocument(documentId)).version);
+		case 'CRDT_DOCUMENT':
+			return new APIError(error.message, 409, error.code);
+		case 'DOCUMENT_UNAVAILABLE':
+			return new APIError(error.message, 503, error.code);
+		default:
+			return new APIError('Failed to apply operation', 500, error.code);
+	}
+}
+
+/**
+ * Current content and version as sequenced by the OT engine
+ */
+async function sequencedDocumentState(documentId: string): Promise<{ content: string; revision: number }> {
+	try {
+		return await documentSequencer.getDocumentState(documentId);
+	} catch (error) {
+		throw error instanceof OperationError ? await toOperationAPIError(error, documentId) : error;
+	}
+}
+
+function sendVersionConflict(res: express.Response, error: VersionConflictError) {
+	return res
+		.status(error.statusCode)
+		.set('ETag', documentETag(error.currentVersion))
+		.json({ error: error.message, code: error.code, currentVersion: error.currentVersion });
+}
+
 async function checkRoomAccess(userId: string, roomId: string): Promise<Participant> {
 	const { data: participant, error } = await supabase
 		.from('participants')
@@ -34,14 +209,18 @@ async function checkRoomAccess(userId: string, roomId: string): Promise<Particip
 	return participant;
 }
 
-async function checkDocumentAccess(userId: string, documentId: string): Promise<{ document: Document; participant: Participant }> {
+async function checkDocumentAccess(
+	userId: string,
+	documentId: string
+): Promise<{ document: Document; participant: Participant; access: DocumentAccess }> {
 	const { data: document, error: docError } = await supabase
 		.from('documents')
 		.select(`
 			*,
 			rooms!inner(
 				id,
-				status
+				status,
+				editing_mode
 			)
 		`)
 		.eq('id', documentId)
@@ -52,7 +231,14 @@ async function checkDocumentAccess(userId: string, documentId: string): Promise<
 	}
 
 	const participant = await checkRoomAccess(userId, document.room_id);
-	return { document, participant };
+	const access = await getDocumentAccess(participant, document);
+
+	// Hidden documents are indistinguishable from missing ones
+	if (access === 'none') {
+		throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+	}
+
+	return { document, participant, access };
 }
 
 // GET /api/documents - List user's documents
@@ -75,7 +261,7 @@ router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 		// Filter by rooms user has access to
 		const { data: userRooms } = await supabase
 			.from('participants')
-			.select('room_id')
+			.select('id, room_id, role')
 			.eq('user_id', userId);
 
 		if (!userRooms || userRooms.length === 0) {
@@ -105,7 +291,17 @@ router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 			throw new APIError('Failed to fetch documents', 500, 'DATABASE_ERROR');
 		}
 
-		res.json({ documents });
+		// Leave out documents hidden by permission rules
+		const visibleDocuments = [];
+		for (const document of documents) {
+			const participant = userRooms.find(p => p.room_id === document.room_id)!;
+			const rules = await getRoomPermissionRules(document.room_id);
+			if (resolveDocumentAccess(participant, document, rules) !== 'none') {
+				visibleDocuments.push(document);
+			}
+		}
+
+		res.json({ documents: visibleDocuments });
 	} catch (error) {
 		if (error instanceof APIError) {
 			return res.status(error.statusCode).json({ error: error.message, code: error.code });
@@ -121,8 +317,13 @@ router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 		const userId = req.user!.id;
 		const validatedData = createDocumentSchema.parse(req.body);
 
-		// Check room access
-		await checkRoomAccess(userId, validatedData.roomId);
+		// Check room access, including path rules covering the new file
+		const participant = await checkRoomAccess(userId, validatedData.roomId);
+		const access = await getDocumentAccess(participant, { id: null, file_path: validatedData.filePath });
+
+		if (access !== 'write') {
+			throw new APIError('Insufficient permissions to create documents at this path', 403, 'ACCESS_DENIED');
+		}
 
 		// Check if document with same file path already exists in room
 		const { data: existingDoc } = await supabase
@@ -159,7 +360,10 @@ router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 			throw new APIError('Failed to create document', 500, 'DATABASE_ERROR');
 		}
 
-		res.status(201).json({ document });
+		// The initial snapshot is the starting point for replaying the operation log
+		await createSnapshot(document.id, document.version, document.content);
+
+		res.status(201).set('ETag', documentETag(document.version)).json({ document });
 	} catch (error) {
 		if (error instanceof z.ZodError) {
 			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
@@ -184,7 +388,7 @@ router.get('/:documentId', authenticateUser, async (req: AuthenticatedRequest, r
 
 		const { document } = await checkDocumentAccess(userId, documentId);
 
-		res.json({ document });
+		res.set('ETag', documentETag(document.version)).json({ document });
 	} catch (error) {
 		if (error instanceof APIError) {
 			return res.status(error.statusCode).json({ error: error.message, code: error.code });
@@ -194,7 +398,7 @@ router.get('/:documentId', authenticateUser, async (req: AuthenticatedRequest, r
 	}
 });
 
-// PUT /api/documents/:documentId - Update document
+// PUT /api/documents/:documentId - Update document, conditional on If-Match
 router.put('/:documentId', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
 		const { documentId } = req.params;
@@ -205,25 +409,63 @@ router.put('/:documentId', authenticateUser, async (req: AuthenticatedRequest, r
 			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
 		}
 
-		const { document, participant } = await checkDocumentAccess(userId, documentId);
+		const { document, participant, access } = await checkDocumentAccess(userId, documentId);
 
 		// Check if user has edit permissions
-		if (participant.role === 'viewer') {
+		if (access !== 'write') {
 			throw new APIError('Insufficient permissions to edit document', 403, 'ACCESS_DENIED');
 		}
 
-		const updateData: any = {
-			updated_at: new Date().toISOString(),
-		};
+		if (isCrdtDocument(document)) {
+			const updatedDocument = await editCrdtDocument(req, documentId, async () => {
+				if (validatedData.content !== undefined) {
+					await crdtDocuments.replaceContent(documentId, validatedData.content);
+				}
+				if (validatedData.language !== undefined) {
+					const { error } = await supabase
+						.from('documents')
+						.update({ language: validatedData.language })
+						.eq('id', documentId);
+
+					if (error) {
+						throw new APIError('Failed to update document', 500, 'DATABASE_ERROR');
+					}
+				}
+			});
+
+			return res.set('ETag', documentETag(updatedDocument.version)).json({ document: updatedDocument });
+		}
+
+		// The sequenced copy is authoritative while the document is being edited live
+		const current = await sequencedDocumentState(documentId);
+		checkIfMatch(req, { ...document, version: current.revision });
 
+		// Replacements go through the OT engine like any edit, so they are logged with the
+		// version they produce and transformed past edits that land in the meantime
+		let result: OperationResult | null = null;
 		if (validatedData.content !== undefined) {
-			updateData.content = validatedData.content;
-			updateData.size_bytes = Buffer.byteLength(validatedData.content, 'utf8');
-			updateData.line_count = Math.max(1, validatedData.content.split('\n').length);
-			updateData.version = document.version + 1;
-			updateData.last_operation_timestamp = new Date().toISOString();
+			const operation = createOperationFromDiff(current.content, validatedData.content);
+			if (operation.some(op => op.type !== 'retain')) {
+				try {
+					result = await documentSequencer.submitOperation({
+						documentId,
+						roomId: document.room_id,
+						participantId: participant.id,
+						clientId: randomUUID(),
+						clientSequence: 0,
+						baseRevision: current.revision,
+						operation,
+					});
+				} catch (error) {
+					throw error instanceof OperationError ? await toOperationAPIError(error, documentId) : error;
+				}
+			}
 		}
 
+		const updateData: any = {
+			updated_at: new Date().toISOString(),
+		};
+
 		if (validatedData.language !== undefined) {
 			updateData.language = validatedData.language;
 		}
@@ -235,15 +477,22 @@ router.put('/:documentId', authenticateUser, async (req: AuthenticatedRequest, r
 			.select()
 			.single();
 
-		if (error) {
+		if (error || !updatedDocument) {
 			throw new APIError('Failed to update document', 500, 'DATABASE_ERROR');
 		}
 
-		res.json({ document: updatedDocument });
+		if (result) {
+			roomEvents.operationsApplied(document.room_id, documentId, [...result.missed, result.entry]);
+		}
+
+		res.set('ETag', documentETag(updatedDocument.version)).json({ document: updatedDocument });
 	} catch (error) {
 		if (error instanceof z.ZodError) {
 			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
 		}
+		if (error instanceof VersionConflictError) {
+			return sendVersionConflict(res, error);
+		}
 		if (error instanceof APIError) {
 			return res.status(error.statusCode).json({ error: error.message, code: error.code });
 		}
@@ -252,6 +501,98 @@ router.put('/:documentId', authenticateUser, async (req: AuthenticatedRequest, r
 	}
 });
 
+// PATCH /api/documents/:documentId - Apply an operation made against baseVersion, transformed past later edits
+router.patch('/:documentId', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = patchDocumentSchema.parse(req.body);
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		const { document, participant, access } = await checkDocumentAccess(userId, documentId);
+
+		if (access !== 'write') {
+			throw new APIError('Insufficient permissions to edit document', 403, 'ACCESS_DENIED');
+		}
+
+		// Yjs documents keep no operation log to transform against, so the operation must apply to the current text
+		if (isCrdtDocument(document)) {
+			const operation = validatedData.operation as TextOperation[];
+			const updatedDocument = await editCrdtDocument(req, documentId, async current => {
+				if (validatedData.baseVersion !== current.version || await crdtDocuments.getContent(documentId) !== current.content) {
+					throw new VersionConflictError('Document has changed since the base version', 409, 'VERSION_CONFLICT', current.version);
+				}
+				await crdtDocuments.applyTextOperation(documentId, operation);
+			});
+
+			return res.set('ETag', documentETag(updatedDocument.version)).json({
+				document: updatedDocument,
+				operation,
+				version: updatedDocument.version,
+				duplicate: false,
+			});
+		}
+
+		checkIfMatch(req, document);
+
+		if (validatedData.baseVersion > document.version) {
+			throw new VersionConflictError('Base version does not exist yet', 409, 'VERSION_CONFLICT', document.version);
+		}
+
+		let result: OperationResult;
+		try {
+			result = await documentSequencer.submitOperation({
+				documentId,
+				roomId: document.room_id,
+				participantId: participant.id,
+				clientId: validatedData.clientId || randomUUID(),
+				clientSequence: validatedData.clientSequence,
+				baseRevision: validatedData.baseVersion,
+				operation: validatedData.operation as TextOperation[],
+			});
+		} catch (error) {
+			throw error instanceof OperationError ? await toOperationAPIError(error, documentId) : error;
+		}
+
+		if (!result.duplicate) {
+			roomEvents.operationsApplied(document.room_id, documentId, [...result.missed, result.entry]);
+		}
+
+		const { data: updatedDocument, error } = await supabase
+			.from('documents')
+			.select('*')
+			.eq('id', documentId)
+			.single();
+
+		if (error || !updatedDocument) {
+			throw new APIError('Failed to fetch document', 500, 'DATABASE_ERROR');
+		}
+
+		// The operation as applied, after transforming it past edits the client had not seen
+		res.set('ETag', documentETag(updatedDocument.version)).json({
+			document: updatedDocument,
+			operation: result.operation,
+			version: result.revision,
+			duplicate: result.duplicate,
+		});
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof VersionConflictError) {
+			return sendVersionConflict(res, error);
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error applying document operation:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
 // DELETE /api/documents/:documentId - Delete document
 router.delete('/:documentId', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
@@ -262,10 +603,10 @@ router.delete('/:documentId', authenticateUser, async (req: AuthenticatedRequest
 			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
 		}
 
-		const { participant } = await checkDocumentAccess(userId, documentId);
+		const { access } = await checkDocumentAccess(userId, documentId);
 
-		// Check if user has sufficient permissions (only editors and owners can delete)
-		if (participant.role === 'viewer') {
+		// Check if user has sufficient permissions (only writable documents can be deleted)
+		if (access !== 'write') {
 			throw new APIError('Insufficient permissions to delete document', 403, 'ACCESS_DENIED');
 		}
 
@@ -273,6 +614,7 @@ router.delete('/:documentId', authenticateUser, async (req: AuthenticatedRequest
 		await Promise.all([
 			supabase.from('cursors').delete().eq('document_id', documentId),
 			supabase.from('operations').delete().eq('document_id', documentId),
+			supabase.from('document_snapshots').delete().eq('document_id', documentId),
 		]);
 
 		// Delete document
@@ -345,6 +687,264 @@ router.get('/:documentId/operations', authenticateUser, async (req: Authenticate
 	}
 });
 
+// GET /api/documents/:documentId/versions/:version - Reconstruct document at a version
+router.get('/:documentId/versions/:version', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId } = req.params;
+		const userId = req.user!.id;
+		const version = parseInt(req.params.version!);
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		if (isNaN(version) || version < 1) {
+			throw new APIError('Version must be a positive integer', 400, 'INVALID_VERSION');
+		}
+
+		const { document } = await checkDocumentAccess(userId, documentId);
+
+		if (version > document.version) {
+			throw new APIError('Version not found', 404, 'VERSION_NOT_FOUND');
+		}
+
+		const reconstructed = await reconstructDocumentVersion(document, version);
+
+		if (!reconstructed) {
+			throw new APIError('History for this version is not available', 409, 'HISTORY_UNAVAILABLE');
+		}
+
+		res.json({
+			version: {
+				documentId: reconstructed.documentId,
+				version: reconstructed.version,
+				content: reconstructed.content,
+				snapshotVersion: reconstructed.snapshotVersion,
+				operationsReplayed: reconstructed.operationsReplayed,
+				currentVersion: document.version,
+			}
+		});
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error reconstructing document version:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// GET /api/documents/:documentId/history - Edit sessions with per-participant attribution
+router.get('/:documentId/history', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId } = req.params;
+		const userId = req.user!.id;
+		const query = historyQuerySchema.parse(req.query);
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		const { document } = await checkDocumentAccess(userId, documentId);
+
+		const toVersion = Math.min(query.to ?? document.version, document.version);
+		const fromVersion = query.from ?? Math.max(1, toVersion - MAX_HISTORY_VERSIONS);
+
+		if (fromVersion > toVersion) {
+			throw new APIError('from must not be greater than to', 400, 'INVALID_VERSION_RANGE');
+		}
+
+		if (toVersion - fromVersion > MAX_HISTORY_VERSIONS) {
+			throw new APIError(`History ranges are limited to ${MAX_HISTORY_VERSIONS} versions`, 400, 'VERSION_RANGE_TOO_LARGE');
+		}
+
+		const history = await buildDocumentHistory(document, {
+			fromVersion,
+			toVersion,
+			sessionGapMs: query.sessionGap !== undefined ? query.sessionGap * 1000 : undefined,
+			includeDiff: query.diff === 'true',
+		});
+
+		if (!history) {
+			throw new APIError('History for this version range is not available', 409, 'HISTORY_UNAVAILABLE');
+		}
+
+		res.json({ history });
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching document history:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// GET /api/documents/:documentId/blame - Last participant to touch each line
+router.get('/:documentId/blame', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId } = req.params;
+		const userId = req.user!.id;
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		const { document } = await checkDocumentAccess(userId, documentId);
+		const blame = await getDocumentBlame(document);
+
+		if (!blame) {
+			throw new APIError('Blame is not available for this document', 409, 'HISTORY_UNAVAILABLE');
+		}
+
+		res.json({
+			blame: {
+				documentId: blame.documentId,
+				version: blame.version,
+				participants: blame.participants,
+				lines: blame.lines.map((line, index) => ({
+					line: index + 1,
+					participantId: line.participantId,
+					version: line.version,
+					timestamp: line.timestamp,
+				})),
+			}
+		});
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error computing document blame:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// GET /api/documents/:documentId/conflicts - Conflicts held for manual resolution (open ones by default)
+router.get('/:documentId/conflicts', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId } = req.params;
+		const userId = req.user!.id;
+		const query = conflictQuerySchema.parse(req.query);
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		const { document } = await checkDocumentAccess(userId, documentId);
+		const conflicts = await listConflicts(documentId, query.status === 'all' ? undefined : query.status);
+
+		const payloads = [];
+		for (const conflict of conflicts) {
+			const sides = query.sides === 'true' ? await loadConflictSides(document, conflict) : null;
+			payloads.push(toConflictPayload(conflict, sides));
+		}
+
+		res.json({ conflicts: payloads });
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching document conflicts:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// POST /api/documents/:documentId/conflicts/:conflictId/resolve - Replace the conflicting text with the server side, the client side or merged text
+router.post('/:documentId/conflicts/:conflictId/resolve', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { documentId, conflictId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = resolveConflictSchema.parse(req.body);
+
+		if (!documentId) {
+			throw new APIError('Document ID required', 400, 'MISSING_DOCUMENT_ID');
+		}
+
+		const { document, participant, access } = await checkDocumentAccess(userId, documentId);
+
+		if (access !== 'write') {
+			throw new APIError('Insufficient permissions to edit document', 403, 'ACCESS_DENIED');
+		}
+
+		const conflict = isValidUUID(conflictId!) ? await fetchConflict(documentId, conflictId!) : null;
+		if (!conflict) {
+			throw new APIError('Conflict not found', 404, 'CONFLICT_NOT_FOUND');
+		}
+		if (conflict.status !== 'open') {
+			throw new APIError('Conflict is already resolved', 409, 'CONFLICT_RESOLVED');
+		}
+
+		const sides = await loadConflictSides(document, conflict);
+		if (!sides) {
+			throw new APIError('History for this conflict is not available', 409, 'HISTORY_UNAVAILABLE');
+		}
+
+		const content = validatedData.resolution === 'server'
+			? sides.serverContent
+			: validatedData.resolution === 'client' ? sides.clientContent : validatedData.content!;
+		if (content === null) {
+			throw new APIError('The client side does not apply to the document, resolve it with merged content', 409, 'CONFLICT_UNRESOLVABLE');
+		}
+
+		// The chosen text replaces what the document held at applied_version
+		const operation = createOperationFromDiff(sides.currentContent, content);
+
+		let resolved = await claimConflict(conflict.id, validatedData.resolution, participant.id);
+		if (!resolved) {
+			throw new APIError('Conflict is already resolved', 409, 'CONFLICT_RESOLVED');
+		}
+
+		// Transformed past later edits, which may only be in the operation log by now
+		let result: OperationResult | null = null;
+		if (operation.some(component => component.type !== 'retain')) {
+			try {
+				result = await documentSequencer.submitOperation({
+					documentId,
+					roomId: document.room_id,
+					participantId: participant.id,
+					clientId: conflict.id,
+					clientSequence: 0,
+					baseRevision: conflict.applied_version,
+					operation,
+				});
+			} catch (error) {
+				await reopenConflict(conflict.id);
+				throw error instanceof OperationError ? await toOperationAPIError(error, documentId) : error;
+			}
+
+			if (!result.duplicate) {
+				roomEvents.operationsApplied(document.room_id, documentId, [...result.missed, result.entry]);
+			}
+			resolved = await completeConflict(conflict.id, result.revision);
+		}
+
+		const payload = toConflictPayload(resolved);
+		roomEvents.notifyRoom(document.room_id, 'conflict-resolved', { conflict: payload });
+
+		res.json({
+			conflict: payload,
+			operation: result ? result.operation : null,
+			version: result ? result.revision : document.version,
+		});
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof VersionConflictError) {
+			return sendVersionConflict(res, error);
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error resolving document conflict:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
 // GET /api/documents/:documentId/cursors - Get document cursors
 router.get('/:documentId/cursors', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
@@ -0,0 +1,157 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabase, Participant, RoomInviteInsert } from '../../lib/supabase';
+import { createInviteToken } from '../../lib/room-invites';
+import { createRoomInviteUrl } from '../../lib/utils';
+import { authenticateUser, AuthenticatedRequest, APIError } from '../middleware/auth';
+
+const router = express.Router();
+
+// Request validation schemas
+const createInviteSchema = z.object({
+	role: z.enum(['editor', 'viewer']).default('editor'),
+	maxUses: z.number().int().min(1).max(1000).optional(),
+	expiresIn: z.number().positive().max(24 * 30).default(24), // hours
+});
+
+// Helper functions
+async function checkRoomOwner(userId: string, roomId: string): Promise<Participant> {
+	const { data: participant, error } = await supabase
+		.from('participants')
+		.select('*')
+		.eq('room_id', roomId)
+		.eq('user_id', userId)
+		.single();
+
+	if (error || !participant) {
+		throw new APIError('Access denied or room not found', 403, 'ACCESS_DENIED');
+	}
+
+	if (participant.role !== 'owner') {
+		throw new APIError('Only room owners can manage invites', 403, 'ACCESS_DENIED');
+	}
+
+	return participant;
+}
+
+// POST /api/rooms/:roomId/invites - Create an invite token
+router.post('/:roomId/invites', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = createInviteSchema.parse(req.body);
+
+		await checkRoomOwner(userId, roomId!);
+
+		const expiresAt = new Date(Date.now() + validatedData.expiresIn * 60 * 60 * 1000);
+		const inviteData: RoomInviteInsert = {
+			room_id: roomId!,
+			created_by: userId,
+			role: validatedData.role,
+			max_uses: validatedData.maxUses ?? null,
+			expires_at: expiresAt.toISOString(),
+			metadata: {},
+		};
+
+		const { data: invite, error } = await supabase
+			.from('room_invites')
+			.insert(inviteData)
+			.select()
+			.single();
+
+		if (error) {
+			throw new APIError('Failed to create invite', 500, 'DATABASE_ERROR');
+		}
+
+		// The token is only returned here; listing invites does not reveal it again
+		const token = createInviteToken(invite.id, invite.room_id, expiresAt);
+
+		res.status(201).json({
+			invite,
+			token,
+			inviteUrl: createRoomInviteUrl(invite.room_id, token),
+		});
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error creating invite:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// GET /api/rooms/:roomId/invites - List invites that can still be redeemed
+router.get('/:roomId/invites', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+
+		let query = supabase
+			.from('room_invites')
+			.select('*')
+			.eq('room_id', roomId!);
+
+		if (req.query.all !== 'true') {
+			query = query
+				.is('revoked_at', null)
+				.gt('expires_at', new Date().toISOString());
+		}
+
+		const { data: invites, error } = await query
+			.order('created_at', { ascending: false });
+
+		if (error) {
+			throw new APIError('Failed to fetch invites', 500, 'DATABASE_ERROR');
+		}
+
+		res.json({ invites });
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching invites:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// DELETE /api/rooms/:roomId/invites/:inviteId - Revoke an invite
+router.delete('/:roomId/invites/:inviteId', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, inviteId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+
+		const { data: invite, error } = await supabase
+			.from('room_invites')
+			.update({ revoked_at: new Date().toISOString() })
+			.eq('id', inviteId!)
+			.eq('room_id', roomId!)
+			.is('revoked_at', null)
+			.select('id')
+			.maybeSingle();
+
+		if (error) {
+			throw new APIError('Failed to revoke invite', 500, 'DATABASE_ERROR');
+		}
+
+		if (!invite) {
+			throw new APIError('Invite not found', 404, 'INVITE_NOT_FOUND');
+		}
+
+		res.status(204).send();
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error revoking invite:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+export default router;
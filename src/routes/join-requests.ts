@@ -0,0 +1,209 @@
+import express from 'express';
+import { supabase, Participant, ParticipantInsert } from '../../lib/supabase';
+import { roomEvents } from '../../lib/room-events';
+import { authenticateUser, AuthenticatedRequest, APIError } from '../middleware/auth';
+
+const router = express.Router();
+
+// Helper functions
+async function checkRoomOwner(userId: string, roomId: string): Promise<Participant> {
+	const { data: participant, error } = await supabase
+		.from('participants')
+		.select('*')
+		.eq('room_id', roomId)
+		.eq('user_id', userId)
+		.single();
+
+	if (error || !participant) {
+		throw new APIError('Access denied or room not found', 403, 'ACCESS_DENIED');
+	}
+
+	if (participant.role !== 'owner') {
+		throw new APIError('Only room owners can manage join requests', 403, 'ACCESS_DENIED');
+	}
+
+	return participant;
+}
+
+async function getPendingRequest(roomId: string, requestId: string) {
+	const { data: request, error } = await supabase
+		.from('join_requests')
+		.select('*')
+		.eq('id', requestId)
+		.eq('room_id', roomId)
+		.maybeSingle();
+
+	if (error) {
+		throw new APIError('Failed to fetch join request', 500, 'DATABASE_ERROR');
+	}
+
+	if (!request) {
+		throw new APIError('Join request not found', 404, 'JOIN_REQUEST_NOT_FOUND');
+	}
+
+	if (request.status !== 'pending') {
+		throw new APIError(`Join request was already ${request.status}`, 409, 'JOIN_REQUEST_DECIDED');
+	}
+
+	return request;
+}
+
+async function decideRequest(requestId: string, status: 'approved' | 'denied', userId: string) {
+	// Only the first decision wins when several owners respond at once
+	const { data: request, error } = await supabase
+		.from('join_requests')
+		.update({
+			status,
+			decided_by: userId,
+			decided_at: new Date().toISOString(),
+		})
+		.eq('id', requestId)
+		.eq('status', 'pending')
+		.select()
+		.maybeSingle();
+
+	if (error) {
+		throw new APIError('Failed to update join request', 500, 'DATABASE_ERROR');
+	}
+
+	if (!request) {
+		throw new APIError('Join request was already decided', 409, 'JOIN_REQUEST_DECIDED');
+	}
+
+	return request;
+}
+
+// GET /api/rooms/:roomId/requests - List pending join requests
+router.get('/:roomId/requests', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+
+		const { data: requests, error } = await supabase
+			.from('join_requests')
+			.select('*')
+			.eq('room_id', roomId!)
+			.eq('status', 'pending')
+			.order('created_at', { ascending: true });
+
+		if (error) {
+			throw new APIError('Failed to fetch join requests', 500, 'DATABASE_ERROR');
+		}
+
+		res.json({ requests });
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching join requests:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// POST /api/rooms/:roomId/requests/:requestId/approve - Approve a join request
+router.post('/:roomId/requests/:requestId/approve', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, requestId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+		const pendingRequest = await getPendingRequest(roomId!, requestId!);
+
+		// Check room capacity
+		const { data: room } = await supabase
+			.from('rooms')
+			.select('max_participants')
+			.eq('id', roomId!)
+			.single();
+
+		const { count: participantCount } = await supabase
+			.from('participants')
+			.select('id', { count: 'exact' })
+			.eq('room_id', roomId!);
+
+		if (room && participantCount && participantCount >= room.max_participants) {
+			throw new APIError('Room is full', 409, 'ROOM_FULL');
+		}
+
+		const request = await decideRequest(pendingRequest.id, 'approved', userId);
+
+		const participantData: ParticipantInsert = {
+			room_id: request.room_id,
+			user_id: request.user_id,
+			role: request.role,
+			presence_status: 'offline',
+			display_name: request.display_name || 'Anonymous',
+			joined_at: new Date().toISOString(),
+			metadata: {},
+		};
+
+		const { data: participant, error: participantError } = await supabase
+			.from('participants')
+			.insert(participantData)
+			.select()
+			.single();
+
+		if (participantError) {
+			// Put the request back so it can be decided again
+			await supabase
+				.from('join_requests')
+				.update({ status: 'pending', decided_by: null, decided_at: null })
+				.eq('id', request.id);
+			throw new APIError('Failed to add participant', 500, 'DATABASE_ERROR');
+		}
+
+		roomEvents.notifyUsers([request.user_id], 'join-request-approved', {
+			roomId: request.room_id,
+			requestId: request.id,
+			participant,
+		});
+
+		res.json({ request, participant });
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error approving join request:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// POST /api/rooms/:roomId/requests/:requestId/deny - Deny a join request
+router.post('/:roomId/requests/:requestId/deny', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, requestId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+		const pendingRequest = await getPendingRequest(roomId!, requestId!);
+
+		const request = await decideRequest(pendingRequest.id, 'denied', userId);
+
+		// The invite use counted when the request was made goes back to the invite
+		if (request.invite_id) {
+			const { error: releaseError } = await supabase
+				.rpc('release_room_invite', { p_invite_id: request.invite_id });
+
+			if (releaseError) {
+				console.error('Error releasing invite use:', releaseError);
+			}
+		}
+
+		roomEvents.notifyUsers([request.user_id], 'join-request-denied', {
+			roomId: request.room_id,
+			requestId: request.id,
+		});
+
+		res.json({ request });
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error denying join request:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+export default router;
@@ -0,0 +1,181 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabase, Participant, DocumentPermissionInsert } from '../../lib/supabase';
+import { invalidateRoomPermissionRules } from '../../lib/document-permissions';
+import { authenticateUser, AuthenticatedRequest, APIError } from '../middleware/auth';
+
+const router = express.Router();
+
+// Request validation schemas
+const createPermissionSchema = z.object({
+	documentId: z.string().uuid().optional(),
+	pathPattern: z.string().min(1).max(500).optional(),
+	participantId: z.string().uuid().optional(),
+	role: z.enum(['editor', 'viewer']).optional(),
+	access: z.enum(['none', 'read', 'write']),
+}).refine(data => !!data.documentId !== !!data.pathPattern, {
+	message: 'Exactly one of documentId or pathPattern is required',
+}).refine(data => !(data.participantId && data.role), {
+	message: 'A rule applies to a participant or a role, not both',
+});
+
+// Helper functions
+async function checkRoomOwner(userId: string, roomId: string): Promise<Participant> {
+	const { data: participant, error } = await supabase
+		.from('participants')
+		.select('*')
+		.eq('room_id', roomId)
+		.eq('user_id', userId)
+		.single();
+
+	if (error || !participant) {
+		throw new APIError('Access denied or room not found', 403, 'ACCESS_DENIED');
+	}
+
+	if (participant.role !== 'owner') {
+		throw new APIError('Only room owners can manage document permissions', 403, 'ACCESS_DENIED');
+	}
+
+	return participant;
+}
+
+// GET /api/rooms/:roomId/permissions - List document permission rules
+router.get('/:roomId/permissions', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+
+		const { data: permissions, error } = await supabase
+			.from('document_permissions')
+			.select('*')
+			.eq('room_id', roomId!)
+			.order('created_at', { ascending: true });
+
+		if (error) {
+			throw new APIError('Failed to fetch document permissions', 500, 'DATABASE_ERROR');
+		}
+
+		res.json({ permissions });
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching document permissions:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// POST /api/rooms/:roomId/permissions - Add a document permission rule
+router.post('/:roomId/permissions', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = createPermissionSchema.parse(req.body);
+
+		await checkRoomOwner(userId, roomId!);
+
+		if (validatedData.documentId) {
+			const { data: document } = await supabase
+				.from('documents')
+				.select('id')
+				.eq('id', validatedData.documentId)
+				.eq('room_id', roomId!)
+				.maybeSingle();
+
+			if (!document) {
+				throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+			}
+		}
+
+		if (validatedData.participantId) {
+			const { data: participant } = await supabase
+				.from('participants')
+				.select('id, role')
+				.eq('id', validatedData.participantId)
+				.eq('room_id', roomId!)
+				.maybeSingle();
+
+			if (!participant) {
+				throw new APIError('Participant not found', 404, 'PARTICIPANT_NOT_FOUND');
+			}
+
+			if (participant.role === 'owner') {
+				throw new APIError('Room owners always have full access', 400, 'CANNOT_RESTRICT_OWNER');
+			}
+		}
+
+		const permissionData: DocumentPermissionInsert = {
+			room_id: roomId!,
+			created_by: userId,
+			document_id: validatedData.documentId ?? null,
+			path_pattern: validatedData.pathPattern ?? null,
+			participant_id: validatedData.participantId ?? null,
+			role: validatedData.role ?? null,
+			access: validatedData.access,
+			metadata: {},
+		};
+
+		const { data: permission, error } = await supabase
+			.from('document_permissions')
+			.insert(permissionData)
+			.select()
+			.single();
+
+		if (error) {
+			throw new APIError('Failed to create document permission', 500, 'DATABASE_ERROR');
+		}
+
+		invalidateRoomPermissionRules(roomId!);
+
+		res.status(201).json({ permission });
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error creating document permission:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// DELETE /api/rooms/:roomId/permissions/:permissionId - Remove a document permission rule
+router.delete('/:roomId/permissions/:permissionId', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, permissionId } = req.params;
+		const userId = req.user!.id;
+
+		await checkRoomOwner(userId, roomId!);
+
+		const { data: permission, error } = await supabase
+			.from('document_permissions')
+			.delete()
+			.eq('id', permissionId!)
+			.eq('room_id', roomId!)
+			.select()
+			.maybeSingle();
+
+		if (error) {
+			throw new APIError('Failed to delete document permission', 500, 'DATABASE_ERROR');
+		}
+
+		if (!permission) {
+			throw new APIError('Document permission not found', 404, 'PERMISSION_NOT_FOUND');
+		}
+
+		invalidateRoomPermissionRules(roomId!);
+
+		res.status(204).send();
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error deleting document permission:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+export default router;
@@ -2,6 +2,13 @@ import express from 'express';
 import { z } from 'zod';
 import { supabase, Room, RoomInsert, Participant, ParticipantInsert } from '../../lib/supabase';
 import { authenticateUser, optionalAuth, AuthenticatedRequest, APIError } from '../middleware/auth';
+import { authLimiter } from '../middleware/security';
+import { verifyInviteToken } from '../../lib/room-invites';
+import { roomEvents } from '../../lib/room-events';
+import { getRoomPermissionRules, resolveDocumentAccess } from '../../lib/document-permissions';
+import { fetchRoomPayload } from '../../lib/socket-protocol';
+import { createGuestToken } from '../../lib/guest-tokens';
+import { sanitizeDisplayName } from '../../lib/utils';
 
 const router = express.Router();
 
@@ -12,6 +19,8 @@ const createRoomSchema = z.object({
 	maxParticipants: z.number().min(1).max(50).default(10),
 	allowAnonymous: z.boolean().default(false),
 	requireApproval: z.boolean().default(false),
+	guestRole: z.enum(['editor', 'viewer']).default('viewer'),
+	editingMode: z.enum(['ot', 'crdt']).default('ot'),
 	expiresIn: z.number().optional(), // hours
 });
 
@@ -20,6 +29,25 @@ const updateRoomSchema = z.object({
 	description: z.string().optional(),
 	maxParticipants: z.number().min(1).max(50).optional(),
 	status: z.enum(['active', 'inactive', 'archived']).optional(),
+	allowAnonymous: z.boolean().optional(),
+	guestRole: z.enum(['editor', 'viewer']).optional(),
+});
+
+const joinRoomSchema = z.object({
+	token: z.string().min(1),
+});
+
+const updateParticipantSchema = z.object({
+	role: z.enum(['editor', 'viewer']),
+});
+
+const transferOwnershipSchema = z.object({
+	participantId: z.string().uuid(),
+});
+
+const joinAsGuestSchema = z.object({
+	token: z.string().min(1),
+	displayName: z.string().min(1).max(100),
 });
 
 // Helper functions
@@ -38,6 +66,39 @@ async function checkRoomAccess(userId: string, roomId: string): Promise<Particip
 	return participant;
 }
 
+async function getRoomParticipant(roomId: string, participantId: string): Promise<Participant> {
+	const { data: participant, error } = await supabase
+		.from('participants')
+		.select('*')
+		.eq('id', participantId)
+		.eq('room_id', roomId)
+		.maybeSingle();
+
+	if (error) {
+		throw new APIError('Failed to fetch participant', 500, 'DATABASE_ERROR');
+	}
+
+	if (!participant) {
+		throw new APIError('Participant not found', 404, 'PARTICIPANT_NOT_FOUND');
+	}
+
+	return participant;
+}
+
+async function notifyRoomOwners(roomId: string, event: string, payload: Record<string, unknown>): Promise<void> {
+	const { data: owners } = await supabase
+		.from('participants')
+		.select('user_id')
+		.eq('room_id', roomId)
+		.eq('role', 'owner');
+
+	const ownerIds = (owners || [])
+		.map(owner => owner.user_id)
+		.filter((id): id is string => !!id);
+
+	roomEvents.notifyUsers(ownerIds, event, payload);
+}
+
 // GET /api/rooms - List user's rooms
 router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
@@ -106,6 +167,8 @@ router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
 			max_participants: validatedData.maxParticipants,
 			allow_anonymous: validatedData.allowAnonymous,
 			require_approval: validatedData.requireApproval,
+			guest_role: validatedData.guestRole,
+			editing_mode: validatedData.editingMode,
 			expires_at: expiresAt,
 			status: 'active',
 			metadata: {},
@@ -208,6 +271,83 @@ router.get('/:roomId', authenticateUser, async (req: AuthenticatedRequest, res)
 	}
 });
 
+// GET /api/rooms/:roomId/presence - Get presence of room participants
+router.get('/:roomId/presence', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+		const { includeOffline } = req.query;
+
+		const participant = await checkRoomAccess(userId, roomId);
+
+		let query = supabase
+			.from('presence')
+			.select(`
+				participant_id,
+				status,
+				activity_type,
+				current_document_id,
+				last_activity,
+				connected_at,
+				participants(
+					id,
+					display_name,
+					avatar_url,
+					color,
+					role
+				)
+			`)
+			.eq('room_id', roomId);
+
+		if (includeOffline !== 'true') {
+			query = query.neq('status', 'offline');
+		}
+
+		const { data: presence, error } = await query
+			.order('last_activity', { ascending: false });
+
+		if (error) {
+			throw new APIError('Failed to fetch presence', 500, 'DATABASE_ERROR');
+		}
+
+		// Hide which document others are in when the caller cannot read it
+		const documentIds = [...new Set(presence.map(entry => entry.current_document_id).filter((id): id is string => !!id))];
+		const readableDocumentIds = new Set<string>();
+		if (documentIds.length > 0) {
+			const { data: documents, error: documentsError } = await supabase
+				.from('documents')
+				.select('id, file_path')
+				.in('id', documentIds);
+
+			if (documentsError) {
+				throw new APIError('Failed to fetch presence', 500, 'DATABASE_ERROR');
+			}
+
+			const rules = await getRoomPermissionRules(roomId);
+			for (const document of documents) {
+				if (resolveDocumentAccess(participant, document, rules) !== 'none') {
+					readableDocumentIds.add(document.id);
+				}
+			}
+		}
+
+		res.json({
+			presence: presence.map(entry => ({
+				...entry,
+				current_document_id: entry.current_document_id && readableDocumentIds.has(entry.current_document_id)
+					? entry.current_document_id
+					: null,
+			})),
+		});
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error fetching presence:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
 // PUT /api/rooms/:roomId - Update room
 router.put('/:roomId', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
@@ -221,10 +361,15 @@ router.put('/:roomId', authenticateUser, async (req: AuthenticatedRequest, res)
 			throw new APIError('Only room owners can update room settings', 403, 'ACCESS_DENIED');
 		}
 
+		const { maxParticipants, allowAnonymous, guestRole, ...settings } = validatedData;
+
 		const { data: room, error } = await supabase
 			.from('rooms')
 			.update({
-				...validatedData,
+				...settings,
+				max_participants: maxParticipants,
+				allow_anonymous: allowAnonymous,
+				guest_role: guestRole,
 				updated_at: new Date().toISOString(),
 			})
 			.eq('id', roomId)
@@ -235,6 +380,30 @@ router.put('/:roomId', authenticateUser, async (req: AuthenticatedRequest, res)
 			throw new APIError('Failed to update room', 500, 'DATABASE_ERROR');
 		}
 
+		// Guests who already joined follow the room's guest role too
+		if (guestRole !== undefined) {
+			const { data: guests, error: guestError } = await supabase
+				.from('participants')
+				.update({ role: guestRole })
+				.eq('room_id', roomId)
+				.is('user_id', null)
+				.neq('role', guestRole)
+				.select();
+
+			if (guestError) {
+				throw new APIError('Failed to update guest roles', 500, 'DATABASE_ERROR');
+			}
+
+			for (const guest of guests || []) {
+				roomEvents.participantUpdated(guest);
+			}
+		}
+
+		// Connected clients keep their own copy of the room
+		fetchRoomPayload(roomId)
+			.then(payload => payload && roomEvents.notifyRoom(roomId, 'room-updated', { room: payload }))
+			.catch(notifyError => console.error('Error notifying room update:', notifyError));
+
 		res.json({ room });
 	} catch (error) {
 		if (error instanceof z.ZodError) {
@@ -280,11 +449,17 @@ router.delete('/:roomId', authenticateUser, async (req: AuthenticatedRequest, re
 	}
 });
 
-// POST /api/rooms/:roomId/join - Join room
+// POST /api/rooms/:roomId/join - Join room by redeeming an invite token
 router.post('/:roomId/join', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
 		const { roomId } = req.params;
 		const userId = req.user!.id;
+		const { token } = joinRoomSchema.parse(req.body);
+
+		const invite = verifyInviteToken(token);
+		if (!invite || invite.roomId !== roomId) {
+			throw new APIError('Invalid or expired invite', 403, 'INVALID_INVITE');
+		}
 
 		// Check if room exists and is active
 		const { data: room, error: roomError } = await supabase
@@ -320,13 +495,68 @@ router.post('/:roomId/join', authenticateUser, async (req: AuthenticatedRequest,
 			throw new APIError('Room is full', 409, 'ROOM_FULL');
 		}
 
+		// Asking again while a request is pending does not use the invite again
+		if (room.require_approval) {
+			const { data: pendingRequest } = await supabase
+				.from('join_requests')
+				.select('*')
+				.eq('room_id', roomId)
+				.eq('user_id', userId)
+				.eq('status', 'pending')
+				.maybeSingle();
+
+			if (pendingRequest) {
+				return res.status(202).json({ request: pendingRequest });
+			}
+		}
+
+		// Count the use only once every other check passed
+		const { data: role, error: inviteError } = await supabase
+			.rpc('redeem_room_invite', {
+				p_invite_id: invite.inviteId,
+				p_room_id: roomId!,
+			});
+
+		if (inviteError) {
+			throw new APIError('Failed to redeem invite', 500, 'DATABASE_ERROR');
+		}
+
+		if (!role) {
+			throw new APIError('Invite has been revoked, has expired or has no uses left', 403, 'INVALID_INVITE');
+		}
+
+		const displayName = req.user!.user_metadata?.full_name || req.user!.email || 'Anonymous';
+
+		// Owners decide on the request; the requester is told the outcome over Socket.IO
+		if (room.require_approval) {
+			const { data: request, error: requestError } = await supabase
+				.from('join_requests')
+				.insert({
+					room_id: roomId!,
+					user_id: userId,
+					invite_id: invite.inviteId,
+					role,
+					display_name: displayName,
+					metadata: {},
+				})
+				.select()
+				.single();
+
+			if (requestError) {
+				throw new APIError('Failed to request to join room', 500, 'DATABASE_ERROR');
+			}
+
+			await notifyRoomOwners(roomId!, 'join-request', { request });
+			return res.status(202).json({ request });
+		}
+
 		// Add participant
 		const participantData: ParticipantInsert = {
 			room_id: roomId!,
 			user_id: userId,
-			role: 'editor',
+			role,
 			presence_status: 'online',
-			display_name: req.user!.user_metadata?.full_name || req.user!.email || 'Anonymous',
+			display_name: displayName,
 			joined_at: new Date().toISOString(),
 			metadata: {},
 		};
@@ -343,6 +573,9 @@ router.post('/:roomId/join', authenticateUser, async (req: AuthenticatedRequest,
 
 		res.status(201).json({ participant });
 	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
 		if (error instanceof APIError) {
 			return res.status(error.statusCode).json({ error: error.message, code: error.code });
 		}
@@ -351,6 +584,107 @@ router.post('/:roomId/join', authenticateUser, async (req: AuthenticatedRequest,
 	}
 });
 
+// POST /api/rooms/:roomId/guests - Join a room anonymously by redeeming an invite token
+router.post('/:roomId/guests', authLimiter, async (req, res) => {
+	try {
+		const { roomId } = req.params;
+		const validatedData = joinAsGuestSchema.parse(req.body);
+
+		const invite = verifyInviteToken(validatedData.token);
+		if (!invite || invite.roomId !== roomId) {
+			throw new APIError('Invalid or expired invite', 403, 'INVALID_INVITE');
+		}
+
+		const displayName = sanitizeDisplayName(validatedData.displayName);
+		if (!displayName) {
+			throw new APIError('Display name is required', 400, 'INVALID_DISPLAY_NAME');
+		}
+
+		// Check if room exists and is active
+		const { data: room, error: roomError } = await supabase
+			.from('rooms')
+			.select('*')
+			.eq('id', roomId)
+			.eq('status', 'active')
+			.single();
+
+		if (roomError || !room) {
+			throw new APIError('Room not found or inactive', 404, 'ROOM_NOT_FOUND');
+		}
+
+		if (!room.allow_anonymous) {
+			throw new APIError('This room does not allow anonymous guests', 403, 'ANONYMOUS_NOT_ALLOWED');
+		}
+
+		// Join requests are decided per user, which guests do not have
+		if (room.require_approval) {
+			throw new APIError('This room requires approval to join; sign in to request access', 403, 'APPROVAL_REQUIRED');
+		}
+
+		// Check room capacity
+		const { count: participantCount } = await supabase
+			.from('participants')
+			.select('id', { count: 'exact' })
+			.eq('room_id', roomId);
+
+		if (participantCount && participantCount >= room.max_participants) {
+			throw new APIError('Room is full', 409, 'ROOM_FULL');
+		}
+
+		const { data: inviteRole, error: inviteError } = await supabase
+			.rpc('redeem_room_invite', {
+				p_invite_id: invite.inviteId,
+				p_room_id: roomId!,
+			});
+
+		if (inviteError) {
+			throw new APIError('Failed to redeem invite', 500, 'DATABASE_ERROR');
+		}
+
+		if (!inviteRole) {
+			throw new APIError('Invite has been revoked, has expired or has no uses left', 403, 'INVALID_INVITE');
+		}
+
+		// Guests always get the room's guest role, whatever the invite grants
+		const participantData: ParticipantInsert = {
+			room_id: roomId!,
+			user_id: null,
+			role: room.guest_role,
+			presence_status: 'online',
+			display_name: displayName,
+			joined_at: new Date().toISOString(),
+			metadata: { guest: true },
+		};
+
+		const { data: participant, error: participantError } = await supabase
+			.from('participants')
+			.insert(participantData)
+			.select()
+			.single();
+
+		if (participantError) {
+			throw new APIError('Failed to join room', 500, 'DATABASE_ERROR');
+		}
+
+		const guestToken = createGuestToken(participant.id, participant.room_id);
+
+		res.status(201).json({
+			participant,
+			guestToken: guestToken.token,
+			expiresAt: guestToken.expiresAt,
+		});
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error joining room as guest:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
 // POST /api/rooms/:roomId/leave - Leave room
 router.post('/:roomId/leave', authenticateUser, async (req: AuthenticatedRequest, res) => {
 	try {
@@ -383,6 +717,8 @@ router.post('/:roomId/leave', authenticateUser, async (req: AuthenticatedRequest
 			throw new APIError('Failed to leave room', 500, 'DATABASE_ERROR');
 		}
 
+		roomEvents.participantRemoved(participant.room_id, participant.id, 'left');
+
 		res.status(204).send();
 	} catch (error) {
 		if (error instanceof APIError) {
@@ -393,4 +729,162 @@ router.post('/:roomId/leave', authenticateUser, async (req: AuthenticatedRequest
 	}
 });
 
+// PATCH /api/rooms/:roomId/participants/:participantId - Change a participant's role
+router.patch('/:roomId/participants/:participantId', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, participantId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = updateParticipantSchema.parse(req.body);
+
+		const owner = await checkRoomAccess(userId, roomId!);
+		if (owner.role !== 'owner') {
+			throw new APIError('Only room owners can change roles', 403, 'ACCESS_DENIED');
+		}
+
+		const target = await getRoomParticipant(roomId!, participantId!);
+
+		if (target.role === 'owner') {
+			throw new APIError('Owners cannot be demoted; transfer ownership instead', 409, 'CANNOT_CHANGE_OWNER');
+		}
+
+		// Guests keep the room's guest role
+		if (!target.user_id) {
+			throw new APIError('Guest roles follow the room settings', 409, 'GUEST_ROLE_FIXED');
+		}
+
+		const { data: participant, error } = await supabase
+			.from('participants')
+			.update({ role: validatedData.role })
+			.eq('id', target.id)
+			.select()
+			.single();
+
+		if (error) {
+			throw new APIError('Failed to update participant', 500, 'DATABASE_ERROR');
+		}
+
+		roomEvents.participantUpdated(participant);
+
+		res.json({ participant });
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error updating participant:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// DELETE /api/rooms/:roomId/participants/:participantId - Remove a participant from the room
+router.delete('/:roomId/participants/:participantId', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId, participantId } = req.params;
+		const userId = req.user!.id;
+
+		const owner = await checkRoomAccess(userId, roomId!);
+		if (owner.role !== 'owner') {
+			throw new APIError('Only room owners can remove participants', 403, 'ACCESS_DENIED');
+		}
+
+		const target = await getRoomParticipant(roomId!, participantId!);
+
+		if (target.role === 'owner') {
+			throw new APIError('Owners cannot be removed from their room', 409, 'CANNOT_REMOVE_OWNER');
+		}
+
+		const { error } = await supabase
+			.from('participants')
+			.delete()
+			.eq('id', target.id);
+
+		if (error) {
+			throw new APIError('Failed to remove participant', 500, 'DATABASE_ERROR');
+		}
+
+		// Disconnects the participant's sockets from the room
+		roomEvents.participantRemoved(target.room_id, target.id, 'kicked');
+
+		res.status(204).send();
+	} catch (error) {
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error removing participant:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
+// POST /api/rooms/:roomId/transfer-ownership - Make another participant the room owner
+router.post('/:roomId/transfer-ownership', authenticateUser, async (req: AuthenticatedRequest, res) => {
+	try {
+		const { roomId } = req.params;
+		const userId = req.user!.id;
+		const validatedData = transferOwnershipSchema.parse(req.body);
+
+		const currentOwner = await checkRoomAccess(userId, roomId!);
+		if (currentOwner.role !== 'owner') {
+			throw new APIError('Only room owners can transfer ownership', 403, 'ACCESS_DENIED');
+		}
+
+		const target = await getRoomParticipant(roomId!, validatedData.participantId);
+
+		if (target.id === currentOwner.id) {
+			throw new APIError('You already own this room', 409, 'ALREADY_OWNER');
+		}
+
+		if (!target.user_id) {
+			throw new APIError('Ownership cannot be transferred to a guest', 409, 'GUEST_CANNOT_OWN');
+		}
+
+		// Promotion, room update and demotion happen in one transaction
+		const { data: room, error: transferError } = await supabase
+			.rpc('transfer_room_ownership', {
+				p_room_id: roomId!,
+				p_from_participant_id: currentOwner.id,
+				p_to_participant_id: target.id,
+			})
+			.single();
+
+		if (transferError || !room) {
+			if (transferError?.code === 'P0002') {
+				throw new APIError('Room not found', 404, 'ROOM_NOT_FOUND');
+			}
+			// Ownership or the target changed since the checks above
+			if (transferError?.code === '42501' || transferError?.code === '22023') {
+				throw new APIError('Room ownership changed, try again', 409, 'OWNERSHIP_CHANGED');
+			}
+			throw new APIError('Failed to transfer ownership', 500, 'DATABASE_ERROR');
+		}
+
+		const { data: participants, error: participantsError } = await supabase
+			.from('participants')
+			.select('*')
+			.in('id', [target.id, currentOwner.id]);
+
+		const newOwner = participants?.find(participant => participant.id === target.id);
+		const previousOwner = participants?.find(participant => participant.id === currentOwner.id);
+
+		if (participantsError || !newOwner || !previousOwner) {
+			throw new APIError('Failed to fetch participants', 500, 'DATABASE_ERROR');
+		}
+
+		roomEvents.participantUpdated(newOwner);
+		roomEvents.participantUpdated(previousOwner);
+
+		res.json({ room, owner: newOwner, previousOwner });
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return res.status(400).json({ error: 'Invalid request data', details: error.errors });
+		}
+		if (error instanceof APIError) {
+			return res.status(error.statusCode).json({ error: error.message, code: error.code });
+		}
+		console.error('Error transferring ownership:', error);
+		res.status(500).json({ error: 'Internal server error' });
+	}
+});
+
 export default router;
@@ -5,11 +5,44 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { DefaultEventsMap } from 'socket.io/dist/typed-events';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import { checkSupabaseConnection } from '../lib/supabase';
+import { checkSupabaseConnection, supabase } from '../lib/supabase';
 import { initializeDatabase } from '../lib/database-init';
+import { z } from 'zod';
+import { otServer, OperationError, OperationResult, PendingOperation } from '../lib/ot-server';
+import { documentSequencer } from '../lib/document-sequencer';
+import { pubsub } from '../lib/pubsub';
+import { createClusterAdapter } from '../lib/socket-cluster-adapter';
+import { documentSnapshotService, createSnapshot } from '../lib/document-snapshots';
+import { TextOperation } from '../lib/operational-transform';
+import { roomEvents, userChannel, documentChannel, UserNotification, RoomNotification, ParticipantRemoval, AppliedOperations } from '../lib/room-events';
+import { Document, DocumentConflict, Participant } from '../lib/supabase';
+import { toConflictPayload } from '../lib/document-conflicts';
+import { APIError } from './middleware/auth';
+import { authenticateSocket, requireRoomParticipant, requireDocumentAccess, forgetRoomParticipant, SocketData } from './middleware/socket-auth';
+import { getDocumentAccess, getDocumentAccessById } from '../lib/document-permissions';
+import { presenceService, PresenceState } from '../lib/presence-service';
+import { crdtDocuments } from '../lib/crdt-documents';
+import { crdtSyncServer } from '../lib/crdt-sync-server';
+import {
+	clientEventSchemas,
+	ClientEvent,
+	ClientEventPayload,
+	CursorPayload,
+	CursorPosition,
+	DocumentOpenedPayload,
+	DocumentPayload,
+	ErrorFrame,
+	ParticipantLeftPayload,
+	fetchRoomPayload,
+	toCursorPayload,
+	toDocumentPayload,
+	toOperationPayload,
+	toParticipantPayload,
+} from '../lib/socket-protocol';
 
 // Load environment variables
 dotenv.config();
@@ -18,15 +51,19 @@ const app = express();
 const server = createServer(app);
 
 // Socket.IO setup with CORS
-const io = new Server(server, {
+const io = new Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>(server, {
 	cors: {
 		origin: process.env.CORS_ORIGIN?.split(',') || ['https://octate.qzz.io', 'https://www.octate.qzz.io'],
 		methods: ['GET', 'POST'],
 		credentials: true
 	},
-	transports: ['websocket', 'polling']
+	transports: ['websocket', 'polling'],
+	// Upgrades on other paths belong to the CRDT sync server
+	destroyUpgrade: false
 });
 
+crdtSyncServer.attach(server);
+
 // Middleware
 app.use(helmet({
 	contentSecurityPolicy: {
@@ -41,7 +78,9 @@ app.use(helmet({
 
 app.use(cors({
 	origin: process.env.CORS_ORIGIN?.split(',') || ['https://octate.qzz.io', 'https://www.octate.qzz.io'],
-	credentials: true
+	credentials: true,
+	// Clients read document versions from ETags for conditional updates
+	exposedHeaders: ['ETag']
 }));
 
 app.use(express.json({ limit: '10mb' }));
@@ -63,77 +102,658 @@ app.get('/health', async (req, res) => {
 import roomsRouter from './routes/rooms.js';
 import documentsRouter from './routes/documents.js';
 import authRouter from './routes/auth.js';
+import cursorsRouter from './routes/cursors.js';
+import invitesRouter from './routes/invites.js';
+import joinRequestsRouter from './routes/join-requests.js';
+import permissionsRouter from './routes/permissions.js';
 
 app.use('/api/rooms', roomsRouter);
+app.use('/api/rooms', cursorsRouter);
+app.use('/api/rooms', invitesRouter);
+app.use('/api/rooms', joinRequestsRouter);
+app.use('/api/rooms', permissionsRouter);
 app.use('/api/documents', documentsRouter);
 app.use('/api/auth', authRouter);
 
+// Convert a socket handler failure into an error frame
+function toErrorFrame(event: string, error: unknown): ErrorFrame {
+	if (error instanceof z.ZodError) {
+		return { success: false, event, error: 'Invalid payload', code: 'INVALID_PAYLOAD', details: error.errors };
+	}
+	if (error instanceof APIError || error instanceof OperationError) {
+		return { success: false, event, error: error.message, code: error.code || 'ERROR' };
+	}
+	console.error(`Unhandled socket error in ${event}:`, error);
+	return { success: false, event, error: 'Internal server error', code: 'INTERNAL_ERROR' };
+}
+
+// Operation failures after which the client must compare its copy with the server's
+const RESYNC_ERROR_CODES = ['DOCUMENT_CHANGED', 'REVISION_UNAVAILABLE'];
+
+// Pub/sub channels for events every instance applies to its own sockets
+const DOCUMENT_BROADCAST_CHANNEL = 'socket:document-broadcast';
+const PARTICIPANT_UPDATED_CHANNEL = 'socket:participant-updated';
+const PARTICIPANT_REMOVED_CHANNEL = 'socket:participant-removed';
+
+interface DocumentBroadcast {
+	// Socket that caused the event, which does not receive it
+	senderId: string | null;
+	roomId: string;
+	documentId: string;
+	event: string;
+	payload: any;
+}
+
+// Broadcast a document event to the other sockets that have the document open, if their participant can still read it
+async function emitToDocumentReaders(senderId: string | null, roomId: string, documentId: string, event: string, payload: any): Promise<void> {
+	const broadcast: DocumentBroadcast = { senderId, roomId, documentId, event, payload };
+	await pubsub.publish(DOCUMENT_BROADCAST_CHANNEL, broadcast);
+}
+
+pubsub.subscribe(DOCUMENT_BROADCAST_CHANNEL, async ({ senderId, roomId, documentId, event, payload }: DocumentBroadcast) => {
+	const sockets = await io.local.in(documentChannel(documentId)).fetchSockets();
+	for (const target of sockets) {
+		const participant = target.data.participants[roomId];
+		if (target.id === senderId || !participant) {
+			continue;
+		}
+		if (await getDocumentAccessById(participant, documentId) !== 'none') {
+			target.emit(event, payload);
+		}
+	}
+});
+
+// Presence bookkeeping must never fail the socket event that triggered it
+function trackPresence(update: Promise<void>): void {
+	update.catch(error => console.error('Failed to update presence:', error));
+}
+
+// Authenticate every socket during the handshake
+io.use(authenticateSocket);
+
+// Deliver notifications raised by REST routes
+roomEvents.on('user-notification', (notification: UserNotification) => {
+	for (const userId of notification.userIds) {
+		io.to(userChannel(userId)).emit(notification.event, notification.payload);
+	}
+});
+
+roomEvents.on('room-notification', (notification: RoomNotification) => {
+	io.to(notification.roomId).emit(notification.event, notification.payload);
+});
+
+// Merged conflicts are recorded by whichever instance sequences the document
+otServer.on('conflict-recorded', (roomId: string, conflict: DocumentConflict) => {
+	roomEvents.notifyRoom(roomId, 'conflict-recorded', { conflict: toConflictPayload(conflict) });
+});
+
+// Keep participant rows cached on sockets in line with changes made over REST.
+// Socket data can only be changed on the instance holding the socket, so every instance handles its own.
+roomEvents.on('participant-updated', (participant: Participant) => {
+	pubsub.publish(PARTICIPANT_UPDATED_CHANNEL, participant)
+		.catch(error => console.error('Failed to publish participant update:', error));
+});
+
+roomEvents.on('participant-removed', (removal: ParticipantRemoval) => {
+	pubsub.publish(PARTICIPANT_REMOVED_CHANNEL, removal)
+		.catch(error => console.error('Failed to publish participant removal:', error));
+});
+
+// Documents replaced over REST must be reloaded by everyone who has them open
+roomEvents.on('document-updated', (document: Document) => {
+	emitToDocumentReaders(null, document.room_id, document.id, 'document-updated', { document: toDocumentPayload(document) })
+		.catch(error => console.error('Failed to publish document update:', error));
+});
+
+// Operations submitted over REST reach open copies like socket operations
+roomEvents.on('operations-applied', async ({ roomId, documentId, entries }: AppliedOperations) => {
+	try {
+		for (const entry of entries) {
+			const operation = toOperationPayload(documentId, entry);
+			await emitToDocumentReaders(null, roomId, documentId, 'operation-received', { operation });
+		}
+	} catch (error) {
+		console.error('Failed to publish applied operations:', error);
+	}
+});
+
+pubsub.subscribe(PARTICIPANT_UPDATED_CHANNEL, async (participant: Participant) => {
+	const sockets = await io.local.in(participant.room_id).fetchSockets();
+	for (const socket of sockets) {
+		if (socket.data.participants[participant.room_id]?.id === participant.id) {
+			socket.data.participants[participant.room_id] = participant;
+		}
+	}
+	io.local.to(participant.room_id).emit('participant-updated', { participant: toParticipantPayload(participant) });
+	await crdtSyncServer.updateParticipant(participant);
+});
+
+pubsub.subscribe(PARTICIPANT_REMOVED_CHANNEL, async (removal: ParticipantRemoval) => {
+	const sockets = await io.local.in(removal.roomId).fetchSockets();
+	for (const socket of sockets) {
+		if (socket.data.participants[removal.roomId]?.id === removal.participantId) {
+			socket.emit('force-leave', { roomId: removal.roomId, reason: removal.reason });
+			socket.emit('room-left', { roomId: removal.roomId, reason: removal.reason });
+			await closeRoomDocuments(socket, removal.roomId, removal.participantId);
+			socket.leave(removal.roomId);
+			delete socket.data.participants[removal.roomId];
+		}
+	}
+	crdtSyncServer.removeParticipant(removal.roomId, removal.participantId);
+	presenceService.forget(removal.roomId, removal.participantId);
+	const payload: ParticipantLeftPayload = removal;
+	io.local.to(removal.roomId).emit('participant-left', payload);
+});
+
+// Broadcast presence changes, including idle/away transitions, to the room
+presenceService.on('presence-changed', (state: PresenceState) => {
+	io.to(state.roomId).emit('presence-update', state);
+});
+
+// Whether a participant still has a socket in the room, on any instance
+async function isParticipantConnected(roomId: string, participantId: string, exceptSocketId: string): Promise<boolean> {
+	const sockets = await io.in(roomId).fetchSockets();
+	return sockets.some(socket => socket.id !== exceptSocketId && socket.data.participants[roomId]?.id === participantId);
+}
+
+// Tell the room a participant is gone once their last socket has left it
+async function announceParticipantLeft(
+	roomId: string,
+	participant: Participant,
+	socketId: string,
+	reason: ParticipantLeftPayload['reason']
+): Promise<void> {
+	if (await isParticipantConnected(roomId, participant.id, socketId)) {
+		return;
+	}
+
+	const payload: ParticipantLeftPayload = {
+		roomId,
+		participantId: participant.id,
+		participant: toParticipantPayload(participant),
+		reason,
+	};
+	io.to(roomId).except(socketId).emit('participant-left', payload);
+}
+
+// Sockets whose open documents can be tracked, local or fetched from the cluster
+interface DocumentHolder {
+	id: string;
+	data: SocketData;
+	join(room: string): unknown;
+	leave(room: string): unknown;
+}
+
+// Whether a participant has a document open on another socket, on any instance
+async function isDocumentOpenElsewhere(documentId: string, participantId: string, exceptSocketId: string): Promise<boolean> {
+	const sockets = await io.in(documentChannel(documentId)).fetchSockets();
+	return sockets.some(socket => {
+		const roomId = socket.data.openDocuments?.[documentId];
+		return socket.id !== exceptSocketId && roomId !== undefined && socket.data.participants[roomId]?.id === participantId;
+	});
+}
+
+// Subscribe a socket to a document's events, announcing the participant's first open copy to the room
+async function openDocumentFor(socket: DocumentHolder, roomId: string, documentId: string, participantId: string): Promise<void> {
+	if (socket.data.openDocuments[documentId]) {
+		return;
+	}
+
+	const openElsewhere = await isDocumentOpenElsewhere(documentId, participantId, socket.id);
+	socket.data.openDocuments[documentId] = roomId;
+	socket.join(documentChannel(documentId));
+
+	if (!openElsewhere) {
+		const payload: DocumentOpenedPayload = { roomId, documentId, participantId };
+		io.to(roomId).emit('document-opened', payload);
+	}
+}
+
+// Unsubscribe a socket from a document, announcing when the participant's last open copy is gone
+async function closeDocumentFor(socket: DocumentHolder, documentId: string, participantId: string): Promise<void> {
+	const roomId = socket.data.openDocuments[documentId];
+	if (!roomId) {
+		return;
+	}
+
+	delete socket.data.openDocuments[documentId];
+	socket.leave(documentChannel(documentId));
+
+	if (!await isDocumentOpenElsewhere(documentId, participantId, socket.id)) {
+		const payload: DocumentOpenedPayload = { roomId, documentId, participantId };
+		io.to(roomId).emit('document-closed', payload);
+	}
+}
+
+async function closeRoomDocuments(socket: DocumentHolder, roomId: string, participantId: string): Promise<void> {
+	for (const [documentId, documentRoomId] of Object.entries(socket.data.openDocuments)) {
+		if (documentRoomId === roomId) {
+			await closeDocumentFor(socket, documentId, participantId);
+		}
+	}
+}
+
+// Participants with each document of a room open, keyed by document id
+async function getOpenDocuments(roomId: string): Promise<Record<string, string[]>> {
+	const sockets = await io.in(roomId).fetchSockets();
+	const openDocuments: Record<string, string[]> = {};
+
+	for (const socket of sockets) {
+		const participantId = socket.data.participants[roomId]?.id;
+		if (!participantId) {
+			continue;
+		}
+		for (const [documentId, documentRoomId] of Object.entries(socket.data.openDocuments || {})) {
+			if (documentRoomId !== roomId) {
+				continue;
+			}
+			const participants = openDocuments[documentId] || [];
+			if (!participants.includes(participantId)) {
+				participants.push(participantId);
+			}
+			openDocuments[documentId] = participants;
+		}
+	}
+
+	return openDocuments;
+}
+
+// Find a room's document by path, creating it from the client's copy when it does not exist yet
+async function findOrCreateDocument(
+	participant: Participant,
+	data: ClientEventPayload<'open-document'>
+): Promise<{ document: Document; created: boolean }> {
+	const { data: existing, error } = await supabase
+		.from('documents')
+		.select('*')
+		.eq('room_id', data.roomId)
+		.eq('file_path', data.filePath)
+		.maybeSingle();
+
+	if (error) {
+		throw new APIError('Failed to fetch document', 500, 'DATABASE_ERROR');
+	}
+	if (existing) {
+		return { document: existing, created: false };
+	}
+
+	// Creating requires write access to the path, including path rules covering the new file
+	const access = await getDocumentAccess(participant, { id: null, file_path: data.filePath });
+	if (access !== 'write') {
+		throw new APIError('Insufficient permissions to create documents at this path', 403, 'ACCESS_DENIED');
+	}
+
+	const { data: document, error: insertError } = await supabase
+		.from('documents')
+		.insert({
+			room_id: data.roomId,
+			file_path: data.filePath,
+			content: data.content,
+			language: data.language,
+			version: 1,
+			size_bytes: Buffer.byteLength(data.content, 'utf8'),
+			line_count: Math.max(1, data.content.split('\n').length),
+			last_operation_timestamp: new Date().toISOString(),
+			metadata: {},
+		})
+		.select()
+		.single();
+
+	// Someone else opened the same path first; use their document
+	if (insertError?.code === '23505') {
+		return findOrCreateDocument(participant, data);
+	}
+	if (insertError) {
+		throw new APIError('Failed to create document', 500, 'DATABASE_ERROR');
+	}
+
+	// The initial snapshot is the starting point for replaying the operation log
+	await createSnapshot(document.id, document.version, document.content);
+	return { document, created: true };
+}
+
+// Sequenced document content, with the details kept on the document row
+async function loadDocumentPayload(documentId: string): Promise<DocumentPayload> {
+	const { data: document, error } = await supabase
+		.from('documents')
+		.select('*, rooms!inner(editing_mode)')
+		.eq('id', documentId)
+		.maybeSingle();
+
+	if (error) {
+		throw new APIError('Failed to fetch document', 500, 'DATABASE_ERROR');
+	}
+	if (!document) {
+		throw new APIError('Document not found', 404, 'DOCUMENT_NOT_FOUND');
+	}
+
+	// The row of a CRDT document lags behind edits until they are compacted
+	if ((document.rooms as { editing_mode: string }).editing_mode === 'crdt') {
+		return toDocumentPayload({ ...document, content: await crdtDocuments.getContent(documentId) });
+	}
+
+	const state = await documentSequencer.getDocumentState(documentId);
+	return toDocumentPayload({ ...document, content: state.content, version: state.revision });
+}
+
 // WebSocket connection handling
 io.on('connection', (socket) => {
-	console.log(`Client connected: ${socket.id}`);
+	const user = socket.data.user;
+	console.log(`Client connected: ${socket.id} (${user ? `user ${user.id}` : `guest ${socket.data.guest!.participantId}`})`);
+
+	// Lets REST routes reach every socket of this user, e.g. for join request outcomes
+	if (user) {
+		socket.join(userChannel(user.id));
+	}
+
+	// Register a protocol event. The payload is validated first and the handler's result is
+	// acknowledged; failures go to the acknowledgement, or to an error frame when there is none.
+	const on = <E extends ClientEvent>(
+		event: E,
+		// `acknowledged` tells whether the result reaches the client through its callback
+		handler: (data: ClientEventPayload<E>, acknowledged: boolean) => Promise<Record<string, unknown> | void> | Record<string, unknown> | void
+	) => {
+		socket.on(event as string, async (...args: any[]) => {
+			const ack: ((response: any) => void) | undefined = typeof args[args.length - 1] === 'function' ? args.pop() : undefined;
+			try {
+				const data = clientEventSchemas[event].parse(args[0]) as ClientEventPayload<E>;
+				const result = await handler(data, ack !== undefined);
+				ack?.({ success: true, ...result });
+			} catch (error) {
+				const frame = toErrorFrame(event, error);
+				if (ack) {
+					ack(frame);
+				} else {
+					socket.emit('error', frame);
+				}
+			}
+		});
+	};
+
+	const requireJoinedRoom = (roomId: string) => {
+		if (!socket.rooms.has(roomId)) {
+			throw new APIError('Join the room first', 409, 'NOT_IN_ROOM');
+		}
+	};
 
 	// Join room for real-time collaboration
-	socket.on('join-room', (roomId: string) => {
+	on('join-room', async ({ roomId }, acknowledged) => {
+		const participant = await requireRoomParticipant(socket, roomId);
+		const room = await fetchRoomPayload(roomId);
+		if (!room) {
+			throw new APIError('Room not found', 404, 'ROOM_NOT_FOUND');
+		}
+
+		const rejoined = socket.rooms.has(roomId);
 		socket.join(roomId);
-		socket.to(roomId).emit('user-joined', { socketId: socket.id });
+		trackPresence(presenceService.join(socket.id, roomId, participant.id, {
+			userAgent: socket.handshake.headers['user-agent'],
+			ipAddress: socket.handshake.address,
+		}));
+
+		const participantPayload = toParticipantPayload(participant);
+		const openDocuments = await getOpenDocuments(roomId);
+		if (!acknowledged) {
+			socket.emit('room-joined', { room, openDocuments });
+		}
+		if (!rejoined) {
+			socket.to(roomId).emit('participant-joined', { participant: participantPayload });
+		}
 		console.log(`Socket ${socket.id} joined room ${roomId}`);
+		return { room, participant: participantPayload, openDocuments };
 	});
 
 	// Leave room
-	socket.on('leave-room', (roomId: string) => {
+	on('leave-room', async ({ roomId }) => {
+		if (!socket.rooms.has(roomId)) {
+			return;
+		}
+
+		const participant = socket.data.participants[roomId];
+		if (participant) {
+			await closeRoomDocuments(socket, roomId, participant.id);
+		}
 		socket.leave(roomId);
-		socket.to(roomId).emit('user-left', { socketId: socket.id });
+		forgetRoomParticipant(socket, roomId);
+		trackPresence(presenceService.leave(socket.id, roomId));
+		socket.emit('room-left', { roomId, reason: 'left' });
+		if (participant) {
+			await announceParticipantLeft(roomId, participant, socket.id, 'left');
+		}
 		console.log(`Socket ${socket.id} left room ${roomId}`);
 	});
 
-	// Handle document operations for Operational Transform
-	socket.on('operation', (data: {
-		roomId: string;
-		documentId: string;
-		operation: any;
-		clientId: string;
-	}) => {
-		// Broadcast operation to all other clients in the room
-		socket.to(data.roomId).emit('operation', data);
+	// Start working on a document: returns its current state and subscribes to its events
+	on('document-open', async ({ roomId, documentId }) => {
+		requireJoinedRoom(roomId);
+		const participant = await requireDocumentAccess(socket, roomId, documentId, 'read');
+		const document = await loadDocumentPayload(documentId);
+		await openDocumentFor(socket, roomId, documentId, participant.id);
+		trackPresence(presenceService.update(socket.id, roomId, { activityType: 'viewing', documentId }));
+		return { document };
 	});
 
-	// Handle cursor position updates
-	socket.on('cursor-update', (data: {
-		roomId: string;
-		documentId: string;
-		cursor: {
-			line: number;
-			column: number;
-			selection?: { start: any; end: any };
+	// Open a document by path, creating it from the client's copy if the room does not have it yet
+	on('open-document', async (data) => {
+		requireJoinedRoom(data.roomId);
+		const participant = await requireRoomParticipant(socket, data.roomId);
+		const { document: row, created } = await findOrCreateDocument(participant, data);
+
+		// Hidden documents are reported as missing
+		await requireDocumentAccess(socket, data.roomId, row.id, 'read');
+		const document = await loadDocumentPayload(row.id);
+		await openDocumentFor(socket, data.roomId, row.id, participant.id);
+		trackPresence(presenceService.update(socket.id, data.roomId, { activityType: 'viewing', documentId: row.id }));
+		return { document, created };
+	});
+
+	on('document-close', async ({ roomId, documentId }) => {
+		requireJoinedRoom(roomId);
+		await closeDocumentFor(socket, documentId, socket.data.participants[roomId].id);
+		trackPresence(presenceService.update(socket.id, roomId, { documentId: null }));
+		return { documentId };
+	});
+
+	// Handle document operations for Operational Transform
+	on('operation', async (data, acknowledged) => {
+		const participant = await requireDocumentAccess(socket, data.roomId, data.documentId, 'write');
+		const operationId = data.operationId || `${data.clientId}:${data.clientSequence}`;
+
+		let result: OperationResult;
+		try {
+			result = await documentSequencer.submitOperation({
+				documentId: data.documentId,
+				roomId: data.roomId,
+				participantId: participant.id,
+				clientId: data.clientId,
+				clientSequence: data.clientSequence,
+				baseRevision: data.revision,
+				operation: data.operation as TextOperation[],
+			});
+		} catch (error) {
+			console.error(`Operation rejected for document ${data.documentId}:`, error);
+			if (error instanceof OperationError && RESYNC_ERROR_CODES.includes(error.code)) {
+				socket.emit('sync-request', { roomId: data.roomId, documentId: data.documentId });
+			}
+			throw error;
+		}
+
+		// Revisions other writers stored in the meantime reach every reader, the sender included
+		for (const entry of result.missed) {
+			const operation = toOperationPayload(data.documentId, entry);
+			await emitToDocumentReaders(null, data.roomId, data.documentId, 'operation-received', { operation });
+		}
+
+		const acknowledgement = {
+			operationId,
+			documentId: data.documentId,
+			revision: result.revision,
+			clientSequence: data.clientSequence,
+			checksum: result.entry.checksum,
 		};
-		participant: {
-			id: string;
-			displayName: string;
-			color: string;
+		// Clients without a callback learn about the acknowledgement from the event instead
+		if (!acknowledged) {
+			socket.emit('operation-acknowledged', acknowledgement);
+		}
+		trackPresence(presenceService.update(socket.id, data.roomId, { activityType: 'editing', documentId: data.documentId }));
+
+		// Resent operations were already broadcast the first time
+		if (!result.duplicate) {
+			const operation = toOperationPayload(data.documentId, result.entry, operationId);
+			await emitToDocumentReaders(socket.id, data.roomId, data.documentId, 'operation-received', { operation });
+		}
+
+		return acknowledgement;
+	});
+
+	// Catch up after reconnecting: replays the revisions the client missed since its last
+	// acknowledged one, or sends a snapshot when they are gone, then applies its pending operations
+	on('resume', async (data) => {
+		requireJoinedRoom(data.roomId);
+		const required = data.pending.length > 0 ? 'write' : 'read';
+		const participant = await requireDocumentAccess(socket, data.roomId, data.documentId, required);
+		await openDocumentFor(socket, data.roomId, data.documentId, participant.id);
+
+		const result = await documentSequencer.resume({
+			documentId: data.documentId,
+			roomId: data.roomId,
+			participantId: participant.id,
+			clientId: data.clientId,
+			revision: data.revision,
+			pending: data.pending as PendingOperation[],
+		});
+
+		if (result.mode === 'snapshot') {
+			const document = await loadDocumentPayload(data.documentId);
+			return { mode: result.mode, document };
+		}
+
+		// The resuming client gets missed revisions in the reply instead
+		for (const applied of result.applied) {
+			if (!applied.duplicate) {
+				for (const entry of [...applied.missed, applied.entry]) {
+					const operation = toOperationPayload(data.documentId, entry);
+					await emitToDocumentReaders(socket.id, data.roomId, data.documentId, 'operation-received', { operation });
+				}
+			}
+		}
+		if (result.applied.length > 0) {
+			trackPresence(presenceService.update(socket.id, data.roomId, { activityType: 'editing', documentId: data.documentId }));
+		}
+
+		return {
+			mode: result.mode,
+			revision: result.revision,
+			checksum: result.checksum,
+			operations: result.operations.map(entry => toOperationPayload(data.documentId, entry)),
+			acknowledged: result.acknowledged,
 		};
-	}) => {
-		// Broadcast cursor position to all other clients in the room
-		socket.to(data.roomId).emit('cursor-update', data);
+	});
+
+	// Handle cursor position updates
+	on('cursor-update', async ({ roomId, documentId, cursor }) => {
+		const participant = await requireDocumentAccess(socket, roomId, documentId, 'read');
+		trackPresence(presenceService.update(socket.id, roomId, { documentId }));
+
+		// Broadcast cursor position to all other clients in the room that can see the document
+		await emitToDocumentReaders(socket.id, roomId, documentId, 'cursor-updated', {
+			cursor: toCursorPayload(participant, documentId, cursor.position as CursorPosition, cursor.selection as CursorPayload['selection']),
+		});
+	});
+
+	// Handle selection changes; the cursor sits at the end of the selection
+	on('selection-update', async ({ roomId, documentId, selection }) => {
+		const participant = await requireDocumentAccess(socket, roomId, documentId, 'read');
+		trackPresence(presenceService.update(socket.id, roomId, { documentId }));
+
+		await emitToDocumentReaders(socket.id, roomId, documentId, 'selection-updated', {
+			selection: toCursorPayload(participant, documentId, selection.end as CursorPosition, selection as CursorPayload['selection']),
+		});
 	});
 
 	// Handle presence updates
-	socket.on('presence-update', (data: {
-		roomId: string;
-		status: 'online' | 'away' | 'offline';
-		activity?: string;
-	}) => {
-		// Broadcast presence update to all other clients in the room
-		socket.to(data.roomId).emit('presence-update', {
-			...data,
-			socketId: socket.id
+	on('presence-update', async (data) => {
+		await requireRoomParticipant(socket, data.roomId);
+		requireJoinedRoom(data.roomId);
+
+		if (data.documentId) {
+			await requireDocumentAccess(socket, data.roomId, data.documentId, 'read');
+		}
+
+		// The presence service broadcasts the resulting state to the room
+		await presenceService.update(socket.id, data.roomId, {
+			status: data.status,
+			activityType: data.activity,
+			documentId: data.documentId,
 		});
 	});
 
+	// Keep presence active while the client is in use
+	on('presence-heartbeat', ({ roomId }) => {
+		trackPresence(presenceService.heartbeat(socket.id, roomId));
+	});
+
+	// Send the server's copy of a document
+	on('sync-request', async ({ roomId, documentId }, acknowledged) => {
+		await requireDocumentAccess(socket, roomId, documentId, 'read');
+		const document = await loadDocumentPayload(documentId);
+		if (!acknowledged) {
+			socket.emit('sync-response', { document });
+		}
+		return { document };
+	});
+
+	// Compare the client's copy, reported after a server sync-request, with the server's
+	on('sync-report', async ({ roomId, documentId, content, version }) => {
+		await requireDocumentAccess(socket, roomId, documentId, 'read');
+		const document = await loadDocumentPayload(documentId);
+		const inSync = document.version === version && document.content === content;
+
+		// Unacknowledged edits of a diverged client are dropped along with its copy
+		if (!inSync) {
+			socket.emit('document-updated', { document });
+		}
+		return { inSync };
+	});
+
+	// A client's copy no longer matches the checksum of a revision it applied; record the
+	// incident and answer with the server's copy for the client to rebase its edits onto
+	on('divergence-report', async ({ roomId, documentId, revision, clientId, expectedChecksum, actualChecksum }) => {
+		const participant = await requireDocumentAccess(socket, roomId, documentId, 'read');
+		console.warn(`Client ${clientId} of participant ${participant.id} diverged from document ${documentId} at revision ${revision}`, {
+			expectedChecksum,
+			actualChecksum,
+		});
+
+		const document = await loadDocumentPayload(documentId);
+		return { document };
+	});
+
+	on('ping', ({ timestamp }, acknowledged) => {
+		const pong = { timestamp, serverTime: new Date().toISOString() };
+		if (!acknowledged) {
+			socket.emit('pong', pong);
+		}
+		return pong;
+	});
+
+	// Notify only the rooms this socket was in, while its rooms are still known
+	socket.on('disconnecting', () => {
+		for (const roomId of Array.from(socket.rooms)) {
+			const participant = socket.data.participants[roomId];
+			if (roomId === socket.id || !participant) {
+				continue;
+			}
+			closeRoomDocuments(socket, roomId, participant.id)
+				.then(() => announceParticipantLeft(roomId, participant, socket.id, 'disconnected'))
+				.catch(error => console.error('Failed to announce disconnected participant:', error));
+		}
+	});
+
 	// Handle disconnection
 	socket.on('disconnect', () => {
 		console.log(`Client disconnected: ${socket.id}`);
-		// Notify all rooms this socket was in about the disconnection
-		socket.broadcast.emit('user-disconnected', { socketId: socket.id });
+		trackPresence(presenceService.disconnect(socket.id));
 	});
 });
 
@@ -179,6 +799,13 @@ async function startServer() {
 		}
 	}
 
+	// Connect to the other instances before accepting sockets
+	await pubsub.connect();
+	if (pubsub.distributed) {
+		io.adapter(createClusterAdapter(pubsub));
+		console.log(`🔀 Cluster mode enabled (instance ${pubsub.instanceId})`);
+	}
+
 	server.listen(PORT, () => {
 		console.log(`🚀 Octate collaboration backend running on port ${PORT}`);
 		console.log(`📡 WebSocket server ready for real-time collaboration`);
@@ -194,6 +821,12 @@ startServer().catch(console.error);
 // Graceful shutdown
 process.on('SIGTERM', () => {
 	console.log('SIGTERM received, shutting down gracefully');
+	documentSnapshotService.dispose();
+	otServer.dispose();
+	crdtSyncServer.dispose();
+	crdtDocuments.dispose();
+	presenceService.dispose();
+	pubsub.close().catch(error => console.error('Failed to close pub/sub adapter:', error));
 	server.close(() => {
 		console.log('Server closed');
 		process.exit(0);
@@ -100,6 +100,117 @@ CREATE TABLE IF NOT EXISTS presence (
     UNIQUE(room_id, participant_id)
 );
 
+-- Columns added after the tables above were first created
+-- Separate statements, so running this script again upgrades existing databases
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS guest_role TEXT DEFAULT 'viewer' CHECK (guest_role IN ('editor', 'viewer'));
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS editing_mode TEXT DEFAULT 'ot' CHECK (editing_mode IN ('ot', 'crdt'));
+
+-- Full operations as recorded by apply_operation
+ALTER TABLE operations ALTER COLUMN operation_data DROP NOT NULL;
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS position INTEGER CHECK (position >= 0);
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS length INTEGER CHECK (length >= 0);
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS content TEXT;
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS components JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(components) = 'array');
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS base_version INTEGER CHECK (base_version >= 1);
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS client_sequence INTEGER CHECK (client_sequence >= 0);
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS server_sequence INTEGER DEFAULT nextval('operations_server_seq');
+ALTER TABLE operations ADD COLUMN IF NOT EXISTS timestamp TIMESTAMPTZ DEFAULT NOW();
+
+-- Compacted document checkpoints
+CREATE TABLE IF NOT EXISTS document_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB DEFAULT '{}'::JSONB,
+    UNIQUE(document_id, version),
+    CONSTRAINT document_snapshots_version_check CHECK (version >= 1)
+);
+
+-- Yjs updates of documents in CRDT rooms
+CREATE TABLE IF NOT EXISTS document_crdt_updates (
+    id BIGSERIAL PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    update TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Concurrent edits of the same text
+CREATE TABLE IF NOT EXISTS document_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    base_version INTEGER NOT NULL,
+    applied_version INTEGER NOT NULL,
+    server_operation JSONB NOT NULL,
+    server_participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+    client_operation JSONB NOT NULL,
+    client_participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+    client_id UUID NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    resolution TEXT CHECK (resolution IN ('server', 'client', 'merged')),
+    resolved_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+    resolved_version INTEGER,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB DEFAULT '{}'::JSONB,
+    CONSTRAINT document_conflicts_base_version_check CHECK (base_version >= 1),
+    CONSTRAINT document_conflicts_applied_version_check CHECK (applied_version > base_version)
+);
+
+-- Room invitations
+CREATE TABLE IF NOT EXISTS room_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    created_by UUID,
+    role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+    max_uses INTEGER CHECK (max_uses >= 1),
+    use_count INTEGER NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB DEFAULT '{}'::JSONB
+);
+
+-- Requests to join rooms that require owner approval
+CREATE TABLE IF NOT EXISTS join_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    invite_id UUID REFERENCES room_invites(id) ON DELETE SET NULL,
+    role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+    display_name VARCHAR(100),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+    decided_by UUID,
+    decided_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB DEFAULT '{}'::JSONB
+);
+
+-- Per-document access rules
+CREATE TABLE IF NOT EXISTS document_permissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    created_by UUID,
+    document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+    path_pattern TEXT,
+    participant_id UUID REFERENCES participants(id) ON DELETE CASCADE,
+    role TEXT CHECK (role IN ('editor', 'viewer')),
+    access TEXT NOT NULL CHECK (access IN ('none', 'read', 'write')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB DEFAULT '{}'::JSONB,
+    CONSTRAINT document_permissions_target_check CHECK ((document_id IS NULL) <> (path_pattern IS NULL)),
+    CONSTRAINT document_permissions_subject_check CHECK (participant_id IS NULL OR role IS NULL)
+);
+
+-- Large pub/sub messages between server instances
+CREATE TABLE IF NOT EXISTS pubsub_attachments (
+    id BIGSERIAL PRIMARY KEY,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_participants_room_id ON participants(room_id);
 CREATE INDEX IF NOT EXISTS idx_participants_user_id ON participants(user_id);
@@ -108,6 +219,16 @@ CREATE INDEX IF NOT EXISTS idx_operations_document_id ON operations(document_id)
 CREATE INDEX IF NOT EXISTS idx_operations_timestamp ON operations(server_timestamp);
 CREATE INDEX IF NOT EXISTS idx_cursors_document_id ON cursors(document_id);
 CREATE INDEX IF NOT EXISTS idx_presence_room_id ON presence(room_id);
+CREATE INDEX IF NOT EXISTS idx_operations_client_id_sequence ON operations(client_id, client_sequence);
+CREATE INDEX IF NOT EXISTS idx_operations_document_base_version ON operations(document_id, base_version);
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_document_version ON document_snapshots(document_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_document_crdt_updates_document_id ON document_crdt_updates(document_id, id);
+CREATE INDEX IF NOT EXISTS idx_document_conflicts_document_status ON document_conflicts(document_id, status);
+CREATE INDEX IF NOT EXISTS idx_room_invites_room_id ON room_invites(room_id);
+CREATE INDEX IF NOT EXISTS idx_join_requests_room_id_status ON join_requests(room_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_join_requests_pending ON join_requests(room_id, user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_document_permissions_room_id ON document_permissions(room_id);
+CREATE INDEX IF NOT EXISTS idx_pubsub_attachments_created_at ON pubsub_attachments(created_at);
 
 -- Create updated_at triggers
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -125,6 +246,236 @@ CREATE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms FOR EACH ROW EXECU
 DROP TRIGGER IF EXISTS update_documents_updated_at ON documents;
 CREATE TRIGGER update_documents_updated_at BEFORE UPDATE ON documents FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Functions the server calls
+
+-- Function to redeem a room invite
+-- Counts one use and returns the invite's role, or NULL when the invite is revoked, expired or used up
+CREATE OR REPLACE FUNCTION redeem_room_invite(
+    p_invite_id UUID,
+    p_room_id UUID
+)
+RETURNS TEXT AS $$
+DECLARE
+    invite_role TEXT;
+BEGIN
+    UPDATE room_invites
+    SET use_count = use_count + 1
+    WHERE id = p_invite_id
+    AND room_id = p_room_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+    AND (max_uses IS NULL OR use_count < max_uses)
+    RETURNING role INTO invite_role;
+
+    RETURN invite_role;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to give back a use of a room invite
+-- Join requests count a use when they are made; a denied request returns it
+CREATE OR REPLACE FUNCTION release_room_invite(
+    p_invite_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE room_invites
+    SET use_count = use_count - 1
+    WHERE id = p_invite_id
+    AND use_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to hand a room to another participant
+-- Promotes the new owner, points the room at them and demotes the previous owner to editor in one
+-- transaction, so the room always has exactly one owner. Returns the updated room.
+CREATE OR REPLACE FUNCTION transfer_room_ownership(
+    p_room_id UUID,
+    p_from_participant_id UUID,
+    p_to_participant_id UUID
+)
+RETURNS SETOF rooms AS $$
+DECLARE
+    new_owner_user_id UUID;
+BEGIN
+    -- Lock the room so concurrent transfers are applied one after the other
+    PERFORM 1 FROM rooms r WHERE r.id = p_room_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Room % not found', p_room_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM participants p
+        WHERE p.id = p_from_participant_id AND p.room_id = p_room_id AND p.role = 'owner'
+    ) THEN
+        RAISE EXCEPTION 'Participant % does not own room %', p_from_participant_id, p_room_id USING ERRCODE = '42501';
+    END IF;
+
+    SELECT p.user_id INTO new_owner_user_id
+    FROM participants p
+    WHERE p.id = p_to_participant_id AND p.room_id = p_room_id;
+
+    -- Guests have no user to own the room
+    IF new_owner_user_id IS NULL THEN
+        RAISE EXCEPTION 'Participant % cannot own room %', p_to_participant_id, p_room_id USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE participants SET role = 'owner' WHERE id = p_to_participant_id;
+    UPDATE participants SET role = 'editor' WHERE id = p_from_participant_id;
+
+    RETURN QUERY
+    UPDATE rooms r
+    SET owner_id = new_owner_user_id, updated_at = NOW()
+    WHERE r.id = p_room_id
+    RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to apply a text operation to a string
+-- Components are {"type": "retain"|"delete", "count": n} or {"type": "insert", "text": s}. Counts are
+-- UTF-16 code units, as in JavaScript strings, so characters outside the Basic Multilingual Plane
+-- count twice. Text after the last component is kept.
+CREATE OR REPLACE FUNCTION apply_text_operation(
+    p_content TEXT,
+    p_components JSONB
+)
+RETURNS TEXT AS $$
+DECLARE
+    chars TEXT[] := string_to_array(p_content, NULL);
+    total INTEGER := COALESCE(array_length(chars, 1), 0);
+    -- Without such characters code units and characters coincide
+    has_wide_chars BOOLEAN := p_content ~ '[\U00010000-\U0010FFFF]';
+    component JSONB;
+    units INTEGER;
+    span INTEGER;
+    next_char INTEGER := 1;
+    result TEXT := '';
+BEGIN
+    FOR component IN SELECT value FROM jsonb_array_elements(p_components) LOOP
+        IF component->>'type' = 'insert' THEN
+            result := result || COALESCE(component->>'text', '');
+            CONTINUE;
+        END IF;
+
+        IF component->>'type' NOT IN ('retain', 'delete') THEN
+            RAISE EXCEPTION 'Unknown operation component: %', component->>'type' USING ERRCODE = '22023';
+        END IF;
+
+        units := COALESCE((component->>'count')::INTEGER, 0);
+        span := units;
+        IF has_wide_chars THEN
+            span := 0;
+            WHILE units > 0 AND next_char + span <= total LOOP
+                units := units - CASE WHEN ascii(chars[next_char + span]) > 65535 THEN 2 ELSE 1 END;
+                span := span + 1;
+            END LOOP;
+            IF units > 0 THEN
+                span := total + 1;
+            END IF;
+        END IF;
+
+        IF next_char + span - 1 > total THEN
+            RAISE EXCEPTION 'Operation does not fit the document' USING ERRCODE = '22023';
+        END IF;
+
+        IF component->>'type' = 'retain' THEN
+            result := result || array_to_string(chars[next_char:next_char + span - 1], '');
+        END IF;
+        next_char := next_char + span;
+    END LOOP;
+
+    RETURN result || array_to_string(chars[next_char:total], '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function to apply operation to document
+-- Applies a full operation only while the document is still at p_base_version, updating the
+-- document and recording the operation in one transaction. When the document has moved on
+-- nothing changes and `applied` is FALSE with the current version, so the caller can transform
+-- the operation against the ones it missed and retry.
+CREATE OR REPLACE FUNCTION apply_operation(
+    p_document_id UUID,
+    p_participant_id UUID,
+    p_components JSONB,
+    p_base_version INTEGER,
+    p_client_id UUID,
+    p_client_sequence INTEGER,
+    p_timestamp TIMESTAMPTZ DEFAULT NOW(),
+    p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE (applied BOOLEAN, new_version INTEGER, new_server_sequence INTEGER) AS $$
+DECLARE
+    current_content TEXT;
+    current_version INTEGER;
+    new_content TEXT;
+    component JSONB;
+    summary_type TEXT := 'retain';
+    summary_position INTEGER := 0;
+    summary_length INTEGER;
+    summary_content TEXT;
+    recorded_sequence INTEGER;
+BEGIN
+    -- Lock the row so concurrent callers are applied one after the other
+    SELECT d.content, d.version INTO current_content, current_version
+    FROM documents d
+    WHERE d.id = p_document_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document % not found', p_document_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_version <> p_base_version THEN
+        RETURN QUERY SELECT FALSE, current_version, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    new_content := apply_text_operation(current_content, p_components);
+
+    UPDATE documents d
+    SET
+        content = new_content,
+        version = current_version + 1,
+        size_bytes = octet_length(new_content),
+        line_count = length(new_content) - length(replace(new_content, E'\n', '')) + 1,
+        last_operation_timestamp = p_timestamp,
+        updated_at = p_timestamp
+    WHERE d.id = p_document_id;
+
+    -- The legacy columns summarize the first non-retain component
+    FOR component IN SELECT value FROM jsonb_array_elements(p_components) LOOP
+        IF component->>'type' = 'retain' THEN
+            summary_position := summary_position + COALESCE((component->>'count')::INTEGER, 0);
+            CONTINUE;
+        END IF;
+
+        summary_type := component->>'type';
+        summary_content := CASE WHEN summary_type = 'insert' THEN COALESCE(component->>'text', '') END;
+        summary_length := CASE
+            WHEN summary_type = 'insert' THEN length(summary_content)
+            ELSE COALESCE((component->>'count')::INTEGER, 0)
+        END;
+        EXIT;
+    END LOOP;
+
+    IF summary_type = 'retain' THEN
+        summary_length := summary_position;
+        summary_position := 0;
+    END IF;
+
+    INSERT INTO operations (
+        document_id, participant_id, operation_type, position, length, content,
+        components, base_version, client_id, client_sequence, timestamp, metadata
+    ) VALUES (
+        p_document_id, p_participant_id, summary_type, summary_position, summary_length, summary_content,
+        p_components, p_base_version, p_client_id, p_client_sequence, p_timestamp, p_metadata
+    )
+    RETURNING operations.server_sequence INTO recorded_sequence;
+
+    RETURN QUERY SELECT TRUE, current_version + 1, recorded_sequence;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Enable Row Level Security (RLS) - but make it permissive for now
 ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
@@ -132,6 +483,14 @@ ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE operations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cursors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_crdt_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_conflicts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_permissions ENABLE ROW LEVEL SECURITY;
+-- Only read by the servers over a direct connection, so no policy
+ALTER TABLE pubsub_attachments ENABLE ROW LEVEL SECURITY;
 
 -- Create permissive policies for development (tighten these in production)
 CREATE POLICY "Allow all operations on rooms" ON rooms FOR ALL USING (true);
@@ -140,6 +499,12 @@ CREATE POLICY "Allow all operations on documents" ON documents FOR ALL USING (tr
 CREATE POLICY "Allow all operations on operations" ON operations FOR ALL USING (true);
 CREATE POLICY "Allow all operations on cursors" ON cursors FOR ALL USING (true);
 CREATE POLICY "Allow all operations on presence" ON presence FOR ALL USING (true);
+CREATE POLICY "Allow all operations on document_snapshots" ON document_snapshots FOR ALL USING (true);
+CREATE POLICY "Allow all operations on document_crdt_updates" ON document_crdt_updates FOR ALL USING (true);
+CREATE POLICY "Allow all operations on document_conflicts" ON document_conflicts FOR ALL USING (true);
+CREATE POLICY "Allow all operations on room_invites" ON room_invites FOR ALL USING (true);
+CREATE POLICY "Allow all operations on join_requests" ON join_requests FOR ALL USING (true);
+CREATE POLICY "Allow all operations on document_permissions" ON document_permissions FOR ALL USING (true);
 
 -- Create a test room to verify everything works
 INSERT INTO rooms (name, description, allow_anonymous)
@@ -10,6 +10,7 @@ CREATE TYPE room_status AS ENUM ('active', 'inactive', 'archived');
 CREATE TYPE participant_role AS ENUM ('owner', 'editor', 'viewer');
 CREATE TYPE presence_status AS ENUM ('online', 'away', 'offline');
 CREATE TYPE operation_type AS ENUM ('insert', 'delete', 'retain', 'cursor_move', 'selection_change');
+CREATE TYPE editing_mode AS ENUM ('ot', 'crdt');
 
 -- Collaboration Rooms
 CREATE TABLE rooms (
@@ -26,12 +27,15 @@ CREATE TABLE rooms (
     -- Room settings
     allow_anonymous BOOLEAN DEFAULT false,
     require_approval BOOLEAN DEFAULT false,
+    guest_role participant_role DEFAULT 'viewer', -- Role of anonymous guests
+    editing_mode editing_mode DEFAULT 'ot', -- Operational transform over Socket.IO, or Yjs documents over y-websocket
 
     -- Metadata
     metadata JSONB DEFAULT '{}'::JSONB,
 
     -- Indexes for performance
-    CONSTRAINT rooms_name_check CHECK (length(name) >= 1 AND length(name) <= 255)
+    CONSTRAINT rooms_name_check CHECK (length(name) >= 1 AND length(name) <= 255),
+    CONSTRAINT rooms_guest_role_check CHECK (guest_role <> 'owner')
 );
 
 -- Room Participants
@@ -114,6 +118,10 @@ CREATE TABLE operations (
     length INTEGER, -- For delete operations
     content TEXT, -- For insert operations
 
+    -- Full operation (retain/insert/delete components) and the document version it applies to
+    components JSONB NOT NULL DEFAULT '[]'::JSONB,
+    base_version INTEGER,
+
     -- Operational Transform data
     client_id UUID NOT NULL, -- Client that generated the operation
     client_sequence INTEGER NOT NULL, -- Client's sequence number
@@ -133,11 +141,83 @@ CREATE TABLE operations (
     CONSTRAINT operations_position_check CHECK (position >= 0),
     CONSTRAINT operations_length_check CHECK (length IS NULL OR length >= 0),
     CONSTRAINT operations_client_sequence_check CHECK (client_sequence >= 0),
-    CONSTRAINT operations_server_sequence_check CHECK (server_sequence >= 0)
+    CONSTRAINT operations_server_sequence_check CHECK (server_sequence >= 0),
+    CONSTRAINT operations_components_check CHECK (jsonb_typeof(components) = 'array'),
+    CONSTRAINT operations_base_version_check CHECK (base_version IS NULL OR base_version >= 1)
 );
 
 
 
+-- Compacted document checkpoints
+-- Older versions are rebuilt by replaying operations from the nearest snapshot
+CREATE TABLE document_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::JSONB,
+
+    -- Constraints
+    UNIQUE(document_id, version),
+
+    -- Check constraints
+    CONSTRAINT document_snapshots_version_check CHECK (version >= 1)
+);
+
+-- Yjs updates of documents in CRDT rooms
+-- Appended as they arrive and periodically merged into one, while the text is written back to documents.content
+CREATE TABLE document_crdt_updates (
+    id BIGSERIAL PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    update TEXT NOT NULL, -- Base64-encoded Yjs update
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Concurrent edits of the same text, kept for participants to review or resolve
+-- Both sides are operations on the document at base_version; the server side is the one that was sequenced.
+-- Conflicts recorded by the OT engine were merged into applied_version; manual ones held the client side back.
+CREATE TABLE document_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    base_version INTEGER NOT NULL,
+    applied_version INTEGER NOT NULL, -- Version a resolution is made against
+
+    -- Server side
+    server_operation JSONB NOT NULL,
+    server_participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+
+    -- Client side, merged or held back until resolved
+    client_operation JSONB NOT NULL,
+    client_participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+    client_id UUID NOT NULL,
+
+    -- Resolution
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    resolution VARCHAR(20),
+    resolved_by UUID REFERENCES participants(id) ON DELETE SET NULL,
+    resolved_version INTEGER, -- Version that applied the resolution, if it changed the document
+    resolved_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::JSONB,
+
+    -- Check constraints
+    CONSTRAINT document_conflicts_base_version_check CHECK (base_version >= 1),
+    CONSTRAINT document_conflicts_applied_version_check CHECK (applied_version > base_version),
+    CONSTRAINT document_conflicts_status_check CHECK (status IN ('open', 'resolved')),
+    CONSTRAINT document_conflicts_resolution_check CHECK (resolution IS NULL OR resolution IN ('server', 'client', 'merged'))
+);
+
 -- Cursor positions and selections (separate table for real-time updates)
 CREATE TABLE cursors (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -196,6 +276,96 @@ CREATE TABLE presence (
     UNIQUE(participant_id, room_id)
 );
 
+-- Room invitations
+-- Invite tokens are signed JWTs that reference a row here, so they can be revoked and counted
+CREATE TABLE room_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    -- Invite settings
+    role participant_role NOT NULL DEFAULT 'editor',
+    max_uses INTEGER, -- NULL for unlimited
+    use_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::JSONB,
+
+    -- Check constraints
+    CONSTRAINT room_invites_role_check CHECK (role <> 'owner'),
+    CONSTRAINT room_invites_max_uses_check CHECK (max_uses IS NULL OR max_uses >= 1),
+    CONSTRAINT room_invites_use_count_check CHECK (use_count >= 0)
+);
+
+-- Requests to join rooms that require owner approval
+CREATE TABLE join_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invite_id UUID REFERENCES room_invites(id) ON DELETE SET NULL,
+
+    -- Request details
+    role participant_role NOT NULL DEFAULT 'editor', -- Role granted on approval
+    display_name VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+
+    -- Decision
+    decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::JSONB,
+
+    -- Check constraints
+    CONSTRAINT join_requests_status_check CHECK (status IN ('pending', 'approved', 'denied')),
+    CONSTRAINT join_requests_role_check CHECK (role <> 'owner')
+);
+
+-- Per-document access rules narrowing what a participant's room role allows
+CREATE TABLE document_permissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    -- Target: a single document or a path glob such as 'secrets/**'
+    document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+    path_pattern TEXT,
+
+    -- Subject: one participant, everyone with a role, or everyone when both are NULL
+    participant_id UUID REFERENCES participants(id) ON DELETE CASCADE,
+    role participant_role,
+
+    access VARCHAR(10) NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Metadata
+    metadata JSONB DEFAULT '{}'::JSONB,
+
+    -- Check constraints
+    CONSTRAINT document_permissions_access_check CHECK (access IN ('none', 'read', 'write')),
+    CONSTRAINT document_permissions_target_check CHECK ((document_id IS NULL) <> (path_pattern IS NULL)),
+    CONSTRAINT document_permissions_subject_check CHECK (participant_id IS NULL OR role IS NULL),
+    CONSTRAINT document_permissions_role_check CHECK (role IS NULL OR role <> 'owner')
+);
+
+-- Large pub/sub messages between server instances
+-- NOTIFY payloads are limited to 8000 bytes, so bigger ones are stored here and referenced by id
+CREATE TABLE pubsub_attachments (
+    id BIGSERIAL PRIMARY KEY,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Indexes for performance optimization
 CREATE INDEX idx_rooms_owner_id ON rooms(owner_id);
 CREATE INDEX idx_rooms_status ON rooms(status);
@@ -215,6 +385,13 @@ CREATE INDEX idx_operations_participant_id ON operations(participant_id);
 CREATE INDEX idx_operations_timestamp ON operations(timestamp);
 CREATE INDEX idx_operations_server_sequence ON operations(server_sequence);
 CREATE INDEX idx_operations_client_id_sequence ON operations(client_id, client_sequence);
+CREATE INDEX idx_operations_document_base_version ON operations(document_id, base_version);
+
+CREATE INDEX idx_document_snapshots_document_version ON document_snapshots(document_id, version DESC);
+
+CREATE INDEX idx_document_crdt_updates_document_id ON document_crdt_updates(document_id, id);
+
+CREATE INDEX idx_document_conflicts_document_status ON document_conflicts(document_id, status);
 
 CREATE INDEX idx_cursors_participant_id ON cursors(participant_id);
 CREATE INDEX idx_cursors_document_id ON cursors(document_id);
@@ -225,13 +402,32 @@ CREATE INDEX idx_presence_participant_id ON presence(participant_id);
 CREATE INDEX idx_presence_status ON presence(status);
 CREATE INDEX idx_presence_last_activity ON presence(last_activity);
 
+CREATE INDEX idx_room_invites_room_id ON room_invites(room_id);
+CREATE INDEX idx_room_invites_expires_at ON room_invites(expires_at);
+
+CREATE INDEX idx_join_requests_room_id_status ON join_requests(room_id, status);
+CREATE UNIQUE INDEX idx_join_requests_pending ON join_requests(room_id, user_id) WHERE status = 'pending';
+
+CREATE INDEX idx_document_permissions_room_id ON document_permissions(room_id);
+CREATE INDEX idx_document_permissions_document_id ON document_permissions(document_id);
+
+CREATE INDEX idx_pubsub_attachments_created_at ON pubsub_attachments(created_at);
+
 -- Row Level Security (RLS) Policies
 ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE operations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_crdt_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_conflicts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cursors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE join_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_permissions ENABLE ROW LEVEL SECURITY;
+-- Only read by the servers over a direct connection, so no policies
+ALTER TABLE pubsub_attachments ENABLE ROW LEVEL SECURITY;
 
 -- Rooms policies
 CREATE POLICY "Users can view rooms they participate in" ON rooms
@@ -306,6 +502,72 @@ CREATE POLICY "Participants can create operations in their rooms" ON operations
         )
     );
 
+-- Document snapshots policies
+CREATE POLICY "Participants can view snapshots in their rooms" ON document_snapshots
+    FOR SELECT USING (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Participants can create snapshots in their rooms" ON document_snapshots
+    FOR INSERT WITH CHECK (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+-- Document CRDT updates policies
+CREATE POLICY "Participants can view CRDT updates in their rooms" ON document_crdt_updates
+    FOR SELECT USING (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Participants can manage CRDT updates in their rooms" ON document_crdt_updates
+    FOR ALL USING (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+-- Document conflicts policies
+CREATE POLICY "Participants can view conflicts in their rooms" ON document_conflicts
+    FOR SELECT USING (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Participants can record conflicts in their rooms" ON document_conflicts
+    FOR INSERT WITH CHECK (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Editors can resolve conflicts in their rooms" ON document_conflicts
+    FOR UPDATE USING (
+        document_id IN (
+            SELECT d.id FROM documents d
+            JOIN participants p ON d.room_id = p.room_id
+            WHERE p.user_id = auth.uid() AND p.role IN ('owner', 'editor')
+        )
+    );
+
 -- Cursors policies
 CREATE POLICY "Participants can view cursors in their rooms" ON cursors
     FOR SELECT USING (
@@ -339,6 +601,59 @@ CREATE POLICY "Users can manage their own presence" ON presence
         )
     );
 
+-- Room invites policies
+CREATE POLICY "Room owners can view invites" ON room_invites
+    FOR SELECT USING (
+        room_id IN (
+            SELECT room_id FROM participants
+            WHERE user_id = auth.uid() AND role = 'owner'
+        )
+    );
+
+CREATE POLICY "Room owners can manage invites" ON room_invites
+    FOR ALL USING (
+        room_id IN (
+            SELECT room_id FROM participants
+            WHERE user_id = auth.uid() AND role = 'owner'
+        )
+    );
+
+-- Join requests policies
+CREATE POLICY "Users can view their own join requests" ON join_requests
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Room owners can view join requests" ON join_requests
+    FOR SELECT USING (
+        room_id IN (
+            SELECT room_id FROM participants
+            WHERE user_id = auth.uid() AND role = 'owner'
+        )
+    );
+
+CREATE POLICY "Room owners can decide join requests" ON join_requests
+    FOR UPDATE USING (
+        room_id IN (
+            SELECT room_id FROM participants
+            WHERE user_id = auth.uid() AND role = 'owner'
+        )
+    );
+
+-- Document permissions policies
+CREATE POLICY "Participants can view document permissions" ON document_permissions
+    FOR SELECT USING (
+        room_id IN (
+            SELECT room_id FROM participants WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Room owners can manage document permissions" ON document_permissions
+    FOR ALL USING (
+        room_id IN (
+            SELECT room_id FROM participants
+            WHERE user_id = auth.uid() AND role = 'owner'
+        )
+    );
+
 -- Functions and Triggers
 
 -- Update timestamp function
@@ -416,66 +731,232 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function to redeem a room invite
+-- Counts one use and returns the invite's role, or NULL when the invite is revoked, expired or used up
+CREATE OR REPLACE FUNCTION redeem_room_invite(
+    p_invite_id UUID,
+    p_room_id UUID
+)
+RETURNS participant_role AS $$
+DECLARE
+    invite_role participant_role;
+BEGIN
+    UPDATE room_invites
+    SET use_count = use_count + 1
+    WHERE id = p_invite_id
+    AND room_id = p_room_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+    AND (max_uses IS NULL OR use_count < max_uses)
+    RETURNING role INTO invite_role;
+
+    RETURN invite_role;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to give back a use of a room invite
+-- Join requests count a use when they are made; a denied request returns it
+CREATE OR REPLACE FUNCTION release_room_invite(
+    p_invite_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE room_invites
+    SET use_count = use_count - 1
+    WHERE id = p_invite_id
+    AND use_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to hand a room to another participant
+-- Promotes the new owner, points the room at them and demotes the previous owner to editor in one
+-- transaction, so the room always has exactly one owner. Returns the updated room.
+CREATE OR REPLACE FUNCTION transfer_room_ownership(
+    p_room_id UUID,
+    p_from_participant_id UUID,
+    p_to_participant_id UUID
+)
+RETURNS SETOF rooms AS $$
+DECLARE
+    new_owner_user_id UUID;
+BEGIN
+    -- Lock the room so concurrent transfers are applied one after the other
+    PERFORM 1 FROM rooms r WHERE r.id = p_room_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Room % not found', p_room_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM participants p
+        WHERE p.id = p_from_participant_id AND p.room_id = p_room_id AND p.role = 'owner'
+    ) THEN
+        RAISE EXCEPTION 'Participant % does not own room %', p_from_participant_id, p_room_id USING ERRCODE = '42501';
+    END IF;
+
+    SELECT p.user_id INTO new_owner_user_id
+    FROM participants p
+    WHERE p.id = p_to_participant_id AND p.room_id = p_room_id;
+
+    -- Guests have no user to own the room
+    IF new_owner_user_id IS NULL THEN
+        RAISE EXCEPTION 'Participant % cannot own room %', p_to_participant_id, p_room_id USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE participants SET role = 'owner' WHERE id = p_to_participant_id;
+    UPDATE participants SET role = 'editor' WHERE id = p_from_participant_id;
+
+    RETURN QUERY
+    UPDATE rooms r
+    SET owner_id = new_owner_user_id, updated_at = NOW()
+    WHERE r.id = p_room_id
+    RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to apply a text operation to a string
+-- Components are {"type": "retain"|"delete", "count": n} or {"type": "insert", "text": s}. Counts are
+-- UTF-16 code units, as in JavaScript strings, so characters outside the Basic Multilingual Plane
+-- count twice. Text after the last component is kept.
+CREATE OR REPLACE FUNCTION apply_text_operation(
+    p_content TEXT,
+    p_components JSONB
+)
+RETURNS TEXT AS $$
+DECLARE
+    chars TEXT[] := string_to_array(p_content, NULL);
+    total INTEGER := COALESCE(array_length(chars, 1), 0);
+    -- Without such characters code units and characters coincide
+    has_wide_chars BOOLEAN := p_content ~ '[\U00010000-\U0010FFFF]';
+    component JSONB;
+    units INTEGER;
+    span INTEGER;
+    next_char INTEGER := 1;
+    result TEXT := '';
+BEGIN
+    FOR component IN SELECT value FROM jsonb_array_elements(p_components) LOOP
+        IF component->>'type' = 'insert' THEN
+            result := result || COALESCE(component->>'text', '');
+            CONTINUE;
+        END IF;
+
+        IF component->>'type' NOT IN ('retain', 'delete') THEN
+            RAISE EXCEPTION 'Unknown operation component: %', component->>'type' USING ERRCODE = '22023';
+        END IF;
+
+        units := COALESCE((component->>'count')::INTEGER, 0);
+        span := units;
+        IF has_wide_chars THEN
+            span := 0;
+            WHILE units > 0 AND next_char + span <= total LOOP
+                units := units - CASE WHEN ascii(chars[next_char + span]) > 65535 THEN 2 ELSE 1 END;
+                span := span + 1;
+            END LOOP;
+            IF units > 0 THEN
+                span := total + 1;
+            END IF;
+        END IF;
+
+        IF next_char + span - 1 > total THEN
+            RAISE EXCEPTION 'Operation does not fit the document' USING ERRCODE = '22023';
+        END IF;
+
+        IF component->>'type' = 'retain' THEN
+            result := result || array_to_string(chars[next_char:next_char + span - 1], '');
+        END IF;
+        next_char := next_char + span;
+    END LOOP;
+
+    RETURN result || array_to_string(chars[next_char:total], '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
 -- Function to apply operation to document
+-- Applies a full operation only while the document is still at p_base_version, updating the
+-- document and recording the operation in one transaction. When the document has moved on
+-- nothing changes and `applied` is FALSE with the current version, so the caller can transform
+-- the operation against the ones it missed and retry.
+DROP FUNCTION IF EXISTS apply_operation(UUID, UUID, operation_type, INTEGER, INTEGER, TEXT, UUID, INTEGER);
 CREATE OR REPLACE FUNCTION apply_operation(
     p_document_id UUID,
     p_participant_id UUID,
-    p_operation_type operation_type,
-    p_position INTEGER,
-    p_length INTEGER DEFAULT NULL,
-    p_content TEXT DEFAULT NULL,
-    p_client_id UUID DEFAULT NULL,
-    p_client_sequence INTEGER DEFAULT 0
+    p_components JSONB,
+    p_base_version INTEGER,
+    p_client_id UUID,
+    p_client_sequence INTEGER,
+    p_timestamp TIMESTAMPTZ DEFAULT NOW(),
+    p_metadata JSONB DEFAULT '{}'::JSONB
 )
-RETURNS UUID AS $$
+RETURNS TABLE (applied BOOLEAN, new_version INTEGER, new_server_sequence INTEGER) AS $$
 DECLARE
-    operation_id UUID;
     current_content TEXT;
+    current_version INTEGER;
     new_content TEXT;
+    component JSONB;
+    summary_type operation_type := 'retain';
+    summary_position INTEGER := 0;
+    summary_length INTEGER;
+    summary_content TEXT;
+    recorded_sequence INTEGER;
 BEGIN
-    -- Generate operation ID
-    operation_id := uuid_generate_v4();
-
-    -- Get current document content
-    SELECT content INTO current_content
-    FROM documents
-    WHERE id = p_document_id;
-
-    -- Apply operation based on type
-    CASE p_operation_type
-        WHEN 'insert' THEN
-            new_content := left(current_content, p_position) ||
-                          COALESCE(p_content, '') ||
-                          substring(current_content from p_position + 1);
-        WHEN 'delete' THEN
-            new_content := left(current_content, p_position) ||
-                          substring(current_content from p_position + COALESCE(p_length, 0) + 1);
-        ELSE
-            new_content := current_content;
-    END CASE;
-
-    -- Update document content and version
-    UPDATE documents
+    -- Lock the row so concurrent callers are applied one after the other
+    SELECT d.content, d.version INTO current_content, current_version
+    FROM documents d
+    WHERE d.id = p_document_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document % not found', p_document_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_version <> p_base_version THEN
+        RETURN QUERY SELECT FALSE, current_version, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    new_content := apply_text_operation(current_content, p_components);
+
+    UPDATE documents d
     SET
         content = new_content,
-        version = version + 1,
-        size_bytes = length(new_content),
-        line_count = array_length(string_to_array(new_content, E'\n'), 1),
-        last_operation_timestamp = NOW(),
-        updated_at = NOW()
-    WHERE id = p_document_id;
-
-    -- Insert operation record
+        version = current_version + 1,
+        size_bytes = octet_length(new_content),
+        line_count = length(new_content) - length(replace(new_content, E'\n', '')) + 1,
+        last_operation_timestamp = p_timestamp,
+        updated_at = p_timestamp
+    WHERE d.id = p_document_id;
+
+    -- The legacy columns summarize the first non-retain component
+    FOR component IN SELECT value FROM jsonb_array_elements(p_components) LOOP
+        IF component->>'type' = 'retain' THEN
+            summary_position := summary_position + COALESCE((component->>'count')::INTEGER, 0);
+            CONTINUE;
+        END IF;
+
+        summary_type := (component->>'type')::operation_type;
+        summary_content := CASE WHEN summary_type = 'insert' THEN COALESCE(component->>'text', '') END;
+        summary_length := CASE
+            WHEN summary_type = 'insert' THEN length(summary_content)
+            ELSE COALESCE((component->>'count')::INTEGER, 0)
+        END;
+        EXIT;
+    END LOOP;
+
+    IF summary_type = 'retain' THEN
+        summary_length := summary_position;
+        summary_position := 0;
+    END IF;
+
     INSERT INTO operations (
-        id, document_id, participant_id, operation_type,
-        position, length, content, client_id, client_sequence
+        document_id, participant_id, operation_type, position, length, content,
+        components, base_version, client_id, client_sequence, timestamp, metadata
     ) VALUES (
-        operation_id, p_document_id, p_participant_id, p_operation_type,
-        p_position, p_length, p_content,
-        COALESCE(p_client_id, uuid_generate_v4()), p_client_sequence
-    );
+        p_document_id, p_participant_id, summary_type, summary_position, summary_length, summary_content,
+        p_components, p_base_version, p_client_id, p_client_sequence, p_timestamp, p_metadata
+    )
+    RETURNING operations.server_sequence INTO recorded_sequence;
 
-    RETURN operation_id;
+    RETURN QUERY SELECT TRUE, current_version + 1, recorded_sequence;
 END;
 $$ LANGUAGE plpgsql;
 
@@ -545,11 +1026,22 @@ COMMENT ON TABLE rooms IS 'Collaboration rooms where users can work together';
 COMMENT ON TABLE participants IS 'Users participating in collaboration rooms';
 COMMENT ON TABLE documents IS 'Documents being collaboratively edited';
 COMMENT ON TABLE operations IS 'Operational transform operations for conflict-free editing';
+COMMENT ON TABLE document_snapshots IS 'Compacted document checkpoints for fast version reconstruction';
+COMMENT ON TABLE document_crdt_updates IS 'Incremental and compacted Yjs updates of documents in CRDT rooms';
+COMMENT ON TABLE document_conflicts IS 'Conflicting concurrent edits with both sides, for review and resolution';
 COMMENT ON TABLE cursors IS 'Real-time cursor positions and selections';
 COMMENT ON TABLE presence IS 'Real-time presence and activity tracking';
+COMMENT ON TABLE room_invites IS 'Revocable, expiring room invitations referenced by signed invite tokens';
+COMMENT ON TABLE join_requests IS 'Pending and decided requests to join rooms that require approval';
+COMMENT ON TABLE document_permissions IS 'Per-document and path-glob access rules that restrict room roles';
+COMMENT ON TABLE pubsub_attachments IS 'Short-lived payloads of pub/sub messages too large for NOTIFY';
 
 COMMENT ON COLUMN rooms.metadata IS 'Additional room configuration and settings';
+COMMENT ON COLUMN rooms.editing_mode IS 'How documents are synchronized: ot (Socket.IO operations) or crdt (Yjs over y-websocket)';
 COMMENT ON COLUMN participants.color IS 'Hex color code for participant cursor and selection highlighting';
 COMMENT ON COLUMN operations.vector_clock IS 'Vector clock for distributed conflict resolution';
 COMMENT ON COLUMN operations.client_sequence IS 'Client-side sequence number for operation ordering';
 COMMENT ON COLUMN operations.server_sequence IS 'Server-side sequence number for global ordering';
+COMMENT ON COLUMN operations.components IS 'Complete text operation as an array of retain/insert/delete components';
+COMMENT ON COLUMN operations.base_version IS 'Document version the operation applies to; replaying in this order rebuilds the document';
+COMMENT ON COLUMN document_conflicts.resolution IS 'Chosen side: server (the sequenced edits only), client (the client edit only) or merged (supplied text)';
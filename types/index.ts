@@ -253,17 +253,18 @@ export interface Database {
 				Args: {
 					p_document_id: string;
 					p_participant_id: string;
-					p_operation_type: string;
-					p_position: number;
-					p_content: string | null;
-					p_length: number;
-					p_version: number;
+					p_components: Json;
+					p_base_version: number;
+					p_client_id: string;
+					p_client_sequence: number;
+					p_timestamp?: string;
+					p_metadata?: Json;
 				};
 				Returns: {
-					success: boolean;
+					applied: boolean;
 					new_version: number;
-					conflict: boolean;
-				};
+					new_server_sequence: number | null;
+				}[];
 			};
 		};
 		Enums: {
@@ -442,6 +443,7 @@ export type WebSocketMessageType =
 	| 'room-updated'
 	| 'sync-request'
 	| 'sync-response'
+	| 'sync-report'
 	| 'error'
 	| 'ping'
 	| 'pong';